@@ -7,7 +7,11 @@ export const window = {
     showErrorMessage: jest.fn(),
     showWarningMessage: jest.fn(),
     showQuickPick: jest.fn(),
-    withProgress: jest.fn((options, task) => task({ report: jest.fn() }, { isCancellationRequested: false })),
+    showInputBox: jest.fn(),
+    withProgress: jest.fn((options, task) => task(
+        { report: jest.fn() },
+        { isCancellationRequested: false, onCancellationRequested: jest.fn(() => ({ dispose: jest.fn() })) }
+    )),
     createStatusBarItem: jest.fn(() => ({
         show: jest.fn(),
         hide: jest.fn(),
@@ -17,6 +21,7 @@ export const window = {
         command: '',
     })),
     activeTextEditor: undefined,
+    onDidChangeActiveTextEditor: jest.fn(() => ({ dispose: jest.fn() })),
 };
 
 export const workspace = {
@@ -25,10 +30,13 @@ export const workspace = {
         update: jest.fn(),
     })),
     onDidChangeConfiguration: jest.fn(() => ({ dispose: jest.fn() })),
+    onDidChangeTextDocument: jest.fn(() => ({ dispose: jest.fn() })),
+    onDidCloseTextDocument: jest.fn(() => ({ dispose: jest.fn() })),
 };
 
 export const commands = {
     registerCommand: jest.fn(),
+    executeCommand: jest.fn(),
 };
 
 export const languages = {
@@ -46,6 +54,17 @@ export const ProgressLocation = {
     Window: 10,
 };
 
+export const ConfigurationTarget = {
+    Global: 1,
+    Workspace: 2,
+    WorkspaceFolder: 3,
+};
+
+export const QuickPickItemKind = {
+    Separator: -1,
+    Default: 0,
+};
+
 export const InlineCompletionTriggerKind = {
     Automatic: 0,
     Invoke: 1,
@@ -62,6 +81,10 @@ export class Position {
     constructor(public line: number, public character: number) { }
 }
 
+export class Selection {
+    constructor(public anchor: Position, public active: Position) { }
+}
+
 export class InlineCompletionItem {
     constructor(public insertText: string, public range: Range) { }
 }
@@ -71,3 +94,20 @@ export class InlineCompletionList {
 }
 
 export const ThemeColor = jest.fn();
+
+export class EventEmitter<T> {
+    private listeners: Array<(e: T) => void> = [];
+
+    event = (listener: (e: T) => void) => {
+        this.listeners.push(listener);
+        return { dispose: () => { this.listeners = this.listeners.filter(l => l !== listener); } };
+    };
+
+    fire(data: T): void {
+        this.listeners.forEach(l => l(data));
+    }
+
+    dispose(): void {
+        this.listeners = [];
+    }
+}
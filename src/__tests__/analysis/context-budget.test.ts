@@ -0,0 +1,110 @@
+/**
+ * Unit tests for the context budget
+ */
+
+import { ContextBudget, heuristicTokenizer, registerTokenizer, tokenizerForModel } from '../../analysis/context-budget';
+import { analyzeDocument } from '../../analysis/document-context';
+import { buildPrompt } from '../../prompts/builder';
+
+describe('heuristicTokenizer', () => {
+    it('should count about four ASCII characters per token', () => {
+        expect(heuristicTokenizer.countTokens('abcd'.repeat(25))).toBe(25);
+    });
+
+    it('should count non-Latin text as more expensive', () => {
+        expect(heuristicTokenizer.countTokens('привет')).toBe(3);
+        expect(heuristicTokenizer.countTokens('你好')).toBe(2);
+    });
+});
+
+describe('tokenizerForModel', () => {
+    it('should fall back to the heuristic tokenizer', () => {
+        expect(tokenizerForModel('unknown-model')).toBe(heuristicTokenizer);
+    });
+
+    it('should use a registered tokenizer for matching models', () => {
+        const words = { countTokens: (text: string) => text.split(/\s+/).filter(Boolean).length };
+        registerTokenizer(/^words-/, words);
+
+        expect(tokenizerForModel('words-1')).toBe(words);
+        expect(new ContextBudget(100, 10, words).count('one two three')).toBe(3);
+    });
+});
+
+describe('ContextBudget', () => {
+    const budget = new ContextBudget(1000, 200);
+
+    it('should reserve the output tokens', () => {
+        expect(budget.inputTokens).toBe(800);
+    });
+
+    it('should keep the start or the end of text', () => {
+        const text = 'a'.repeat(40) + 'b'.repeat(40);
+
+        expect(budget.fitStart(text, 10)).toBe('a'.repeat(40));
+        expect(budget.fitEnd(text, 10)).toBe('b'.repeat(40));
+        expect(budget.fitEnd(text, 100)).toBe(text);
+    });
+
+    it('should cut the middle of text, keeping more of the end', () => {
+        const text = 'a'.repeat(400) + 'b'.repeat(400);
+        const kept = budget.fitMiddle(text, 52);
+
+        // 2 tokens for the omission marker, then 15 from the start and 35 from the end
+        expect(kept).toBe('a'.repeat(60) + '\n...\n' + 'b'.repeat(140));
+        expect(budget.fitMiddle('short', 52)).toBe('short');
+    });
+
+    it('should give each part its share before passing leftovers on in priority order', () => {
+        // 800 input tokens - 100 fixed = 700 flexible
+        const allocation = budget.allocate(['x'.repeat(400)], {
+            framework: 10,
+            outline: 1000,
+            sections: 0,
+            before: 1000,
+            after: 1000,
+        });
+
+        expect(allocation.framework).toBe(10);
+        // 20% share plus everything left after the first pass
+        expect(allocation.outline).toBe(140 + 130);
+        expect(allocation.sections).toBe(0);
+        expect(allocation.before).toBe(280);
+        expect(allocation.after).toBe(140);
+        expect(allocation.framework + allocation.outline + allocation.before + allocation.after).toBe(700);
+    });
+
+    it('should allocate nothing when the fixed parts fill the context', () => {
+        const allocation = budget.allocate(['x'.repeat(4000)], { framework: 10, outline: 10, sections: 10, before: 10, after: 10 });
+        expect(allocation).toEqual({ framework: 0, outline: 0, sections: 0, before: 0, after: 0 });
+    });
+});
+
+describe('budgeted prompts', () => {
+    const lines = Array.from({ length: 400 }, (_, i) => i % 10 === 0 ? `## Section ${i}` : `- point ${i} with some words`);
+    const text = lines.join('\n');
+    // End of a bullet line: content position, with text on both sides
+    const cursor = [205, lines[205].length] as const;
+
+    it('should keep more than the fixed windows when the budget allows', () => {
+        const context = analyzeDocument(text, ...cursor, null, new ContextBudget(32000, 1000));
+        const { userPrompt } = buildPrompt(context);
+
+        // Every sibling section is summarized, not only the nearest ones
+        expect(userPrompt).toContain('## Section 0 — point 1 with some words');
+        expect(userPrompt).toContain('## Section 390 — point 391 with some words');
+        expect(userPrompt).toContain('- point 209 with some words');
+    });
+
+    it('should fit the whole prompt into a small context window', () => {
+        const budget = new ContextBudget(1024, 256);
+        const context = analyzeDocument(text, ...cursor, null, budget);
+        const { systemPrompt, userPrompt } = buildPrompt(context);
+
+        expect(budget.count(systemPrompt) + budget.count(userPrompt)).toBeLessThanOrEqual(budget.inputTokens);
+        // The nearest context is kept
+        expect(userPrompt).toContain('- point 204 with some words');
+        expect(userPrompt).toContain('- point 206 with some words');
+        expect(userPrompt).not.toContain('- point 1 with some words');
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * Unit tests for per-document settings and inline directives
+ */
+
+import { analyzeDocument, parseDocument } from '../../analysis/document-context';
+import { findDirectives, parseDocumentSettings } from '../../analysis/directives';
+
+describe('parseDocumentSettings', () => {
+    it('should read the thoughtCompletion key in flow or block style', () => {
+        expect(parseDocumentSettings('thoughtCompletion: { type: negotiation, model: qwen3, temperature: 0.3, language: ru }'))
+            .toEqual({ type: 'negotiation', model: 'qwen3', temperature: 0.3, language: 'ru' });
+        expect(parseDocumentSettings('title: Deal\nthoughtCompletion:\n  type: brainstorm'))
+            .toEqual({ type: 'brainstorm' });
+    });
+
+    it('should ignore invalid YAML and values of the wrong kind', () => {
+        expect(parseDocumentSettings('thoughtCompletion: { type: [')).toEqual({});
+        expect(parseDocumentSettings('thoughtCompletion: { temperature: hot, model: 3 }')).toEqual({});
+        expect(parseDocumentSettings('thoughtCompletion: { temperature: 5 }')).toEqual({});
+        expect(parseDocumentSettings('title: Deal')).toEqual({});
+    });
+});
+
+describe('findDirectives', () => {
+    const text = `<!-- tc: keep it short -->
+# Vendor Review
+## Pricing
+<!-- tc: focus on pricing risks -->
+Prices rose twice.
+### Tiers
+Tiers start at 100 seats.
+## Risks
+\`\`\`
+<!-- tc: not a directive -->
+\`\`\`
+Lock-in is the main risk. <!-- tc: cite the contract -->`;
+    const document = parseDocument(text);
+
+    it('should apply directives to their section and its subsections', () => {
+        expect(findDirectives(document, 4)).toEqual(['keep it short', 'focus on pricing risks']);
+        expect(findDirectives(document, 6)).toEqual(['keep it short', 'focus on pricing risks']);
+    });
+
+    it('should skip code and take directives written inside a paragraph', () => {
+        expect(findDirectives(document, 11)).toEqual(['keep it short', 'cite the contract']);
+    });
+});
+
+describe('document settings in context', () => {
+    it('should parse the frontmatter settings and directives into the context', () => {
+        const text = '---\nthoughtCompletion:\n  temperature: 0.3\n---\n# Plan\n<!-- tc: be blunt -->\n- Ship';
+        const context = analyzeDocument(text, 6, 6);
+
+        expect(context.documentSettings).toEqual({ temperature: 0.3 });
+        expect(context.directives).toEqual(['be blunt']);
+    });
+});
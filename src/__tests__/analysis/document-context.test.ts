@@ -53,6 +53,56 @@ More content`;
         expect(numbered).toHaveLength(3);
         expect(numbered[0]).toMatchObject({ type: 'numbered', level: 1, content: 'First' });
     });
+
+    it('should not treat lines in fenced code or frontmatter as headers', () => {
+        const text = `---
+title: Notes
+---
+# Setup
+\`\`\`bash
+# install dependencies
+npm install
+\`\`\``;
+
+        const structure = extractStructure(text);
+
+        expect(structure.filter(s => s.type === 'header')).toEqual([
+            { type: 'header', level: 1, content: 'Setup', line: 3, endLine: 3 },
+        ]);
+        expect(structure[0]).toMatchObject({ type: 'frontmatter', content: 'title: Notes', line: 0, endLine: 2 });
+        expect(structure[2]).toMatchObject({
+            type: 'code',
+            language: 'bash',
+            content: '# install dependencies\nnpm install',
+            line: 4,
+            endLine: 7,
+        });
+    });
+
+    it('should recognize setext headers, task items, quotes and tables with their ranges', () => {
+        const text = `Plan
+====
+
+- [ ] Draft the offer
+- [x] Check the budget
+
+> Price is not
+> the main issue
+
+| Option | Cost |
+|--------|------|
+| A      | 10   |`;
+
+        const structure = extractStructure(text);
+
+        expect(structure).toEqual([
+            { type: 'header', level: 1, content: 'Plan', line: 0, endLine: 1 },
+            { type: 'task', level: 1, content: 'Draft the offer', checked: false, line: 3, endLine: 3 },
+            { type: 'task', level: 1, content: 'Check the budget', checked: true, line: 4, endLine: 4 },
+            { type: 'blockquote', level: 0, content: 'Price is not\nthe main issue', line: 6, endLine: 7 },
+            { type: 'table', level: 0, content: 'Option | Cost', line: 9, endLine: 11 },
+        ]);
+    });
 });
 
 describe('findCurrentSection', () => {
@@ -108,6 +158,27 @@ describe('detectCursorPosition', () => {
         const position = detectCursorPosition(lines, 0, emptyStructure);
         expect(position).toBe('structure');
     });
+
+    it('should detect structure position at empty task item', () => {
+        const lines = ['- [ ] '];
+        const position = detectCursorPosition(lines, 0, emptyStructure);
+        expect(position).toBe('structure');
+    });
+
+    it('should detect content position inside a code block', () => {
+        const text = '```python\n\n# comment\n```';
+        const lines = text.split('\n');
+        const structure = extractStructure(text);
+
+        expect(detectCursorPosition(lines, 1, structure)).toBe('content');
+        expect(detectCursorPosition(lines, 2, structure)).toBe('content');
+    });
+
+    it('should detect structure position at a setext header underline', () => {
+        const text = 'Title\n-----';
+        const position = detectCursorPosition(text.split('\n'), 1, extractStructure(text));
+        expect(position).toBe('structure');
+    });
 });
 
 describe('analyzeDocument', () => {
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for the incrementally parsed document
+ */
+
+import { DocumentModel, TextChange } from '../../analysis/document-model';
+import { analyzeDocument, analyzeParsedDocument, extractStructure } from '../../analysis/document-context';
+
+/**
+ * Deterministic random numbers, so failures can be reproduced
+ */
+function seededRandom(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Research notes of the given number of sections, about 30 lines each
+ */
+function syntheticNotes(sections: number): string {
+    const parts: string[] = ['---', 'title: Research notes', '---', '# Research Notes', ''];
+    for (let i = 1; i <= sections; i++) {
+        parts.push(
+            `## Topic ${i}`,
+            '',
+            `Findings for topic ${i} come from several interviews and a survey.`,
+            'They are summarized below, with open questions at the end.',
+            '',
+            '### Evidence',
+            '- Interview notes',
+            '  - Participants mention pricing first',
+            '  - Onboarding takes too long',
+            '- [ ] Verify the survey sample',
+            '- [x] Collect support tickets',
+            '',
+            '> Customers will pay more for faster onboarding.',
+            '',
+            '```python',
+            '# load the survey data',
+            'data = load("survey.csv")',
+            '```',
+            '',
+            '| Metric | Value |',
+            '|--------|-------|',
+            `| Score  | ${i}     |`,
+            '',
+            'Open Questions',
+            '--------------',
+            '1. Is the sample representative?',
+            '2. What changed since last year?',
+            ''
+        );
+    }
+    return parts.join('\n');
+}
+
+/**
+ * Insert text at a position
+ */
+function insertAt(line: number, character: number, text: string): TextChange {
+    return { range: { start: { line, character }, end: { line, character } }, text };
+}
+
+const SNIPPETS = [
+    '```', '~~~', '# Heading', '## Heading', 'Setext\n===', '---', '- item', '  - nested item',
+    '- [ ] task', '1. step', '> quote', '| a | b |\n|---|---|', 'plain text', '', '<!-- note', '-->',
+    '    indented code', 'x', '\n\n',
+];
+
+describe('DocumentModel', () => {
+    it('should match a full parse after each of many edits', () => {
+        const random = seededRandom(42);
+        const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+        const model = new DocumentModel(syntheticNotes(6));
+
+        for (let step = 0; step < 400; step++) {
+            const lines = model.lines;
+            const line = Math.floor(random() * lines.length);
+            const roll = random();
+            let change: TextChange;
+
+            if (roll < 0.5) {
+                change = insertAt(line, 0, pick(SNIPPETS) + '\n');
+            } else if (roll < 0.8) {
+                const end = Math.min(lines.length - 1, line + Math.floor(random() * 3));
+                change = { range: { start: { line, character: 0 }, end: { line: end, character: lines[end].length } }, text: '' };
+            } else {
+                change = insertAt(line, Math.floor(random() * (lines[line].length + 1)), pick(SNIPPETS));
+            }
+
+            model.applyChange(change);
+            expect(model.structure).toEqual(extractStructure(model.text));
+        }
+    });
+
+    it('should apply several changes from one event in order', () => {
+        const model = new DocumentModel('# Title\n\n- one\n- two');
+
+        model.applyChange(insertAt(3, 5, ' more'));
+        model.applyChange({ range: { start: { line: 0, character: 2 }, end: { line: 0, character: 7 } }, text: 'Plan' });
+
+        expect(model.text).toBe('# Plan\n\n- one\n- two more');
+        expect(model.structure).toEqual(extractStructure(model.text));
+    });
+
+    it('should give the same context as analyzing the text', () => {
+        const model = new DocumentModel(syntheticNotes(3));
+        model.applyChange(insertAt(40, 0, '- new evidence\n'));
+
+        expect(analyzeParsedDocument(model, 41, 0)).toEqual(analyzeDocument(model.text, 41, 0));
+    });
+
+    it('should parse only the blocks around each keystroke in a 3000-line document', () => {
+        const model = new DocumentModel(syntheticNotes(110));
+        expect(model.lines.length).toBeGreaterThan(3000);
+        const cursorLine = 1500;
+
+        for (let i = 0; i < 20; i++) {
+            model.applyChange(insertAt(cursorLine, model.lines[cursorLine].length, 'a'));
+
+            const { start, end } = model.lastParsed;
+            expect(start).toBeLessThanOrEqual(cursorLine);
+            expect(end).toBeGreaterThan(cursorLine);
+            expect(end - start).toBeLessThan(30);
+        }
+        expect(model.structure).toEqual(extractStructure(model.text));
+    });
+
+    it('should parse the whole document when an edit opens a code fence', () => {
+        const model = new DocumentModel(syntheticNotes(3));
+
+        model.applyChange(insertAt(40, 0, '```\n'));
+
+        expect(model.lastParsed).toEqual({ start: 0, end: model.lines.length });
+        expect(model.structure).toEqual(extractStructure(model.text));
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for the outline tree
+ */
+
+import { extractStructure } from '../../analysis/document-context';
+import {
+    buildOutline,
+    findOutlinePath,
+    findSiblingPattern,
+    inferSiblingPattern,
+    scaffoldSibling,
+} from '../../analysis/outline';
+
+const OPTIONS = `# Vendor Choice
+## Options
+### Option A
+- Pros: fast
+- Cons: risky
+- Cost: $10k
+### Option B
+- Pros: cheap
+- Cost: $4k
+  - Includes support
+
+## Decision`;
+
+function outlineOf(text: string) {
+    return buildOutline(extractStructure(text), text.split('\n').length);
+}
+
+describe('buildOutline', () => {
+    it('should nest headers by level and list items under their header', () => {
+        const outline = outlineOf(OPTIONS);
+
+        expect(outline).toHaveLength(1);
+        const [options, decision] = outline[0].children;
+        expect(options.node.content).toBe('Options');
+        expect(options.children.map(c => c.node.content)).toEqual(['Option A', 'Option B']);
+        expect(options.children[1].children.map(c => c.node.content)).toEqual(['Pros: cheap', 'Cost: $4k']);
+        expect(options.children[1].children[1].children[0].node.content).toBe('Includes support');
+        expect(decision.node.content).toBe('Decision');
+    });
+
+    it('should give headers the lines up to the next header of the same or a higher level', () => {
+        const [root] = outlineOf(OPTIONS);
+        const [options, decision] = root.children;
+
+        expect(root).toMatchObject({ startLine: 0, endLine: 11 });
+        expect(options).toMatchObject({ startLine: 1, endLine: 10 });
+        expect(options.children[0]).toMatchObject({ startLine: 2, endLine: 5 });
+        expect(decision).toMatchObject({ startLine: 11, endLine: 11 });
+    });
+});
+
+describe('findOutlinePath', () => {
+    it('should return the nodes containing a line from the top down', () => {
+        const path = findOutlinePath(outlineOf(OPTIONS), 9);
+
+        expect(path.map(n => n.node.content)).toEqual(['Vendor Choice', 'Options', 'Option B', 'Cost: $4k', 'Includes support']);
+    });
+});
+
+describe('inferSiblingPattern', () => {
+    it('should find the next label and the children most siblings share', () => {
+        const options = outlineOf(OPTIONS)[0].children[0];
+
+        const pattern = inferSiblingPattern(options.children);
+
+        expect(pattern?.nextLabel).toBe('Option C');
+        expect(pattern?.children).toEqual([
+            { type: 'bullet', level: 1, label: 'Pros:' },
+            { type: 'bullet', level: 1, label: 'Cost:' },
+        ]);
+    });
+
+    it('should continue numbered labels and ignore unrelated siblings', () => {
+        const steps = outlineOf('## Step 1: Research\n## Step 2: Design');
+
+        expect(inferSiblingPattern(steps)?.nextLabel).toBe('Step 3');
+        expect(inferSiblingPattern(outlineOf('## Background\n## Goals'))).toBeNull();
+        expect(inferSiblingPattern(steps.slice(0, 1))).toBeNull();
+    });
+});
+
+describe('scaffoldSibling', () => {
+    it('should render the next sibling in the shape of its siblings', () => {
+        const pattern = findSiblingPattern(outlineOf(OPTIONS), 8);
+
+        expect(scaffoldSibling(pattern!)).toBe('### Option C\n- Pros:\n- Cost:');
+    });
+
+    it('should scaffold list items with their nesting', () => {
+        const text = '- [x] Task 1\n  - Owner: Ann\n- [ ] Task 2\n  - Owner: Bob';
+        const pattern = findSiblingPattern(outlineOf(text), 3);
+
+        expect(scaffoldSibling(pattern!)).toBe('- [ ] Task 3\n  - Owner:');
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for sections around the cursor
+ */
+
+import { analyzeDocument, parseDocument } from '../../analysis/document-context';
+import { findCursorSection } from '../../analysis/sections';
+
+const DOCUMENT = `# Vendor Review
+
+Intro to the review.
+
+## Background
+We have used the vendor since 2019. Contracts renew yearly.
+
+## Pricing
+Prices rose twice this year.
+- List price
+- Discounts
+
+### Volume Tiers
+Tiers start at 100 seats.
+
+## Risks
+### Lock-in
+Data export is manual.
+
+## Decision`;
+
+describe('findCursorSection', () => {
+    it('should find the heading path, the body and the next section', () => {
+        // "- List price"
+        const section = findCursorSection(parseDocument(DOCUMENT), 9);
+
+        expect(section.headingPath).toEqual(['Vendor Review', 'Pricing']);
+        expect(section.startLine).toBe(7);
+        // The body ends before "### Volume Tiers"
+        expect(section.endLine).toBe(11);
+        expect(section.nextSection).toBe('### Volume Tiers\nTiers start at 100 seats.');
+    });
+
+    it('should summarize sibling sections by their first sentence', () => {
+        const section = findCursorSection(parseDocument(DOCUMENT), 9);
+
+        expect(section.siblings).toEqual([
+            { heading: '## Background', summary: 'We have used the vendor since 2019.', line: 4 },
+            { heading: '## Risks', summary: '', line: 15 },
+            { heading: '## Decision', summary: '', line: 19 },
+        ]);
+    });
+
+    it('should treat the text before the first header as a section without siblings', () => {
+        const document = parseDocument('Loose notes\n\n# Plan\n- Ship');
+        const section = findCursorSection(document, 0);
+
+        expect(section.headingPath).toEqual([]);
+        expect(section.startLine).toBe(0);
+        expect(section.endLine).toBe(1);
+        expect(section.siblings).toEqual([]);
+        expect(section.nextSection).toBe('# Plan\n- Ship');
+    });
+});
+
+describe('section-aware context', () => {
+    it('should take the current section instead of lines from the previous one', () => {
+        const context = analyzeDocument(DOCUMENT, 9, 12);
+
+        expect(context.textBeforeCursor).toBe('## Pricing\nPrices rose twice this year.\n- List price');
+        expect(context.textAfterCursor).toBe('- Discounts\n');
+        expect(context.headingPath).toEqual(['Vendor Review', 'Pricing']);
+        expect(context.nextSectionStart).toBe('### Volume Tiers\nTiers start at 100 seats.');
+    });
+
+    it('should keep the intro of a long section and cut its middle', () => {
+        const body = Array.from({ length: 100 }, (_, i) => `Finding ${i} from the interviews.`);
+        const text = ['# Notes', '## Findings', 'Intro: what we asked.', ...body].join('\n');
+
+        const context = analyzeDocument(text, 102, 0);
+
+        expect(context.textBeforeCursor.startsWith('## Findings\nIntro: what we asked.')).toBe(true);
+        expect(context.textBeforeCursor).toContain('\n...\n');
+        expect(context.textBeforeCursor).toContain('Finding 98 from the interviews.\n');
+        expect(context.textBeforeCursor).not.toContain('Finding 50 ');
+    });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for the editor commands, against recorded model answers
+ */
+
+import * as vscode from 'vscode';
+import {
+    CommandContext,
+    continueStructureCommand,
+    detectTypeCommand,
+    fillBlankCommand,
+    scaffoldSiblingCommand,
+} from '../../commands/commands';
+import { DocumentTypeCache } from '../../providers/type-cache';
+import { DocumentAnalysisService } from '../../providers/document-analysis';
+import { TaskRouter } from '../../llm/task-router';
+import { LLMProvider } from '../../llm/types';
+import { ContextBudget } from '../../analysis/context-budget';
+import { replayProvider, unrecordedProvider, NEGOTIATION_NOTES } from '../fixtures/replay';
+
+function createStorage(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+        update: async (key: string, value: unknown) => { values.set(key, value); },
+    } as vscode.Memento;
+}
+
+/**
+ * Editor over a fixed document that collects inserted text
+ */
+function createEditor(text: string, line: number, character: number) {
+    const inserted: string[] = [];
+    const editor = {
+        document: {
+            uri: { toString: () => 'file:///notes.md' },
+            getText: () => text,
+            lineAt: (index: number) => ({ text: text.split('\n')[index] }),
+        },
+        selection: { active: new vscode.Position(line, character) },
+        edit: jest.fn(async (callback: (builder: { insert(position: vscode.Position, text: string): void }) => void) => {
+            callback({ insert: (_position, value) => inserted.push(value) });
+            return true;
+        }),
+    };
+    return { editor, inserted };
+}
+
+function createContext(): CommandContext {
+    return {
+        router: new TaskRouter(replayProvider('completions')),
+        typeCache: new DocumentTypeCache(createStorage()),
+        analysis: new DocumentAnalysisService(),
+        customTypes: [],
+        activeTypeName: 'auto',
+        maxTokens: 200,
+        temperature: 0.7,
+        budget: new ContextBudget(8192, 200),
+    } as Partial<CommandContext> as CommandContext;
+}
+
+function setActiveEditor(editor: unknown): void {
+    (vscode.window as { activeTextEditor: unknown }).activeTextEditor = editor;
+}
+
+describe('commands', () => {
+    afterEach(() => {
+        setActiveEditor(undefined);
+        jest.restoreAllMocks();
+        jest.clearAllMocks();
+    });
+
+    it('should stream the next structure into the editor', async () => {
+        const { editor, inserted } = createEditor(NEGOTIATION_NOTES, 9, 0);
+        setActiveEditor(editor);
+
+        await continueStructureCommand(createContext());
+
+        expect(inserted.join('')).toMatch(/^## /);
+        expect(vscode.window.showErrorMessage).not.toHaveBeenCalled();
+    });
+
+    it('should fill content at the cursor', async () => {
+        const line = NEGOTIATION_NOTES.split('\n')[8];
+        const { editor, inserted } = createEditor(NEGOTIATION_NOTES, 8, line.length);
+        setActiveEditor(editor);
+
+        await fillBlankCommand(createContext());
+
+        expect(inserted.join('')).toBeTruthy();
+        expect(vscode.window.showErrorMessage).not.toHaveBeenCalled();
+    });
+
+    it('should show the detected document type', async () => {
+        const { editor } = createEditor(NEGOTIATION_NOTES, 9, 0);
+        setActiveEditor(editor);
+
+        await detectTypeCommand({ ...createContext(), router: new TaskRouter(replayProvider('detection')) });
+
+        expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(expect.stringMatching(/^Detected document type: negotiation \(\d+% confidence\) - \S/));
+    });
+
+    it('should detect the type with the model pinned in the frontmatter', async () => {
+        const configured = { complete: jest.fn() } as unknown as LLMProvider;
+        const pinned = {
+            complete: jest.fn(async () => '{"type": "negotiation", "confidence": 0.9, "reason": "Deal terms"}'),
+        } as unknown as LLMProvider;
+        const createForModel = jest.fn(() => new TaskRouter(pinned));
+        const { editor } = createEditor('---\nthoughtCompletion: { model: small-model }\n---\n# Deal\n', 4, 0);
+        setActiveEditor(editor);
+
+        await detectTypeCommand({ ...createContext(), router: new TaskRouter(configured, {}, createForModel) });
+
+        expect(createForModel).toHaveBeenCalledWith('small-model');
+        expect(pinned.complete).toHaveBeenCalled();
+        expect(configured.complete).not.toHaveBeenCalled();
+    });
+
+    it('should report failed requests', async () => {
+        const { editor, inserted } = createEditor(NEGOTIATION_NOTES, 9, 0);
+        setActiveEditor(editor);
+
+        await continueStructureCommand({ ...createContext(), router: new TaskRouter(unrecordedProvider()) });
+
+        expect(inserted).toEqual([]);
+        expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(expect.stringContaining('No recording for prompt'));
+    });
+
+    it('should scaffold the next sibling without calling a model', async () => {
+        const text = `## Options
+### Option A
+- Pros: fast
+- Cons: risky
+
+### Option B
+- Pros: cheap
+- Cons: slow
+
+## Next Steps`;
+        const { editor, inserted } = createEditor(text, 6, 0);
+        setActiveEditor(editor);
+
+        await scaffoldSiblingCommand(createContext());
+
+        expect(inserted).toEqual(['\n\n### Option C\n- Pros:\n- Cons:']);
+        expect(editor.selection.active).toEqual(new vscode.Position(9, 12));
+    });
+
+    it('should warn when no editor is active', async () => {
+        await continueStructureCommand(createContext());
+
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith('No active editor');
+    });
+});
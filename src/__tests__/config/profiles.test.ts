@@ -0,0 +1,74 @@
+/**
+ * Unit tests for named provider profiles
+ */
+
+import { applyProfile, describeProvider, findProfile } from '../../config/profiles';
+import { ExtensionSettings, ProviderProfile } from '../../llm/types';
+
+const settings: ExtensionSettings = {
+    provider: 'ollama',
+    openai: { baseUrl: 'https://api.openai.com/v1', apiKey: 'sk-test', model: 'gpt-4o-mini' },
+    ollama: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.2', apiMode: 'openai', numCtx: 0, keepAlive: '', think: 'auto' },
+    anthropic: { baseUrl: 'https://api.anthropic.com/v1', apiKey: '', model: 'claude-3-5-haiku-latest' },
+    autoComplete: true,
+    triggerMode: 'auto',
+    completionDelay: 2500,
+    maxTokens: 1000,
+    temperature: 0.7,
+    contextWindow: 8192,
+    modelContextWindows: {},
+    connectTimeout: 10000,
+    requestTimeout: 60000,
+    maxRetries: 2,
+    maxConcurrentRequests: 1,
+    transport: {},
+    cache: { enabled: true, ttlHours: 24, maxEntries: 500 },
+    usage: { enabled: true, prices: {}, dailyCap: 0, monthlyCap: 0 },
+    fim: { enabled: false, templates: {} },
+    log: { redactDocumentText: false },
+    fallbackProviders: [],
+    taskRouting: {},
+    profiles: [],
+    activeProfile: '',
+    activeDocumentType: 'auto',
+    documentTypes: [],
+};
+
+const lmStudio: ProviderProfile = {
+    name: 'office LM Studio',
+    provider: 'openai',
+    baseUrl: 'http://lmstudio.office:1234/v1',
+    model: 'qwen2.5-7b-instruct',
+    temperature: 0.3,
+};
+
+describe('profiles', () => {
+    it('should select the provider and override its endpoint and model', () => {
+        const result = applyProfile(settings, lmStudio);
+
+        expect(result.provider).toBe('openai');
+        expect(result.openai).toEqual({
+            baseUrl: 'http://lmstudio.office:1234/v1',
+            apiKey: 'sk-test',
+            model: 'qwen2.5-7b-instruct',
+        });
+        expect(result.ollama).toBe(settings.ollama);
+    });
+
+    it('should keep maxTokens and temperature the profile leaves unset', () => {
+        const result = applyProfile(settings, lmStudio);
+
+        expect(result.temperature).toBe(0.3);
+        expect(result.maxTokens).toBe(1000);
+        expect(result.activeProfile).toBe('office LM Studio');
+    });
+
+    it('should describe the provider by profile name when one is active', () => {
+        const withProfile = { ...settings, profiles: [lmStudio], activeProfile: 'office LM Studio' };
+
+        expect(findProfile(withProfile.profiles, 'office LM Studio')).toBe(lmStudio);
+        expect(findProfile(withProfile.profiles, '')).toBeUndefined();
+        expect(describeProvider(withProfile)).toBe('office LM Studio');
+        expect(describeProvider(settings)).toBe('Ollama (llama3.2)');
+    });
+});
@@ -0,0 +1,224 @@
+/**
+ * Unit tests for API keys in secret storage
+ */
+
+import * as vscode from 'vscode';
+import { ApiKeyStore, migratePlaintextKeys } from '../../config/secrets';
+import { providerConfigFromSettings } from '../../llm/provider-factory';
+import { ExtensionSettings } from '../../llm/types';
+
+function createSecrets(): vscode.SecretStorage {
+    const values = new Map<string, string>();
+    return {
+        get: async (key: string) => values.get(key),
+        store: async (key: string, value: string) => { values.set(key, value); },
+        delete: async (key: string) => { values.delete(key); },
+        onDidChange: jest.fn(() => ({ dispose: jest.fn() })),
+    } as unknown as vscode.SecretStorage;
+}
+
+function createState(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+        update: async (key: string, value: unknown) => { values.set(key, value); },
+    } as vscode.Memento;
+}
+
+const settings: ExtensionSettings = {
+    provider: 'openai',
+    openai: { baseUrl: 'https://api.openai.com/v1', apiKey: 'sk-plaintext', model: 'gpt-4o-mini' },
+    ollama: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.2', apiMode: 'openai', numCtx: 0, keepAlive: '', think: 'auto' },
+    anthropic: { baseUrl: 'https://api.anthropic.com/v1', apiKey: '', model: 'claude-3-5-haiku-latest' },
+    autoComplete: true,
+    triggerMode: 'auto',
+    completionDelay: 2500,
+    maxTokens: 1000,
+    temperature: 0.7,
+    contextWindow: 8192,
+    modelContextWindows: {},
+    connectTimeout: 10000,
+    requestTimeout: 60000,
+    maxRetries: 2,
+    maxConcurrentRequests: 1,
+    transport: {},
+    cache: { enabled: true, ttlHours: 24, maxEntries: 500 },
+    usage: { enabled: true, prices: {}, dailyCap: 0, monthlyCap: 0 },
+    fim: { enabled: false, templates: {} },
+    log: { redactDocumentText: false },
+    fallbackProviders: [],
+    taskRouting: {},
+    profiles: [{ name: 'work', provider: 'openai', model: 'gpt-4o' }],
+    activeProfile: '',
+    activeDocumentType: 'auto',
+    documentTypes: [],
+};
+
+describe('ApiKeyStore', () => {
+    const savedEnv = process.env.OPENAI_API_KEY;
+    afterEach(() => {
+        if (savedEnv === undefined) {
+            delete process.env.OPENAI_API_KEY;
+        } else {
+            process.env.OPENAI_API_KEY = savedEnv;
+        }
+    });
+
+    it('should keep profile keys apart from the provider key', async () => {
+        const store = new ApiKeyStore(createSecrets());
+        await store.set({ provider: 'openai' }, 'sk-provider');
+        await store.set({ provider: 'openai', profileName: 'work' }, 'sk-work');
+
+        expect(store.get('openai', 'work')).toBe('sk-work');
+        expect(store.get('openai', 'other')).toBeUndefined();
+        expect(store.get('openai')).toBe('sk-provider');
+        expect(store.get('anthropic')).toBeUndefined();
+    });
+
+    it('should load stored keys for providers and profiles', async () => {
+        const secrets = createSecrets();
+        await secrets.store('thoughtCompletion.apiKey.profile.work', 'sk-work');
+
+        const store = new ApiKeyStore(secrets);
+        await store.load(settings);
+
+        expect(store.has({ provider: 'openai', profileName: 'work' })).toBe(true);
+    });
+
+    it('should resolve keys from storage, then the environment, then settings', async () => {
+        const store = new ApiKeyStore(createSecrets());
+        delete process.env.OPENAI_API_KEY;
+
+        expect(providerConfigFromSettings(settings, store)).toMatchObject({ apiKey: 'sk-plaintext' });
+
+        process.env.OPENAI_API_KEY = 'sk-env';
+        expect(providerConfigFromSettings(settings, store)).toMatchObject({ apiKey: 'sk-env' });
+
+        await store.set({ provider: 'openai' }, 'sk-secret');
+        expect(providerConfigFromSettings(settings, store)).toMatchObject({ apiKey: 'sk-secret' });
+    });
+
+    it('should prefer the active profile\'s own key over the provider key', async () => {
+        const store = new ApiKeyStore(createSecrets());
+        await store.set({ provider: 'openai' }, 'sk-secret');
+        const withProfile = {
+            ...settings,
+            profiles: [{ name: 'work', provider: 'openai' as const, model: 'gpt-4o', apiKey: 'sk-work-plaintext' }],
+            activeProfile: 'work',
+        };
+
+        // Profiles without a key of their own use the provider's
+        expect(providerConfigFromSettings({ ...settings, activeProfile: 'work' }, store)).toMatchObject({ apiKey: 'sk-secret' });
+        expect(providerConfigFromSettings(withProfile, store)).toMatchObject({ apiKey: 'sk-work-plaintext' });
+
+        await store.set({ provider: 'openai', profileName: 'work' }, 'sk-work-secret');
+        expect(providerConfigFromSettings(withProfile, store)).toMatchObject({ apiKey: 'sk-work-secret' });
+    });
+});
+
+describe('migratePlaintextKeys', () => {
+    afterEach(() => {
+        jest.clearAllMocks();
+        (vscode.workspace as { workspaceFolders?: unknown }).workspaceFolders = undefined;
+    });
+
+    function mockConfig(globalValues: Record<string, unknown>, scope = 'globalValue') {
+        const config = {
+            inspect: jest.fn((key: string) => ({ key, [scope]: globalValues[key] })),
+            // Writes land in the scope the values came from
+            update: jest.fn(async (key: string, value: unknown) => { globalValues[key] = value; }),
+        };
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue(config);
+        return config;
+    }
+
+    it('should move keys to storage and clear them from settings', async () => {
+        const config = mockConfig({
+            'openai.apiKey': 'sk-plaintext',
+            profiles: [{ name: 'work', provider: 'openai', model: 'gpt-4o', apiKey: 'sk-work' }],
+        });
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Move to Secure Storage');
+        const store = new ApiKeyStore(createSecrets());
+        const state = createState();
+
+        await migratePlaintextKeys(store, state);
+
+        expect(store.get('openai')).toBe('sk-plaintext');
+        expect(store.get('openai', 'work')).toBe('sk-work');
+        expect(config.update).toHaveBeenCalledWith('openai.apiKey', undefined, vscode.ConfigurationTarget.Global);
+        expect(config.update).toHaveBeenCalledWith(
+            'profiles',
+            [{ name: 'work', provider: 'openai', model: 'gpt-4o' }],
+            vscode.ConfigurationTarget.Global
+        );
+
+        // Nothing left to ask about
+        (vscode.window.showWarningMessage as jest.Mock).mockClear();
+        await migratePlaintextKeys(store, state);
+        expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+    });
+
+    it('should keep a key in settings when a different one is already stored', async () => {
+        const config = mockConfig({ 'openai.apiKey': 'sk-new', 'anthropic.apiKey': 'sk-ant' });
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Move to Secure Storage');
+        const store = new ApiKeyStore(createSecrets());
+        await store.set({ provider: 'openai' }, 'sk-old');
+        const state = createState();
+
+        await migratePlaintextKeys(store, state);
+
+        expect(store.get('openai')).toBe('sk-old');
+        expect(store.get('anthropic')).toBe('sk-ant');
+        expect(config.update).toHaveBeenCalledWith('anthropic.apiKey', undefined, vscode.ConfigurationTarget.Global);
+        expect(config.update).not.toHaveBeenCalledWith('openai.apiKey', undefined, expect.anything());
+        expect(vscode.window.showWarningMessage).toHaveBeenLastCalledWith(expect.stringContaining('Kept 1 in settings.json'));
+
+        // Not offered again
+        (vscode.window.showWarningMessage as jest.Mock).mockClear();
+        await migratePlaintextKeys(store, state);
+        expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+    });
+
+    it('should ask again when the prompt is dismissed', async () => {
+        mockConfig({ 'anthropic.apiKey': 'sk-ant' });
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue(undefined);
+        const store = new ApiKeyStore(createSecrets());
+        const state = createState();
+
+        await migratePlaintextKeys(store, state);
+        await migratePlaintextKeys(store, state);
+
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledTimes(2);
+        expect(store.get('anthropic')).toBeUndefined();
+    });
+
+    it('should remember kept keys but offer keys added later', async () => {
+        const values: Record<string, unknown> = { 'openai.apiKey': 'sk-plaintext' };
+        mockConfig(values);
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Keep in Settings');
+        const store = new ApiKeyStore(createSecrets());
+        const state = createState();
+
+        await migratePlaintextKeys(store, state);
+        await migratePlaintextKeys(store, state);
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledTimes(1);
+
+        values['anthropic.apiKey'] = 'sk-ant';
+        await migratePlaintextKeys(store, state);
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledTimes(2);
+        expect(store.get('openai')).toBeUndefined();
+    });
+
+    it('should find keys in workspace folder settings', async () => {
+        (vscode.workspace as { workspaceFolders?: unknown }).workspaceFolders = [{ uri: { toString: () => 'file:///repo' } }];
+        const config = mockConfig({ 'openai.apiKey': 'sk-folder' }, 'workspaceFolderValue');
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Move to Secure Storage');
+        const store = new ApiKeyStore(createSecrets());
+
+        await migratePlaintextKeys(store, createState());
+
+        expect(store.get('openai')).toBe('sk-folder');
+        expect(config.update).toHaveBeenCalledWith('openai.apiKey', undefined, vscode.ConfigurationTarget.WorkspaceFolder);
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * Replay providers answering from the recorded fixtures in this directory
+ *
+ * Requests without a recording fail. After changing a prompt, re-record with a
+ * local Ollama model: TC_RECORD_MODEL=qwen3:4b npx jest
+ */
+
+import * as path from 'path';
+import { createProvider } from '../../llm/provider-factory';
+import { LLMProvider } from '../../llm/types';
+
+export function replayProvider(fixture: string): LLMProvider {
+    const recordModel = process.env.TC_RECORD_MODEL;
+    return createProvider({
+        type: 'replay',
+        fixturesPath: path.join(__dirname, `${fixture}.json`),
+        mode: recordModel ? 'record' : 'replay',
+        strict: true,
+        inner: recordModel
+            ? { type: 'ollama', baseUrl: process.env.TC_RECORD_BASE_URL ?? 'http://localhost:11434/v1', model: recordModel }
+            : undefined,
+    });
+}
+
+/**
+ * Replay provider without recordings, failing every request even while recording
+ */
+export function unrecordedProvider(): LLMProvider {
+    return createProvider({
+        type: 'replay',
+        fixturesPath: path.join(__dirname, 'unrecorded.json'),
+        mode: 'replay',
+        strict: true,
+    });
+}
+
+/**
+ * Negotiation notes used across the replay-backed tests
+ */
+export const NEGOTIATION_NOTES = `# Deal with Acme
+
+## Parties
+- Us: supplier of packaging
+- Acme: retail chain
+
+## Interests
+- Price below last year's
+- Delivery before the holiday season
+`;
+
+/**
+ * A document matching no specific type
+ */
+export const SHOPPING_LIST = `Milk
+Bread
+Eggs
+`;
@@ -0,0 +1,153 @@
+/**
+ * Tests for the Anthropic provider against a local stub HTTP server
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AnthropicProvider } from '../../llm/anthropic-provider';
+
+interface RecordedRequest {
+    url: string;
+    headers: http.IncomingHttpHeaders;
+    body: Record<string, unknown>;
+}
+
+describe('AnthropicProvider', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: RecordedRequest[];
+    let respond: (req: RecordedRequest, res: http.ServerResponse) => void;
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', chunk => { raw += chunk; });
+            req.on('end', () => {
+                const recorded = { url: req.url ?? '', headers: req.headers, body: raw ? JSON.parse(raw) : {} };
+                requests.push(recorded);
+                respond(recorded, res);
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        requests = [];
+    });
+
+    const createProvider = () => new AnthropicProvider({
+        type: 'anthropic',
+        baseUrl,
+        apiKey: 'test-key',
+        model: 'claude-test',
+    });
+
+    it('should send a Messages API request with a top-level system field', async () => {
+        respond = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ content: [{ type: 'text', text: '  ## Next steps  ' }] }));
+        };
+
+        const result = await createProvider().complete('Continue', {
+            systemPrompt: 'You are helpful',
+            maxTokens: 200,
+            stopSequences: ['---'],
+        });
+
+        expect(result).toBe('## Next steps');
+        expect(requests[0].url).toBe('/v1/messages');
+        expect(requests[0].headers['x-api-key']).toBe('test-key');
+        expect(requests[0].headers['anthropic-version']).toBe('2023-06-01');
+        expect(requests[0].body).toMatchObject({
+            model: 'claude-test',
+            system: 'You are helpful',
+            messages: [{ role: 'user', content: 'Continue' }],
+            max_tokens: 200,
+            stop_sequences: ['---'],
+        });
+    });
+
+    it('should cap the temperature at the Messages API maximum', async () => {
+        respond = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ content: [{ type: 'text', text: 'Ideas' }] }));
+        };
+
+        await createProvider().complete('Brainstorm', { temperature: 1.6 });
+        await createProvider().complete('Brainstorm', { temperature: 0.4 });
+
+        expect(requests[0].body.temperature).toBe(1);
+        expect(requests[1].body.temperature).toBe(0.4);
+    });
+
+    it('should map error bodies to readable errors', async () => {
+        respond = (_req, res) => {
+            res.writeHead(401, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+                type: 'error',
+                error: { type: 'authentication_error', message: 'invalid x-api-key' },
+            }));
+        };
+
+        await expect(createProvider().complete('Continue'))
+            .rejects.toThrow('Anthropic API error: 401 authentication_error - invalid x-api-key');
+    });
+
+    it('should stream text deltas', async () => {
+        respond = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            const events = [
+                { type: 'message_start' },
+                { type: 'content_block_delta', delta: { type: 'text_delta', text: '- First' } },
+                { type: 'content_block_delta', delta: { type: 'text_delta', text: '\n- Second' } },
+                { type: 'message_stop' },
+            ];
+            res.end(events.map(e => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`).join(''));
+        };
+
+        const deltas: string[] = [];
+        for await (const delta of createProvider().completeStream('Continue')) {
+            deltas.push(delta);
+        }
+
+        expect(deltas).toEqual(['- First', '\n- Second']);
+        expect(requests[0].body).toMatchObject({ stream: true });
+    });
+
+    it('should report streamed token usage from message_start and message_delta', async () => {
+        respond = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            const events = [
+                { type: 'message_start', message: { usage: { input_tokens: 25, output_tokens: 1 } } },
+                { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Answer' } },
+                { type: 'message_delta', delta: { type: 'message_delta' }, usage: { output_tokens: 12 } },
+                { type: 'message_stop' },
+            ];
+            res.end(events.map(e => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`).join(''));
+        };
+
+        const onUsage = jest.fn();
+        for await (const _delta of createProvider().completeStream('Continue', { onUsage })) {
+            // Drain the stream
+        }
+
+        expect(onUsage).toHaveBeenCalledWith({ inputTokens: 25, outputTokens: 12 });
+    });
+
+    it('should report availability from the models endpoint', async () => {
+        respond = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ data: [{ id: 'claude-test' }] }));
+        };
+
+        const provider = createProvider();
+        expect(await provider.isAvailable()).toBe(true);
+        expect(await provider.listModels()).toEqual(['claude-test']);
+        expect(requests[0].url).toBe('/v1/models');
+    });
+});
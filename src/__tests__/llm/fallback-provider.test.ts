@@ -0,0 +1,147 @@
+/**
+ * Unit tests for the provider fallback chain and task routing
+ */
+
+import { FallbackProvider } from '../../llm/fallback-provider';
+import { createRouterFromSettings, providerConfigFromEndpoint } from '../../llm/provider-factory';
+import { LLMConnectionError, LLMHttpError } from '../../llm/errors';
+import { LLMProvider, CompletionOptions, ExtensionSettings } from '../../llm/types';
+
+function createInner(name: string, complete: (prompt: string, options?: CompletionOptions) => Promise<string>): LLMProvider {
+    return {
+        name,
+        complete: jest.fn(complete),
+        chat: jest.fn(),
+        completeStream: jest.fn(),
+        chatStream: jest.fn(),
+        isAvailable: jest.fn(async () => true),
+    };
+}
+
+const settings: ExtensionSettings = {
+    provider: 'ollama',
+    openai: { baseUrl: 'https://api.openai.com/v1', apiKey: 'sk-test', model: 'gpt-4o-mini' },
+    ollama: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.2', apiMode: 'openai', numCtx: 0, keepAlive: '', think: 'auto' },
+    anthropic: { baseUrl: 'https://api.anthropic.com/v1', apiKey: '', model: 'claude-3-5-haiku-latest' },
+    autoComplete: true,
+    triggerMode: 'auto',
+    completionDelay: 2500,
+    maxTokens: 1000,
+    temperature: 0.7,
+    contextWindow: 8192,
+    modelContextWindows: {},
+    connectTimeout: 10000,
+    requestTimeout: 60000,
+    maxRetries: 2,
+    maxConcurrentRequests: 1,
+    transport: {},
+    cache: { enabled: true, ttlHours: 24, maxEntries: 500 },
+    usage: { enabled: true, prices: {}, dailyCap: 0, monthlyCap: 0 },
+    fim: { enabled: false, templates: {} },
+    log: { redactDocumentText: false },
+    fallbackProviders: [],
+    taskRouting: {},
+    profiles: [],
+    activeProfile: '',
+    activeDocumentType: 'auto',
+    documentTypes: [],
+};
+
+describe('FallbackProvider', () => {
+    it('should use the next provider when one is unavailable', async () => {
+        const local = createInner('Ollama', async () => {
+            throw new LLMConnectionError('Ollama connection failed: ECONNREFUSED', 'Ollama');
+        });
+        const remote = createInner('OpenAI', async () => 'remote answer');
+
+        const result = await new FallbackProvider([local, remote]).complete('prompt');
+
+        expect(result).toBe('remote answer');
+        expect(local.complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip a provider that just failed', async () => {
+        const local = createInner('Ollama', async () => {
+            throw new LLMHttpError('Service unavailable', 'Ollama', 503);
+        });
+        const remote = createInner('OpenAI', async () => 'remote answer');
+        const chain = new FallbackProvider([local, remote]);
+
+        await chain.complete('first');
+        await chain.complete('second');
+
+        expect(local.complete).toHaveBeenCalledTimes(1);
+        expect(remote.complete).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not fall back on request errors', async () => {
+        const local = createInner('Ollama', async () => {
+            throw new LLMHttpError('Bad request', 'Ollama', 400);
+        });
+        const remote = createInner('OpenAI', async () => 'remote answer');
+
+        await expect(new FallbackProvider([local, remote]).complete('prompt')).rejects.toBeInstanceOf(LLMHttpError);
+        expect(remote.complete).not.toHaveBeenCalled();
+    });
+
+    it('should fall back in streams only before the first chunk', async () => {
+        const local = createInner('Ollama', async () => '');
+        local.completeStream = async function* () {
+            yield 'partial';
+            throw new LLMConnectionError('Ollama connection failed: reset', 'Ollama');
+        };
+        const remote = createInner('OpenAI', async () => '');
+        remote.completeStream = jest.fn();
+
+        const chunks: string[] = [];
+        await expect((async () => {
+            for await (const chunk of new FallbackProvider([local, remote]).completeStream('prompt')) {
+                chunks.push(chunk);
+            }
+        })()).rejects.toBeInstanceOf(LLMConnectionError);
+
+        expect(chunks).toEqual(['partial']);
+        expect(remote.completeStream).not.toHaveBeenCalled();
+    });
+
+    it('should stop offering fill-in-the-middle while its only provider is down', async () => {
+        const local = Object.assign(createInner('Ollama', async () => ''), {
+            supportsFim: true,
+            completeFim: jest.fn(async () => {
+                throw new LLMConnectionError('Ollama connection failed: ECONNREFUSED', 'Ollama');
+            }),
+        });
+        const chain = new FallbackProvider([local, createInner('OpenAI', async () => 'remote answer')]);
+        expect(chain.supportsFim).toBe(true);
+
+        await expect(chain.completeFim({ prefix: 'Plan', suffix: '' })).rejects.toBeInstanceOf(LLMConnectionError);
+
+        expect(chain.supportsFim).toBe(false);
+        expect(await chain.complete('prompt')).toBe('remote answer');
+    });
+});
+
+describe('createRouterFromSettings', () => {
+    it('should take unset endpoint fields from the provider settings', () => {
+        const config = providerConfigFromEndpoint({ provider: 'openai', model: 'gpt-4.1' }, settings);
+
+        expect(config).toMatchObject({
+            type: 'openai',
+            baseUrl: 'https://api.openai.com/v1',
+            apiKey: 'sk-test',
+            model: 'gpt-4.1',
+        });
+    });
+
+    it('should use the primary chain for tasks without a route', () => {
+        const router = createRouterFromSettings({
+            ...settings,
+            taskRouting: { detection: [{ provider: 'ollama', model: 'qwen3:0.6b' }] },
+        });
+
+        expect(router.forTask('detection')).not.toBe(router.primary);
+        expect(router.forTask('detection')).toBeInstanceOf(FallbackProvider);
+        expect(router.forTask('structure')).toBe(router.primary);
+        expect(router.forTask('content')).toBe(router.primary);
+    });
+});
@@ -0,0 +1,36 @@
+/**
+ * Tests for fill-in-the-middle prompt formats
+ */
+
+import { findFimTemplate, fimStopSequences, renderFimPrompt, DEFAULT_FIM_TEMPLATES } from '../../llm/fim';
+
+describe('findFimTemplate', () => {
+    it('should match model families by part of the name', () => {
+        expect(findFimTemplate('qwen2.5-coder:1.5b-base')).toBe(DEFAULT_FIM_TEMPLATES['qwen']);
+        expect(findFimTemplate('TheBloke/CodeLlama-7B-GGUF')).toBe(DEFAULT_FIM_TEMPLATES['codellama']);
+        expect(findFimTemplate('llama3.2')).toBeUndefined();
+    });
+
+    it('should prefer the longest matching family', () => {
+        const templates = {
+            'qwen': { template: 'short' },
+            'qwen2.5-coder': { template: 'long' },
+        };
+
+        expect(findFimTemplate('qwen2.5-coder:7b', templates)?.template).toBe('long');
+        expect(findFimTemplate('qwen3:4b', templates)?.template).toBe('short');
+    });
+});
+
+describe('renderFimPrompt', () => {
+    it('should place prefix and suffix in the template, keeping $ sequences literal', () => {
+        const prompt = renderFimPrompt(DEFAULT_FIM_TEMPLATES['codestral'], { prefix: 'Costs $& more', suffix: 'end' });
+
+        expect(prompt).toBe('[SUFFIX]end[PREFIX]Costs $& more');
+    });
+
+    it('should combine template and request stop sequences', () => {
+        expect(fimStopSequences({ template: '', stop: ['<EOT>'] }, ['\n\n'])).toEqual(['<EOT>', '\n\n']);
+        expect(fimStopSequences({ template: '' })).toBeUndefined();
+    });
+});
@@ -0,0 +1,58 @@
+/**
+ * Unit tests for the JSON file backing the cache and the ledger
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileStore } from '../../llm/json-file-store';
+
+describe('JsonFileStore', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'tc-store-'));
+    });
+
+    afterEach(async () => {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should batch scheduled saves into one atomic write', async () => {
+        const file = path.join(dir, 'nested', 'store.json');
+        const snapshot = jest.fn(() => ({ count: 2 }));
+        const store = new JsonFileStore(file, 'Test', snapshot);
+
+        store.scheduleSave();
+        store.scheduleSave();
+        await store.flush();
+
+        expect(snapshot).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(await fs.promises.readFile(file, 'utf8'))).toEqual({ count: 2 });
+        expect(fs.existsSync(`${file}.tmp`)).toBe(false);
+    });
+
+    it('should write pending changes on flush and nothing when none are pending', async () => {
+        const file = path.join(dir, 'store.json');
+        const snapshot = jest.fn(() => ({ count: 1 }));
+        const store = new JsonFileStore(file, 'Test', snapshot);
+
+        await store.flush();
+        expect(snapshot).not.toHaveBeenCalled();
+
+        store.scheduleSave();
+        await store.flush();
+
+        expect(await new JsonFileStore(file, 'Test', snapshot).read()).toEqual({ count: 1 });
+    });
+
+    it('should read a missing or malformed file as nothing', async () => {
+        const file = path.join(dir, 'store.json');
+        const store = new JsonFileStore(file, 'Test', () => ({}));
+
+        expect(await store.read()).toBeUndefined();
+
+        await fs.promises.writeFile(file, '{ not json', 'utf8');
+        expect(await store.read()).toBeUndefined();
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for the Ollama provider's native API mode against a local stub HTTP server
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OllamaProvider } from '../../llm/ollama-provider';
+import { OllamaProviderConfig } from '../../llm/types';
+
+interface RecordedRequest {
+    url: string;
+    body: Record<string, unknown>;
+}
+
+describe('OllamaProvider (native mode)', () => {
+    let server: http.Server;
+    let rootUrl: string;
+    let requests: RecordedRequest[];
+    let respond: (req: RecordedRequest, res: http.ServerResponse) => void;
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', chunk => { raw += chunk; });
+            req.on('end', () => {
+                const recorded = { url: req.url ?? '', body: raw ? JSON.parse(raw) : {} };
+                requests.push(recorded);
+                respond(recorded, res);
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        rootUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        requests = [];
+    });
+
+    const createProvider = (overrides: Partial<OllamaProviderConfig> = {}) => new OllamaProvider({
+        type: 'ollama',
+        baseUrl: `${rootUrl}/v1`,
+        model: 'qwen3',
+        apiMode: 'native',
+        numCtx: 8192,
+        keepAlive: '30m',
+        think: false,
+        ...overrides,
+    });
+
+    it('should call /api/chat with num_ctx, keep_alive and think', async () => {
+        respond = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ message: { role: 'assistant', content: ' - Point ' }, done: true }));
+        };
+
+        const result = await createProvider().complete('Continue', { maxTokens: 300 });
+
+        expect(result).toBe('- Point');
+        expect(requests[0].url).toBe('/api/chat');
+        expect(requests[0].body).toMatchObject({
+            model: 'qwen3',
+            stream: false,
+            think: false,
+            keep_alive: '30m',
+            options: { num_ctx: 8192, num_predict: 300 },
+        });
+    });
+
+    it('should stream newline-delimited chunks', async () => {
+        respond = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+            res.write(JSON.stringify({ message: { content: 'Hello' }, done: false }) + '\n');
+            res.end(JSON.stringify({ message: { content: ' world' }, done: true }) + '\n');
+        };
+
+        const deltas: string[] = [];
+        for await (const delta of createProvider().completeStream('Continue')) {
+            deltas.push(delta);
+        }
+
+        expect(deltas).toEqual(['Hello', ' world']);
+    });
+
+    it('should report a model that is not pulled yet', async () => {
+        respond = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ models: [{ name: 'llama3.2:latest' }] }));
+        };
+
+        const health = await createProvider().checkHealth();
+        const pulled = await createProvider({ model: 'llama3.2' }).checkHealth();
+
+        expect(requests[0].url).toBe('/api/tags');
+        expect(health).toEqual({ available: false, message: expect.stringContaining('ollama pull qwen3') });
+        expect(pulled).toEqual({ available: true });
+    });
+
+    it('should send fill-in-the-middle requests raw to /api/generate', async () => {
+        respond = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ response: 'middle', done: true, prompt_eval_count: 12, eval_count: 3 }));
+        };
+        const onUsage = jest.fn();
+        const provider = createProvider({ model: 'qwen2.5-coder', fim: { template: '<P>{prefix}<S>{suffix}<M>', stop: ['<E>'] } });
+
+        const result = await provider.completeFim({ prefix: 'before ', suffix: ' after' }, { maxTokens: 64, onUsage });
+
+        expect(provider.supportsFim).toBe(true);
+        expect(createProvider().supportsFim).toBe(false);
+        expect(result).toBe('middle');
+        expect(requests[0].url).toBe('/api/generate');
+        expect(requests[0].body).toMatchObject({
+            prompt: '<P>before <S> after<M>',
+            raw: true,
+            stream: false,
+            options: { num_predict: 64, stop: ['<E>'] },
+        });
+        expect(onUsage).toHaveBeenCalledWith({ inputTokens: 12, outputTokens: 3 });
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for reasoning-model output handling
+ */
+
+import { splitReasoning, completeWithReasoning, streamWithReasoning, RawDelta } from '../../llm/reasoning';
+import { CompletionOptions } from '../../llm/types';
+
+async function collect(stream: AsyncIterable<string>): Promise<string> {
+    let text = '';
+    for await (const delta of stream) {
+        text += delta;
+    }
+    return text;
+}
+
+describe('splitReasoning', () => {
+    it('should strip think blocks from the answer', () => {
+        const result = splitReasoning('<think>Let me plan</think>\n## Risks');
+        expect(result).toEqual({ content: '\n## Risks', reasoning: 'Let me plan' });
+    });
+
+    it('should treat an unterminated think block as reasoning', () => {
+        const result = splitReasoning('<think>Still thinking when tokens ran out');
+        expect(result).toEqual({ content: '', reasoning: 'Still thinking when tokens ran out' });
+    });
+
+    it('should treat text before a lone closing tag as reasoning', () => {
+        const result = splitReasoning('Opening tag was in the template</think>Answer');
+        expect(result).toEqual({ content: 'Answer', reasoning: 'Opening tag was in the template' });
+    });
+
+    it('should leave plain answers untouched', () => {
+        expect(splitReasoning('- Point')).toEqual({ content: '- Point', reasoning: undefined });
+    });
+});
+
+describe('completeWithReasoning', () => {
+    it('should report reasoning and return the trimmed answer', async () => {
+        const onReasoning = jest.fn();
+        const result = await completeWithReasoning(
+            async () => ({ content: ' Answer ', reasoning: 'Because' }),
+            { onReasoning }
+        );
+
+        expect(result).toBe('Answer');
+        expect(onReasoning).toHaveBeenCalledWith('Because');
+    });
+
+    it('should retry once with a bigger budget when only reasoning came back', async () => {
+        const request = jest.fn(async (options?: CompletionOptions) => options?.disableThinking
+            ? { content: 'Answer' }
+            : { content: '<think>Long deliberation' });
+
+        const result = await completeWithReasoning(request, { maxTokens: 1000 });
+
+        expect(result).toBe('Answer');
+        expect(request).toHaveBeenCalledTimes(2);
+        expect(request.mock.calls[1][0]).toMatchObject({ maxTokens: 2000, disableThinking: true });
+    });
+
+    it('should keep the retry within the remaining token budget', async () => {
+        const request = jest.fn(async (options?: CompletionOptions) => options?.disableThinking
+            ? { content: 'Answer' }
+            : { content: '<think>Long deliberation' });
+
+        expect(await completeWithReasoning(request, { maxTokens: 1000, maxRetryTokens: 1500 })).toBe('Answer');
+        expect(request.mock.calls[1][0]).toMatchObject({ maxTokens: 1500, disableThinking: true });
+
+        request.mockClear();
+        expect(await completeWithReasoning(request, { maxTokens: 1000, maxRetryTokens: 0 })).toBe('');
+        expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry empty answers without reasoning', async () => {
+        const request = jest.fn(async () => ({ content: '' }));
+        expect(await completeWithReasoning(request)).toBe('');
+        expect(request).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('streamWithReasoning', () => {
+    async function* deltas(...items: RawDelta[]): AsyncGenerator<RawDelta> {
+        yield* items;
+    }
+
+    it('should strip think blocks split across deltas', async () => {
+        const onReasoning = jest.fn();
+        const text = await collect(streamWithReasoning(
+            () => deltas({ content: '<thi' }, { content: 'nk>plan</th' }, { content: 'ink>## Next' }),
+            { onReasoning }
+        ));
+
+        expect(text).toBe('## Next');
+        expect(onReasoning).toHaveBeenCalledWith('plan');
+    });
+
+    it('should keep text that only looks like the start of a tag', async () => {
+        const text = await collect(streamWithReasoning(() => deltas({ content: 'a <' }, { content: 'b' })));
+        expect(text).toBe('a <b');
+    });
+
+    it('should retry once when the stream produced only reasoning', async () => {
+        const request = jest.fn((options?: CompletionOptions) => options?.disableThinking
+            ? deltas({ content: 'Answer' })
+            : deltas({ reasoning: 'Thinking...' }));
+
+        const text = await collect(streamWithReasoning(request, { maxTokens: 500 }));
+
+        expect(text).toBe('Answer');
+        expect(request).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for the record/replay provider
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ReplayProvider, promptHash } from '../../llm/replay-provider';
+import { LLMReplayMissError } from '../../llm/errors';
+import { promptMessages } from '../../llm/wrapped-provider';
+import { CompletionOptions, LLMProvider, ReplayProviderConfig } from '../../llm/types';
+
+function createInner(answer: string): LLMProvider & { chat: jest.Mock } {
+    return {
+        name: 'Test',
+        complete: jest.fn(),
+        chat: jest.fn(async (_messages, options?: CompletionOptions) => {
+            options?.onUsage?.({ inputTokens: 30, outputTokens: 5 });
+            return answer;
+        }),
+        completeStream: jest.fn(),
+        chatStream: jest.fn(async function* () {
+            yield '## Options\n';
+            yield '- Volume discount';
+        }),
+        isAvailable: jest.fn(async () => true),
+    };
+}
+
+describe('ReplayProvider', () => {
+    let dir: string;
+    let fixturesPath: string;
+
+    beforeEach(async () => {
+        dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'tc-replay-'));
+        fixturesPath = path.join(dir, 'fixtures.json');
+    });
+
+    afterEach(async () => {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    });
+
+    const config = (overrides: Partial<ReplayProviderConfig> = {}): ReplayProviderConfig => ({
+        type: 'replay',
+        fixturesPath,
+        mode: 'replay',
+        strict: true,
+        ...overrides,
+    });
+
+    it('should record answers and replay them without the inner provider', async () => {
+        const inner = createInner('negotiation');
+        const recorder = new ReplayProvider(config({ mode: 'record' }), inner);
+        expect(await recorder.complete('Classify this', { systemPrompt: 'You classify' })).toBe('negotiation');
+        // Recorded prompts are answered from the fixtures from then on
+        expect(await recorder.complete('Classify this', { systemPrompt: 'You classify' })).toBe('negotiation');
+        expect(inner.chat).toHaveBeenCalledTimes(1);
+
+        const onUsage = jest.fn();
+        const replayer = new ReplayProvider(config());
+        expect(await replayer.complete('Classify this', { systemPrompt: 'You classify', onUsage })).toBe('negotiation');
+        expect(onUsage).toHaveBeenCalledWith({ inputTokens: 30, outputTokens: 5 });
+    });
+
+    it('should match prompts that differ only in line endings and trailing whitespace', () => {
+        expect(promptHash([{ role: 'user', content: '# Notes  \r\n- One\r\n\n' }]))
+            .toBe(promptHash([{ role: 'user', content: '# Notes\n- One' }]));
+        expect(promptHash([{ role: 'user', content: '# Notes' }]))
+            .not.toBe(promptHash([{ role: 'system', content: '# Notes' }]));
+    });
+
+    it('should key prompt calls by the same messages the response cache uses', async () => {
+        const recorder = new ReplayProvider(config({ mode: 'record' }), createInner('negotiation'));
+        await recorder.complete('Classify this', { systemPrompt: 'You classify' });
+
+        const replayer = new ReplayProvider(config());
+        expect(await replayer.chat(promptMessages('Classify this', { systemPrompt: 'You classify' }))).toBe('negotiation');
+    });
+
+    it('should fail on unrecorded prompts in strict mode', async () => {
+        const replayer = new ReplayProvider(config());
+
+        await expect(replayer.complete('Never recorded')).rejects.toBeInstanceOf(LLMReplayMissError);
+    });
+
+    it('should pass unrecorded prompts to the inner provider when not strict', async () => {
+        const inner = createInner('live answer');
+        const replayer = new ReplayProvider(config({ strict: false }), inner);
+
+        expect(await replayer.complete('Never recorded')).toBe('live answer');
+        expect(fs.existsSync(fixturesPath)).toBe(false);
+    });
+
+    it('should record streams once they complete and replay them as deltas', async () => {
+        const recorder = new ReplayProvider(config({ mode: 'record' }), createInner(''));
+        let recorded = '';
+        for await (const delta of recorder.completeStream('Continue')) {
+            recorded += delta;
+        }
+
+        const deltas: string[] = [];
+        for await (const delta of new ReplayProvider(config()).completeStream('Continue')) {
+            deltas.push(delta);
+        }
+
+        expect(recorded).toBe('## Options\n- Volume discount');
+        expect(deltas).toEqual(['## Options\n', '- Volume discount']);
+    });
+
+    it('should report a malformed fixture file and read it again once fixed', async () => {
+        await fs.promises.writeFile(fixturesPath, '{ "version": 1, "recordings": [', 'utf8');
+        const replayer = new ReplayProvider(config());
+
+        await expect(replayer.complete('Classify this')).rejects.toThrow(/Fixture file .* is not valid JSON/);
+
+        await new ReplayProvider(config({ mode: 'record' }), createInner('negotiation')).complete('Classify this');
+        expect(await replayer.complete('Classify this')).toBe('negotiation');
+    });
+
+    it('should record over a malformed fixture file', async () => {
+        await fs.promises.writeFile(fixturesPath, 'not json', 'utf8');
+        const recorder = new ReplayProvider(config({ mode: 'record' }), createInner('negotiation'));
+
+        expect(await recorder.complete('Classify this')).toBe('negotiation');
+        expect(await new ReplayProvider(config()).complete('Classify this')).toBe('negotiation');
+    });
+
+    it('should keep recordings made by other providers sharing the file', async () => {
+        const first = new ReplayProvider(config({ mode: 'record' }), createInner('one'));
+        const second = new ReplayProvider(config({ mode: 'record' }), createInner('two'));
+
+        await first.complete('First prompt');
+        await second.complete('Second prompt');
+
+        const replayer = new ReplayProvider(config());
+        expect(await replayer.complete('First prompt')).toBe('one');
+        expect(await replayer.complete('Second prompt')).toBe('two');
+    });
+});
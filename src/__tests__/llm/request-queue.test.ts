@@ -0,0 +1,108 @@
+/**
+ * Tests for the shared request queue
+ */
+
+import { RequestQueue, QueuedProvider, withPriority } from '../../llm/request-queue';
+import { LLMProvider } from '../../llm/types';
+
+/**
+ * Promise resolved from the outside
+ */
+function deferred<T>() {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(r => { resolve = r; });
+    return { promise, resolve };
+}
+
+/**
+ * Let queued promise callbacks run
+ */
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('RequestQueue', () => {
+    it('should run at most the configured number of requests at once', async () => {
+        const queue = new RequestQueue(2);
+        const gates = [deferred<void>(), deferred<void>(), deferred<void>()];
+        const started: number[] = [];
+
+        const runs = gates.map((gate, i) => queue.run(async () => {
+            started.push(i);
+            await gate.promise;
+        }));
+        await flush();
+
+        expect(started).toEqual([0, 1]);
+        expect(queue.state).toEqual({ running: 2, waiting: 1 });
+
+        gates[0].resolve();
+        await flush();
+        expect(started).toEqual([0, 1, 2]);
+
+        gates[1].resolve();
+        gates[2].resolve();
+        await Promise.all(runs);
+        expect(queue.state).toEqual({ running: 0, waiting: 0 });
+    });
+
+    it('should start interactive requests before waiting background ones', async () => {
+        const queue = new RequestQueue(1);
+        const gate = deferred<void>();
+        const order: string[] = [];
+
+        const runs = [
+            queue.run(() => gate.promise),
+            queue.run(async () => { order.push('background 1'); }, { priority: 'background' }),
+            queue.run(async () => { order.push('background 2'); }),
+            queue.run(async () => { order.push('interactive'); }, { priority: 'interactive' }),
+        ];
+        gate.resolve();
+        await Promise.all(runs);
+
+        expect(order).toEqual(['interactive', 'background 1', 'background 2']);
+    });
+
+    it('should drop waiting requests that are cancelled or superseded', async () => {
+        const queue = new RequestQueue(1);
+        const gate = deferred<void>();
+        const controller = new AbortController();
+        const request = jest.fn(async () => 'done');
+
+        const running = queue.run(() => gate.promise);
+        const cancelled = queue.run(request, { signal: controller.signal });
+        const superseded = queue.run(request, { supersedeKey: 'inline:file:///notes.md' });
+        const latest = queue.run(request, { supersedeKey: 'inline:file:///notes.md' });
+
+        controller.abort();
+        await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+        await expect(superseded).rejects.toMatchObject({ name: 'AbortError', message: 'Superseded by a newer request' });
+
+        gate.resolve();
+        await running;
+        await expect(latest).resolves.toBe('done');
+        expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should hold the slot until a queued stream ends', async () => {
+        const queue = new RequestQueue(1);
+        const changes: number[] = [];
+        queue.onDidChange(state => changes.push(state.running));
+        const inner = {
+            name: 'Test',
+            async *completeStream() {
+                yield 'a';
+                yield 'b';
+            },
+        } as unknown as LLMProvider;
+        const provider = withPriority(new QueuedProvider(inner, queue), 'interactive');
+
+        const deltas: string[] = [];
+        for await (const delta of provider.completeStream('prompt')) {
+            deltas.push(delta);
+            expect(queue.state.running).toBe(1);
+        }
+
+        expect(deltas).toEqual(['a', 'b']);
+        expect(queue.state.running).toBe(0);
+        expect(changes).toEqual([1, 0]);
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for the retry and timeout layer
+ */
+
+import { ResilientProvider, DEFAULT_RESILIENCE_POLICY } from '../../llm/resilient-provider';
+import { LLMAuthError, LLMHttpError, LLMRateLimitError, LLMTimeoutError } from '../../llm/errors';
+import { LLMProvider, CompletionOptions } from '../../llm/types';
+import { RawDelta, streamWithReasoning } from '../../llm/reasoning';
+
+function createInner(complete: (prompt: string, options?: CompletionOptions) => Promise<string>): LLMProvider {
+    return {
+        name: 'Test',
+        complete: jest.fn(complete),
+        chat: jest.fn(),
+        completeStream: jest.fn(),
+        chatStream: jest.fn(),
+        isAvailable: jest.fn(async () => true),
+    };
+}
+
+const policy = { ...DEFAULT_RESILIENCE_POLICY, baseDelayMs: 1, maxDelayMs: 50, responseTimeoutMs: 1000 };
+
+describe('ResilientProvider', () => {
+    it('should retry retryable statuses and return the eventual answer', async () => {
+        let calls = 0;
+        const inner = createInner(async () => {
+            calls++;
+            if (calls < 3) {
+                throw new LLMHttpError('Service unavailable', 'Test', 503);
+            }
+            return 'ok';
+        });
+
+        const result = await new ResilientProvider(inner, policy).complete('prompt');
+
+        expect(result).toBe('ok');
+        expect(inner.complete).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry auth failures', async () => {
+        const inner = createInner(async () => {
+            throw new LLMAuthError('Unauthorized', 'Test', 401);
+        });
+
+        await expect(new ResilientProvider(inner, policy).complete('prompt')).rejects.toBeInstanceOf(LLMAuthError);
+        expect(inner.complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after maxRetries', async () => {
+        const inner = createInner(async () => {
+            throw new LLMHttpError('Bad gateway', 'Test', 502);
+        });
+
+        await expect(new ResilientProvider(inner, { ...policy, maxRetries: 1 }).complete('prompt'))
+            .rejects.toBeInstanceOf(LLMHttpError);
+        expect(inner.complete).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not wait longer than allowed by Retry-After', async () => {
+        const inner = createInner(async () => {
+            throw new LLMRateLimitError('Too many requests', 'Test', 60000);
+        });
+
+        await expect(new ResilientProvider(inner, policy).complete('prompt')).rejects.toBeInstanceOf(LLMRateLimitError);
+        expect(inner.complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort slow responses with a timeout error', async () => {
+        const inner = createInner((_prompt, options) => new Promise((_resolve, reject) => {
+            options?.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+        }));
+
+        const provider = new ResilientProvider(inner, { ...policy, responseTimeoutMs: 20, maxRetries: 0 });
+
+        await expect(provider.complete('prompt')).rejects.toBeInstanceOf(LLMTimeoutError);
+    });
+
+    it('should keep a stream alive while the model is still reasoning', async () => {
+        const inner = createInner(async () => '');
+        inner.completeStream = (_prompt, options) => streamWithReasoning(async function* (opts?: CompletionOptions): AsyncGenerator<RawDelta> {
+            // Thinking for 150 ms in all, longer than the 50 ms timeout
+            for (let i = 0; i < 10; i++) {
+                await new Promise(resolve => setTimeout(resolve, 15));
+                if (opts?.signal?.aborted) {
+                    throw new DOMException('aborted', 'AbortError');
+                }
+                yield { reasoning: 'Weighing the options. ' };
+            }
+            yield { content: 'Answer' };
+        }, options);
+
+        const provider = new ResilientProvider(inner, { ...policy, responseTimeoutMs: 50, maxRetries: 0 });
+        const chunks: string[] = [];
+        for await (const chunk of provider.completeStream('prompt')) {
+            chunks.push(chunk);
+        }
+
+        expect(chunks).toEqual(['Answer']);
+    });
+
+    it('should stop retrying when the caller aborts', async () => {
+        const controller = new AbortController();
+        const inner = createInner(async () => {
+            controller.abort();
+            throw new LLMHttpError('Service unavailable', 'Test', 503);
+        });
+
+        await expect(new ResilientProvider(inner, policy).complete('prompt', { signal: controller.signal }))
+            .rejects.toBeInstanceOf(LLMHttpError);
+        expect(inner.complete).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for the response cache and the caching provider
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ResponseCache } from '../../llm/response-cache';
+import { CachingProvider } from '../../llm/caching-provider';
+import { LLMProvider } from '../../llm/types';
+
+function createInner(): LLMProvider & { complete: jest.Mock } {
+    let calls = 0;
+    return {
+        name: 'Test',
+        complete: jest.fn(async () => `answer ${++calls}`),
+        chat: jest.fn(),
+        completeStream: jest.fn(async function* () {
+            yield 'streamed ';
+            yield `answer ${++calls}`;
+        }),
+        chatStream: jest.fn(),
+        isAvailable: jest.fn(async () => true),
+    };
+}
+
+const options = { ttlMs: 60000, maxEntries: 3 };
+
+describe('ResponseCache', () => {
+    it('should evict the least recently used entry over the limit', () => {
+        const cache = new ResponseCache(options);
+        cache.set('a', '1');
+        cache.set('b', '2');
+        cache.set('c', '3');
+        cache.get('a');
+        cache.set('d', '4');
+
+        expect(cache.get('b')).toBeUndefined();
+        expect(cache.get('a')).toBe('1');
+        expect(cache.size).toBe(3);
+    });
+
+    it('should expire entries after the TTL', () => {
+        jest.useFakeTimers();
+        try {
+            const cache = new ResponseCache(options);
+            cache.set('a', '1');
+            jest.advanceTimersByTime(60001);
+
+            expect(cache.get('a')).toBeUndefined();
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    it('should persist entries to its file', async () => {
+        const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'tc-cache-'));
+        const file = path.join(dir, 'nested', 'cache.json');
+        try {
+            const cache = await ResponseCache.open(options, file);
+            cache.set('a', '1');
+            await cache.flush();
+
+            const reopened = await ResponseCache.open(options, file);
+            expect(reopened.get('a')).toBe('1');
+
+            await reopened.clear();
+            expect((await ResponseCache.open(options, file)).size).toBe(0);
+        } finally {
+            await fs.promises.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('CachingProvider', () => {
+    it('should answer repeated requests from the cache', async () => {
+        const inner = createInner();
+        const provider = new CachingProvider(inner, new ResponseCache(options), 'test|model');
+
+        expect(await provider.complete('prompt', { temperature: 0.1 })).toBe('answer 1');
+        expect(await provider.complete('prompt', { temperature: 0.1 })).toBe('answer 1');
+        expect(inner.complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should key on sampling options and model', async () => {
+        const inner = createInner();
+        const cache = new ResponseCache(options);
+
+        await new CachingProvider(inner, cache, 'test|model').complete('prompt', { temperature: 0.1 });
+        await new CachingProvider(inner, cache, 'test|model').complete('prompt', { temperature: 0.7 });
+        await new CachingProvider(inner, cache, 'test|other').complete('prompt', { temperature: 0.1 });
+
+        expect(inner.complete).toHaveBeenCalledTimes(3);
+    });
+
+    it('should bypass the cache or store a fresh variant on request', async () => {
+        const inner = createInner();
+        const provider = new CachingProvider(inner, new ResponseCache(options), 'test|model');
+
+        await provider.complete('prompt');
+        expect(await provider.complete('prompt', { cache: 'skip' })).toBe('answer 2');
+        expect(await provider.complete('prompt')).toBe('answer 1');
+        expect(await provider.complete('prompt', { cache: 'refresh' })).toBe('answer 3');
+        expect(await provider.complete('prompt')).toBe('answer 3');
+    });
+
+    it('should replay a completed stream from the cache', async () => {
+        const inner = createInner();
+        const provider = new CachingProvider(inner, new ResponseCache(options), 'test|model');
+
+        const read = async () => {
+            let text = '';
+            for await (const chunk of provider.completeStream('prompt')) {
+                text += chunk;
+            }
+            return text;
+        };
+
+        expect(await read()).toBe('streamed answer 1');
+        expect(await read()).toBe('streamed answer 1');
+        expect(inner.completeStream).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,42 @@
+/**
+ * Unit tests for SSE stream parsing
+ */
+
+import { readServerSentEvents } from '../../llm/sse';
+
+async function* chunks(...parts: string[]): AsyncGenerator<Uint8Array> {
+    const encoder = new TextEncoder();
+    for (const part of parts) {
+        yield encoder.encode(part);
+    }
+}
+
+async function collect(body: AsyncIterable<Uint8Array>): Promise<string[]> {
+    const events: string[] = [];
+    for await (const data of readServerSentEvents(body)) {
+        events.push(data);
+    }
+    return events;
+}
+
+describe('readServerSentEvents', () => {
+    it('should yield data payloads of each event', async () => {
+        const events = await collect(chunks('data: {"a":1}\n\ndata: {"a":2}\n\n'));
+        expect(events).toEqual(['{"a":1}', '{"a":2}']);
+    });
+
+    it('should reassemble events split across chunks', async () => {
+        const events = await collect(chunks('da', 'ta: {"a"', ':1}\r\n', '\r\n'));
+        expect(events).toEqual(['{"a":1}']);
+    });
+
+    it('should stop at the [DONE] sentinel', async () => {
+        const events = await collect(chunks('data: first\n\ndata: [DONE]\n\ndata: late\n\n'));
+        expect(events).toEqual(['first']);
+    });
+
+    it('should ignore comments and flush a trailing event', async () => {
+        const events = await collect(chunks(': keep-alive\n\nevent: message\ndata: last'));
+        expect(events).toEqual(['last']);
+    });
+});
@@ -0,0 +1,224 @@
+/**
+ * Unit tests for the usage ledger, pricing and the metered provider
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UsageLedger, UsageEntry, groupUsage, startOfDay } from '../../llm/usage-ledger';
+import { MeteredProvider } from '../../llm/metered-provider';
+import { priceFor, estimateCost } from '../../llm/pricing';
+import { CompletionOptions, LLMProvider } from '../../llm/types';
+
+function entry(overrides: Partial<UsageEntry> = {}): UsageEntry {
+    return {
+        timestamp: Date.now(),
+        task: 'content',
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+        inputTokens: 1000,
+        outputTokens: 100,
+        estimated: false,
+        latencyMs: 500,
+        cost: 0.5,
+        ...overrides,
+    };
+}
+
+describe('priceFor', () => {
+    it('should match dated model names by family prefix', () => {
+        expect(priceFor('openai', 'gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+        expect(priceFor('openai', 'gpt-4o-2024-08-06')).toEqual({ input: 2.5, output: 10 });
+        expect(priceFor('anthropic', 'claude-3-5-haiku-latest')).toEqual({ input: 0.8, output: 4 });
+    });
+
+    it('should prefer configured prices and treat local models as free', () => {
+        expect(priceFor('openai', 'gpt-4o', { 'gpt-4o': { input: 1, output: 2 } })).toEqual({ input: 1, output: 2 });
+        expect(priceFor('ollama', 'llama3.2')).toEqual({ input: 0, output: 0 });
+        expect(priceFor('openai', 'my-finetune')).toBeUndefined();
+    });
+
+    it('should price per million tokens', () => {
+        expect(estimateCost({ input: 2, output: 10 }, 500_000, 100_000)).toBeCloseTo(2);
+    });
+});
+
+describe('UsageLedger', () => {
+    it('should report the cap that has been reached', () => {
+        const ledger = new UsageLedger();
+        const now = Date.now();
+        ledger.record(entry({ cost: 0.6 }));
+
+        expect(ledger.capReached({ dailyCap: 1, monthlyCap: 0 }, now)).toBeUndefined();
+        ledger.record(entry({ cost: 0.6 }));
+        expect(ledger.capReached({ dailyCap: 1, monthlyCap: 0 }, now)).toBe('daily');
+        expect(ledger.capReached({ dailyCap: 0, monthlyCap: 1 }, now)).toBe('monthly');
+        expect(ledger.capReached({ dailyCap: 0, monthlyCap: 0 }, now)).toBeUndefined();
+    });
+
+    it('should report the spending left before the nearest cap', () => {
+        const ledger = new UsageLedger();
+        const now = Date.now();
+        ledger.record(entry({ cost: 0.6 }));
+
+        expect(ledger.remaining({ dailyCap: 1, monthlyCap: 5 }, now)).toBeCloseTo(0.4);
+        expect(ledger.remaining({ dailyCap: 0.5, monthlyCap: 0 }, now)).toBe(0);
+        expect(ledger.remaining({ dailyCap: 0, monthlyCap: 0 }, now)).toBeUndefined();
+    });
+
+    it('should only count today for the daily cap', () => {
+        const ledger = new UsageLedger();
+        const now = Date.now();
+        ledger.record(entry({ timestamp: startOfDay(now) - 1, cost: 5 }));
+
+        expect(ledger.since(startOfDay(now))).toHaveLength(0);
+        expect(ledger.capReached({ dailyCap: 1, monthlyCap: 0 }, now)).toBeUndefined();
+    });
+
+    it('should notify listeners of recorded calls', () => {
+        const ledger = new UsageLedger();
+        const listener = jest.fn();
+        const subscription = ledger.onDidRecord(listener);
+
+        ledger.record(entry());
+        subscription.dispose();
+        ledger.record(entry());
+
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should group totals and flag unpriced and estimated entries', () => {
+        const groups = groupUsage([
+            entry({ model: 'a' }),
+            entry({ model: 'b', cost: undefined, estimated: true }),
+            entry({ model: 'a' }),
+        ], e => e.model);
+
+        expect(groups.get('a')).toMatchObject({ requests: 2, inputTokens: 2000, cost: 1, unpriced: false });
+        expect(groups.get('b')).toMatchObject({ requests: 1, unpriced: true, estimated: true });
+    });
+
+    it('should persist entries to its file', async () => {
+        const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'tc-ledger-'));
+        const file = path.join(dir, 'usage.json');
+        try {
+            const ledger = await UsageLedger.open(file);
+            ledger.record(entry());
+            await ledger.flush();
+
+            const reopened = await UsageLedger.open(file);
+            expect(reopened.size).toBe(1);
+        } finally {
+            await fs.promises.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('MeteredProvider', () => {
+    function createInner(usage?: { inputTokens: number; outputTokens: number }): LLMProvider {
+        return {
+            name: 'Test',
+            complete: jest.fn(async (_prompt: string, options?: CompletionOptions) => {
+                if (usage) {
+                    options?.onUsage?.(usage);
+                }
+                return 'x'.repeat(40);
+            }),
+            chat: jest.fn(),
+            completeStream: jest.fn(async function* (_prompt: string, options?: CompletionOptions) {
+                yield 'part one ';
+                yield 'part two';
+                if (usage) {
+                    options?.onUsage?.(usage);
+                }
+            }),
+            chatStream: jest.fn(),
+            isAvailable: jest.fn(async () => true),
+        };
+    }
+
+    it('should record reported usage with task, model and cost', async () => {
+        const ledger = new UsageLedger();
+        const onUsage = jest.fn();
+        const provider = new MeteredProvider(createInner({ inputTokens: 2000, outputTokens: 500 }), ledger, 'openai', 'gpt-4o');
+
+        await provider.complete('prompt', { task: 'structure', onUsage });
+
+        const [recorded] = ledger.since(0);
+        expect(recorded).toMatchObject({
+            task: 'structure',
+            provider: 'openai',
+            model: 'gpt-4o',
+            inputTokens: 2000,
+            outputTokens: 500,
+            estimated: false,
+        });
+        expect(recorded.cost).toBeCloseTo(0.01);
+        // The caller still receives the usage
+        expect(onUsage).toHaveBeenCalledWith({ inputTokens: 2000, outputTokens: 500 });
+    });
+
+    it('should limit the retry budget to what the spending caps still pay for', async () => {
+        const ledger = new UsageLedger();
+        ledger.record(entry({ cost: 0.6 }));
+        const inner = createInner();
+        const provider = new MeteredProvider(inner, ledger, 'openai', 'gpt-4o', {}, { dailyCap: 1, monthlyCap: 0 });
+
+        await provider.complete('prompt', { maxRetryTokens: 100_000 });
+
+        // $0.40 left at $10 per million output tokens
+        expect((inner.complete as jest.Mock).mock.calls[0][1].maxRetryTokens).toBe(40_000);
+    });
+
+    it('should record the reported usage of a request that failed', async () => {
+        const ledger = new UsageLedger();
+        const inner = createInner();
+        (inner.complete as jest.Mock).mockImplementation(async (_prompt: string, options?: CompletionOptions) => {
+            // The reasoning-only first attempt was billed before the retry failed
+            options?.onUsage?.({ inputTokens: 2000, outputTokens: 500 });
+            throw new Error('connection reset');
+        });
+
+        await expect(new MeteredProvider(inner, ledger, 'openai', 'gpt-4o').complete('prompt'))
+            .rejects.toThrow('connection reset');
+
+        expect(ledger.since(0)).toEqual([expect.objectContaining({ inputTokens: 2000, outputTokens: 500 })]);
+    });
+
+    it('should not record a failed request the server reported no usage for', async () => {
+        const ledger = new UsageLedger();
+        const inner = createInner();
+        (inner.complete as jest.Mock).mockRejectedValue(new Error('connection refused'));
+
+        await expect(new MeteredProvider(inner, ledger, 'openai', 'gpt-4o').complete('prompt')).rejects.toThrow();
+
+        expect(ledger.size).toBe(0);
+    });
+
+    it('should estimate usage when the server reports none', async () => {
+        const ledger = new UsageLedger();
+        const provider = new MeteredProvider(createInner(), ledger, 'openai', 'unknown-model');
+
+        await provider.complete('p'.repeat(40), { systemPrompt: 's'.repeat(40) });
+
+        expect(ledger.since(0)[0]).toMatchObject({
+            inputTokens: 28,
+            outputTokens: 10,
+            estimated: true,
+            cost: undefined,
+        });
+    });
+
+    it('should record streams when they end, including usage sent after the last delta', async () => {
+        const ledger = new UsageLedger();
+        const provider = new MeteredProvider(createInner({ inputTokens: 10, outputTokens: 4 }), ledger, 'ollama', 'llama3.2');
+
+        const deltas: string[] = [];
+        for await (const delta of provider.completeStream('prompt')) {
+            deltas.push(delta);
+        }
+
+        expect(deltas.join('')).toBe('part one part two');
+        expect(ledger.since(0)[0]).toMatchObject({ inputTokens: 10, outputTokens: 4, cost: 0 });
+    });
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the logger, redaction and per-request log lines
+ */
+
+import { Logger, LogSink, logger, registerSecret, redactSecrets, redactDocumentText } from '../../logging/logger';
+import { RequestLog } from '../../logging/request-log';
+
+function createSink(): LogSink & { lines: string[] } {
+    const lines: string[] = [];
+    const write = (level: string) => (message: string | Error, ...args: unknown[]) => {
+        lines.push(`${level} ${[message, ...args].map(String).join(' ')}`);
+    };
+    return {
+        lines,
+        trace: write('trace'),
+        debug: write('debug'),
+        info: write('info'),
+        warn: write('warn'),
+        error: write('error'),
+    };
+}
+
+describe('Logger', () => {
+    it('should drop messages above the configured level', () => {
+        const log = new Logger();
+        const sink = createSink();
+        log.attach(sink);
+        log.configure({ level: 'warn', redactDocumentText: false });
+
+        log.debug('hidden');
+        log.info('hidden');
+        log.warn('shown');
+        log.error('shown too');
+
+        expect(sink.lines).toEqual(['warn shown', 'error shown too']);
+        expect(log.isEnabled('trace')).toBe(false);
+    });
+
+    it('should change only the given options', () => {
+        const log = new Logger();
+        const sink = createSink();
+        log.attach(sink);
+        log.configure({ level: 'trace', redactDocumentText: true });
+
+        // The output channel's level changes on its own, the settings keep theirs
+        log.configure({ level: 'debug' });
+        log.configure({ redactDocumentText: true });
+        log.debug('shown');
+        log.traceBody('Request', { content: 'hidden' });
+
+        expect(sink.lines).toEqual(['debug shown']);
+        expect(log.isEnabled('trace')).toBe(false);
+    });
+
+    it('should log nothing when off', () => {
+        const log = new Logger();
+        const sink = createSink();
+        log.attach(sink);
+        log.configure({ level: 'off', redactDocumentText: false });
+
+        log.error('hidden');
+
+        expect(sink.lines).toEqual([]);
+    });
+
+    it('should log bodies only at trace level, with secrets and optionally document text redacted', () => {
+        const log = new Logger();
+        const sink = createSink();
+        log.attach(sink);
+        const body = { model: 'gpt-4o', messages: [{ role: 'user', content: 'My secret plan' }], api_key: 'sk-abcdefghijklmnop' };
+
+        log.configure({ level: 'debug', redactDocumentText: false });
+        log.traceBody('Request', body);
+        expect(sink.lines).toEqual([]);
+
+        log.configure({ level: 'trace', redactDocumentText: false });
+        log.traceBody('Request', body);
+        expect(sink.lines[0]).toContain('My secret plan');
+        expect(sink.lines[0]).not.toContain('sk-abcdefghijklmnop');
+
+        log.configure({ level: 'trace', redactDocumentText: true });
+        log.traceBody('Request', body);
+        expect(sink.lines[1]).not.toContain('My secret plan');
+        expect(sink.lines[1]).toContain('[14 chars]');
+        expect(sink.lines[1]).toContain('gpt-4o');
+    });
+});
+
+describe('redaction', () => {
+    it('should mask key formats, auth headers and registered keys', () => {
+        registerSecret('custom-server-key-123');
+
+        expect(redactSecrets('key sk-ant-api03-abcdefgh rejected')).toBe('key sk-*** rejected');
+        expect(redactSecrets('Authorization: Bearer abc.def-123')).toBe('Authorization: Bearer ***');
+        expect(redactSecrets('{"x-api-key":"anything"}')).toBe('{"x-api-key":"***"}');
+        expect(redactSecrets('invalid key custom-server-key-123')).toBe('invalid key ***');
+    });
+
+    it('should replace document fields with their length and keep the rest', () => {
+        expect(redactDocumentText({
+            system: 'abc',
+            messages: [{ role: 'user', content: 'hello' }],
+            options: { num_predict: 50 },
+        })).toEqual({
+            system: '[3 chars]',
+            messages: [{ role: 'user', content: '[5 chars]' }],
+            options: { num_predict: 50 },
+        });
+    });
+});
+
+describe('RequestLog', () => {
+    const sink = createSink();
+
+    beforeAll(() => {
+        logger.attach(sink);
+        logger.configure({ level: 'info', redactDocumentText: false });
+    });
+
+    afterAll(() => logger.detach());
+
+    beforeEach(() => {
+        sink.lines.length = 0;
+    });
+
+    it('should log one line with the summed usage and tag the options', () => {
+        const onUsage = jest.fn();
+        const request = new RequestLog('structure', 'meeting');
+        const options = request.track({ maxTokens: 100, onUsage });
+
+        options.onUsage?.({ inputTokens: 100, outputTokens: 20 });
+        options.onUsage?.({ inputTokens: 110, outputTokens: 30 });
+        request.succeed('## Next');
+        request.succeed('## Next');
+
+        expect(options.requestId).toBe(request.id);
+        expect(options.maxTokens).toBe(100);
+        expect(onUsage).toHaveBeenCalledTimes(2);
+        expect(sink.lines).toHaveLength(1);
+        expect(sink.lines[0]).toMatch(
+            new RegExp(`^info \\[${request.id}\\] structure type=meeting tokens=210/50 latency=\\d+ms ok, 7 chars$`)
+        );
+    });
+
+    it('should report failures as warnings and cancellations as info', () => {
+        new RequestLog('content').fail(new Error('Timed out'));
+
+        const controller = new AbortController();
+        controller.abort();
+        new RequestLog('content').fail(new Error('aborted'), controller.signal);
+
+        expect(sink.lines[0]).toMatch(/^warn .* content tokens=n\/a .* failed: Timed out$/);
+        expect(sink.lines[1]).toMatch(/^info .* cancelled$/);
+    });
+});
@@ -2,8 +2,10 @@
  * Unit tests for prompt builder module
  */
 
-import { buildPrompt, buildPromptForMode } from '../../prompts/builder';
-import { DocumentContext } from '../../analysis/document-context';
+import { buildFimPrompt, buildPrompt, buildPromptForMode } from '../../prompts/builder';
+import { DocumentContext, analyzeDocument } from '../../analysis/document-context';
+import { ContextBudget } from '../../analysis/context-budget';
+import { NEGOTIATION_NOTES } from '../fixtures/replay';
 
 describe('buildPrompt', () => {
     const baseContext: DocumentContext = {
@@ -12,6 +14,14 @@ describe('buildPrompt', () => {
         currentLine: 'Current line',
         cursorPosition: 'content',
         precedingStructure: [],
+        outline: [],
+        outlinePath: [],
+        siblingPattern: null,
+        headingPath: ['Test Section'],
+        siblingSections: [],
+        nextSectionStart: '',
+        documentSettings: {},
+        directives: [],
         currentSection: 'Test Section',
         currentDepth: 0,
         documentType: null,
@@ -51,6 +61,122 @@ describe('buildPrompt', () => {
         expect(userPrompt).toContain('negotiation');
         expect(userPrompt).toContain('Help with negotiation points');
     });
+
+    it('should render the outline as markdown without frontmatter', () => {
+        const text = '---\ntitle: Deal\n---\n# Deal\n- [x] Price agreed\n  - [ ] Payment terms\n';
+        const structureContext = analyzeDocument(text, 6, 0);
+
+        const { userPrompt } = buildPrompt(structureContext);
+
+        expect(userPrompt).toContain('<-- CURSOR):\n# Deal\n- [x] Price agreed\n  - [ ] Payment terms\n<-- CURSOR\n\n');
+    });
+
+    it('should show the cursor location and the shape of the next sibling', () => {
+        const text = `# Deal
+## Options
+### Option A
+- Pros: fast
+- Cons: risky
+### Option B
+- Pros: cheap
+- Cons: slow
+
+## Next Steps
+- Call the vendor`;
+        const structureContext = analyzeDocument(text, 8, 0);
+
+        const { userPrompt } = buildPrompt(structureContext);
+
+        expect(userPrompt).toContain('- Cons: slow\n<-- CURSOR\n## Next Steps\n- Call the vendor');
+        expect(userPrompt).toContain('CURSOR LOCATION: Deal > Options > Option B');
+        expect(userPrompt).toContain(
+            'The next sibling of "### Option B" should follow this shape:\n### Option C\n- Pros:\n- Cons:'
+        );
+    });
+
+    it('should send the full outline when the budget allows', () => {
+        const context = analyzeDocument(NEGOTIATION_NOTES, 9, 0, null, new ContextBudget(8192, 200));
+
+        const { userPrompt } = buildPrompt(context);
+
+        expect(userPrompt).toContain([
+            '# Deal with Acme',
+            '## Parties',
+            '- Us: supplier of packaging',
+            '- Acme: retail chain',
+            '## Interests',
+            "- Price below last year's",
+            '- Delivery before the holiday season',
+            '<-- CURSOR',
+        ].join('\n'));
+    });
+
+    it('should not send an outline line without its parent heading', () => {
+        const parties = Array.from({ length: 60 }, (_, i) => `- Party ${i} with a longer description`);
+        const text = ['# Deal', '## Parties', ...parties, '## Interests', '- Price', ''].join('\n');
+        const context = analyzeDocument(text, 64, 0, null, new ContextBudget(1000, 200));
+
+        const outline = buildPrompt(context).userPrompt.split('<-- CURSOR):\n')[1].split('\n\n')[0].split('\n');
+
+        // The nearest parties are kept with their heading, the first ones are left out
+        expect(outline.slice(0, 3)).toEqual(['# Deal', '## Parties', expect.stringMatching(/^- Party \d+ /)]);
+        expect(outline.slice(-3)).toEqual(['## Interests', '- Price', '<-- CURSOR']);
+        expect(outline).not.toContain('- Party 0 with a longer description');
+    });
+});
+
+describe('section-aware prompts', () => {
+    const text = `# Launch
+## Goals
+Reach 1000 users. Then grow.
+## Plan
+- Beta in March
+- Launch in May
+## Budget
+Marketing gets half.`;
+
+    it('should summarize sibling sections and show the start of the next one', () => {
+        const { userPrompt } = buildPromptForMode(analyzeDocument(text, 4, 15), 'content');
+
+        expect(userPrompt).toContain('Current section: Launch > Plan');
+        expect(userPrompt).toContain('SIBLING SECTIONS:\n## Goals — Reach 1000 users.\n## Budget — Marketing gets half.');
+        expect(userPrompt).toContain('CONTENT BEFORE CURSOR (DO NOT REPEAT):\n## Plan\n- Beta in March\n');
+        expect(userPrompt).toContain('NEXT SECTION:\n## Budget\nMarketing gets half.');
+    });
+
+    it('should send the whole outline and every section when the budget allows', () => {
+        for (const mode of ['structure', 'content'] as const) {
+            const unbudgeted = buildPromptForMode(analyzeDocument(text, 5, 15), mode);
+            const budgeted = buildPromptForMode(analyzeDocument(text, 5, 15, null, new ContextBudget(8192, 200)), mode);
+
+            expect(budgeted.userPrompt).toBe(unbudgeted.userPrompt);
+        }
+    });
+
+    it('should render the sections in structure prompts too', () => {
+        const { userPrompt } = buildPromptForMode(analyzeDocument(text, 5, 15), 'structure');
+
+        expect(userPrompt).toContain('SIBLING SECTIONS:\n## Goals — Reach 1000 users.');
+        expect(userPrompt).toContain('NEXT SECTION:\n## Budget');
+    });
+});
+
+describe('document directives in prompts', () => {
+    it('should add the language and the section directives', () => {
+        const text = `---
+thoughtCompletion: { language: ru }
+---
+# Deal
+## Pricing
+<!-- tc: focus on pricing risks -->
+- List price`;
+
+        const { userPrompt } = buildPrompt(analyzeDocument(text, 6, 12));
+
+        expect(userPrompt).toContain(
+            "Current section: Deal > Pricing\nWrite in this language: ru\nAuthor's directives for this section:\n- focus on pricing risks"
+        );
+    });
 });
 
 describe('buildPromptForMode', () => {
@@ -60,6 +186,14 @@ describe('buildPromptForMode', () => {
         currentLine: 'Line',
         cursorPosition: 'content',
         precedingStructure: [],
+        outline: [],
+        outlinePath: [],
+        siblingPattern: null,
+        headingPath: [],
+        siblingSections: [],
+        nextSectionStart: '',
+        documentSettings: {},
+        directives: [],
         currentSection: null,
         currentDepth: 0,
         documentType: null,
@@ -80,3 +214,31 @@ describe('buildPromptForMode', () => {
         expect(systemPrompt).toContain('Thought Coach');
     });
 });
+
+describe('buildFimPrompt', () => {
+    it('should split the document at the cursor without instructions', () => {
+        const context: DocumentContext = {
+            textBeforeCursor: '# Plan\n- Ship by',
+            textAfterCursor: '- Budget',
+            currentLine: '- Ship by Friday',
+            cursorPosition: 'content',
+            precedingStructure: [],
+            outline: [],
+            outlinePath: [],
+            siblingPattern: null,
+            headingPath: ['Plan'],
+            siblingSections: [],
+            nextSectionStart: '',
+            documentSettings: {},
+            directives: [],
+            currentSection: 'Plan',
+            currentDepth: 0,
+            documentType: null,
+        };
+
+        expect(buildFimPrompt(context)).toEqual({
+            prefix: '# Plan\n- Ship by',
+            suffix: ' Friday\n- Budget',
+        });
+    });
+});
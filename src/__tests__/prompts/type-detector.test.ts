@@ -0,0 +1,140 @@
+/**
+ * Tests for LLM-based document type detection, against recorded model answers
+ */
+
+import { detectDocumentType, parseDetectionAnswer, requestDocumentType, resolveDocumentType } from '../../prompts/type-detector';
+import { DEFAULT_DOCUMENT_TYPES } from '../../prompts/templates';
+import { LLMHttpError } from '../../llm/errors';
+import { LLMProvider } from '../../llm/types';
+import { replayProvider, unrecordedProvider, NEGOTIATION_NOTES, SHOPPING_LIST } from '../fixtures/replay';
+
+describe('detectDocumentType', () => {
+    it('should return the built-in type the model names', async () => {
+        const type = await detectDocumentType(NEGOTIATION_NOTES, [], replayProvider('detection'));
+
+        expect(type?.name).toBe('negotiation');
+    });
+
+    it('should return null when the model answers general', async () => {
+        expect(await detectDocumentType(SHOPPING_LIST, [], replayProvider('detection'))).toBeNull();
+    });
+
+    it('should fall back to general when the request fails', async () => {
+        const type = await detectDocumentType(NEGOTIATION_NOTES, [], unrecordedProvider());
+
+        expect(type).toBeNull();
+    });
+
+    it('should pass cancellation to the caller', async () => {
+        const controller = new AbortController();
+        const llm = {
+            complete: jest.fn(async () => {
+                controller.abort();
+                throw Object.assign(new Error('aborted'), { name: 'AbortError' });
+            }),
+        } as unknown as LLMProvider;
+
+        await expect(detectDocumentType(NEGOTIATION_NOTES, [], llm, controller.signal)).rejects.toThrow('aborted');
+    });
+});
+
+describe('requestDocumentType', () => {
+    function answering(...answers: Array<string | Error>): LLMProvider {
+        const complete = jest.fn();
+        answers.forEach(answer => complete.mockImplementationOnce(async () => {
+            if (answer instanceof Error) {
+                throw answer;
+            }
+            return answer;
+        }));
+        return { name: 'Test', complete } as unknown as LLMProvider;
+    }
+
+    it('should return the recorded confidence and reason', async () => {
+        const detection = await requestDocumentType(NEGOTIATION_NOTES, [], replayProvider('detection'));
+
+        expect(detection.type?.name).toBe('negotiation');
+        expect(detection.confidence).toBeGreaterThan(0);
+        expect(detection.reason).toBeTruthy();
+    });
+
+    it('should fall back to general below the confidence threshold', async () => {
+        const llm = answering('{"type": "negotiation", "confidence": 0.3, "reason": "Mentions a deal."}');
+
+        const detection = await requestDocumentType(NEGOTIATION_NOTES, [], llm);
+
+        expect(detection.type).toBeNull();
+        expect(detection.candidate).toBe('negotiation');
+        expect(detection.confidence).toBe(0.3);
+    });
+
+    it('should request a JSON schema and retry without it when the server rejects it', async () => {
+        const llm = answering(
+            new LLMHttpError('response_format is not supported', 'Test', 400),
+            'The type is: negotiation.'
+        );
+
+        const detection = await requestDocumentType(NEGOTIATION_NOTES, [], llm);
+
+        const calls = (llm.complete as jest.Mock).mock.calls;
+        expect(calls[0][1].responseFormat.schema.properties.type.enum).toContain('negotiation');
+        expect(calls[1][1].responseFormat).toBeUndefined();
+        expect(detection.type?.name).toBe('negotiation');
+    });
+
+    it('should match custom type names written with spaces or underscores', async () => {
+        const customTypes = ['Vendor Review', 'status_report'].map(name => ({ name, detectionPrompt: '', workingPrompt: '' }));
+
+        const json = await requestDocumentType(NEGOTIATION_NOTES, customTypes, answering('{"type": "Vendor Review", "confidence": 0.9}'));
+        const plain = await requestDocumentType(NEGOTIATION_NOTES, customTypes, answering('This is a status report.'));
+
+        expect(json.type?.name).toBe('Vendor Review');
+        expect(plain.type?.name).toBe('status_report');
+    });
+});
+
+describe('parseDetectionAnswer', () => {
+    it('should read a JSON answer, also inside a code fence or chatter', () => {
+        const json = '{"type": "Negotiation", "confidence": 0.85, "reason": "A deal with two parties."}';
+
+        for (const response of [json, '```json\n' + json + '\n```', `Sure! Here it is: ${json} Hope this helps.`]) {
+            expect(parseDetectionAnswer(response, DEFAULT_DOCUMENT_TYPES)).toEqual({
+                type: 'negotiation',
+                confidence: 0.85,
+                reason: 'A deal with two parties.',
+            });
+        }
+    });
+
+    it('should accept confidence given as a percentage', () => {
+        expect(parseDetectionAnswer('{"type": "negotiation", "confidence": "80%"}', DEFAULT_DOCUMENT_TYPES).confidence).toBe(0.8);
+        expect(parseDetectionAnswer('{"type": "negotiation", "confidence": 65}', DEFAULT_DOCUMENT_TYPES).confidence).toBe(0.65);
+    });
+
+    it('should find a type name in plain or quoted answers', () => {
+        expect(parseDetectionAnswer('The type is: negotiation.', DEFAULT_DOCUMENT_TYPES)).toEqual({ type: 'negotiation' });
+        expect(parseDetectionAnswer('"brainstorm"', DEFAULT_DOCUMENT_TYPES)).toEqual({ type: 'brainstorm' });
+        expect(parseDetectionAnswer('I am not sure what this is.', DEFAULT_DOCUMENT_TYPES)).toEqual({ type: 'general' });
+    });
+});
+
+describe('resolveDocumentType', () => {
+    it('should use the selected type without asking the model', async () => {
+        const llm = { complete: jest.fn() } as unknown as LLMProvider;
+
+        const type = await resolveDocumentType(SHOPPING_LIST, 'brainstorm', [], llm);
+
+        expect(type?.name).toBe('brainstorm');
+        expect(llm.complete).not.toHaveBeenCalled();
+    });
+
+    it('should prefer the type pinned in the frontmatter over the selected one', async () => {
+        const llm = { complete: jest.fn() } as unknown as LLMProvider;
+        const text = `---\nthoughtCompletion: { type: negotiation }\n---\n${SHOPPING_LIST}`;
+
+        const type = await resolveDocumentType(text, 'brainstorm', [], llm);
+
+        expect(type?.name).toBe('negotiation');
+        expect(llm.complete).not.toHaveBeenCalled();
+    });
+});
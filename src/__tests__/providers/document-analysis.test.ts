@@ -0,0 +1,96 @@
+/**
+ * Tests for the document analysis service
+ */
+
+import * as vscode from 'vscode';
+import { DocumentAnalysisService } from '../../providers/document-analysis';
+
+function createDocument(text: string, version = 1) {
+    return {
+        uri: { toString: () => 'file:///notes.md' },
+        version,
+        getText: jest.fn(() => text),
+    };
+}
+
+/**
+ * Listener the service registered for text changes
+ */
+function changeListener(): (event: unknown) => void {
+    const calls = (vscode.workspace.onDidChangeTextDocument as jest.Mock).mock.calls;
+    return calls[calls.length - 1][0];
+}
+
+describe('DocumentAnalysisService', () => {
+    afterEach(() => jest.clearAllMocks());
+
+    it('should update the parsed model from change events instead of reading the text again', () => {
+        const service = new DocumentAnalysisService();
+        const document = createDocument('# Plan\n\nDraft');
+        const model = service.get(document as unknown as vscode.TextDocument);
+
+        const edited = createDocument('# Plan\n\n## Risks', 2);
+        changeListener()({
+            document: edited,
+            contentChanges: [{
+                range: { start: { line: 2, character: 0 }, end: { line: 2, character: 5 } },
+                text: '## Risks',
+            }],
+        });
+        const context = service.analyze(edited as unknown as vscode.TextDocument, new vscode.Position(2, 8), null);
+
+        expect(service.get(edited as unknown as vscode.TextDocument)).toBe(model);
+        expect(edited.getText).not.toHaveBeenCalled();
+        expect(context.currentSection).toBe('Risks');
+        service.dispose();
+    });
+
+    it('should parse the document again when a change was missed', () => {
+        const service = new DocumentAnalysisService();
+        service.get(createDocument('# Plan') as unknown as vscode.TextDocument);
+
+        const edited = createDocument('# Goals', 3);
+        const model = service.get(edited as unknown as vscode.TextDocument);
+
+        expect(edited.getText).toHaveBeenCalled();
+        expect(model.structure[0]).toMatchObject({ type: 'header', content: 'Goals' });
+        service.dispose();
+    });
+
+    it('should not apply a change event for a version it already has', () => {
+        const service = new DocumentAnalysisService();
+        const model = service.get(createDocument('# Plan') as unknown as vscode.TextDocument);
+        const event = {
+            document: createDocument('# Plans', 2),
+            contentChanges: [{
+                range: { start: { line: 0, character: 6 }, end: { line: 0, character: 6 } },
+                text: 's',
+            }],
+        };
+
+        changeListener()(event);
+        changeListener()(event);
+
+        expect(model.text).toBe('# Plans');
+        service.dispose();
+    });
+
+    it('should parse the document again after an event skips a version', () => {
+        const service = new DocumentAnalysisService();
+        service.get(createDocument('# Plan') as unknown as vscode.TextDocument);
+
+        const edited = createDocument('# Plans!', 3);
+        changeListener()({
+            document: edited,
+            contentChanges: [{
+                range: { start: { line: 0, character: 7 }, end: { line: 0, character: 7 } },
+                text: '!',
+            }],
+        });
+        const model = service.get(edited as unknown as vscode.TextDocument);
+
+        expect(edited.getText).toHaveBeenCalled();
+        expect(model.text).toBe('# Plans!');
+        service.dispose();
+    });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for the inline completion provider, against recorded model answers
+ */
+
+import * as vscode from 'vscode';
+import { ThoughtCompletionProvider, TriggerMode } from '../../providers/inline-completion';
+import { DocumentTypeCache } from '../../providers/type-cache';
+import { DocumentAnalysisService } from '../../providers/document-analysis';
+import { TaskRouter } from '../../llm/task-router';
+import { LLMConnectionError, LLMHttpError } from '../../llm/errors';
+import { LLMProvider } from '../../llm/types';
+import { replayProvider, unrecordedProvider, NEGOTIATION_NOTES } from '../fixtures/replay';
+
+function createStorage(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+        update: async (key: string, value: unknown) => { values.set(key, value); },
+    } as vscode.Memento;
+}
+
+function createDocument(text: string): vscode.TextDocument {
+    const lines = text.split('\n');
+    return {
+        uri: { toString: () => 'file:///notes.md' },
+        version: 1,
+        getText: () => text,
+        lineAt: (line: number) => ({ text: lines[line] }),
+    } as unknown as vscode.TextDocument;
+}
+
+const token = {
+    isCancellationRequested: false,
+    onCancellationRequested: jest.fn(() => ({ dispose: jest.fn() })),
+} as unknown as vscode.CancellationToken;
+
+const automatic = { triggerKind: vscode.InlineCompletionTriggerKind.Automatic } as vscode.InlineCompletionContext;
+const invoked = { triggerKind: vscode.InlineCompletionTriggerKind.Invoke } as vscode.InlineCompletionContext;
+
+function createProvider(
+    llm: LLMProvider | TaskRouter,
+    enabled = true,
+    triggerMode: TriggerMode = 'auto'
+): ThoughtCompletionProvider {
+    return new ThoughtCompletionProvider(
+        new DocumentTypeCache(createStorage()),
+        new DocumentAnalysisService(),
+        llm instanceof TaskRouter ? llm : new TaskRouter(llm),
+        [],
+        'auto',
+        enabled,
+        triggerMode,
+        200,
+        0,
+        0.7
+    );
+}
+
+describe('ThoughtCompletionProvider', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should suggest the next structure on an empty line', async () => {
+        const provider = createProvider(replayProvider('completions'));
+
+        const result = await provider.provideInlineCompletionItems(
+            createDocument(NEGOTIATION_NOTES), new vscode.Position(9, 0), automatic, token
+        );
+
+        expect(result?.items).toHaveLength(1);
+        expect(result?.items[0].insertText).toMatch(/^## /);
+    });
+
+    it('should fill content at the end of a bullet', async () => {
+        const provider = createProvider(replayProvider('completions'));
+        const line = NEGOTIATION_NOTES.split('\n')[8];
+
+        const result = await provider.provideInlineCompletionItems(
+            createDocument(NEGOTIATION_NOTES), new vscode.Position(8, line.length), invoked, token
+        );
+
+        expect(result?.items[0].insertText).toBeTruthy();
+        expect(result?.items[0].insertText).not.toMatch(/^#/);
+    });
+
+    it('should not call the model when disabled or for automatic triggers in manual mode', async () => {
+        const llm = replayProvider('completions');
+        const complete = jest.spyOn(llm, 'complete');
+        const document = createDocument(NEGOTIATION_NOTES);
+        const position = new vscode.Position(9, 0);
+
+        expect(await createProvider(llm, false).provideInlineCompletionItems(document, position, invoked, token)).toBeNull();
+        expect(await createProvider(llm, true, 'manual').provideInlineCompletionItems(document, position, automatic, token)).toBeNull();
+        expect(complete).not.toHaveBeenCalled();
+    });
+
+    it('should not trigger automatically in the middle of a word', async () => {
+        const llm = replayProvider('completions');
+        const complete = jest.spyOn(llm, 'complete');
+
+        const result = await createProvider(llm).provideInlineCompletionItems(
+            createDocument(NEGOTIATION_NOTES), new vscode.Position(0, 3), automatic, token
+        );
+
+        expect(result).toBeNull();
+        expect(complete).not.toHaveBeenCalled();
+    });
+
+    it('should fill content in the middle when the model supports it', async () => {
+        const llm = Object.assign(replayProvider('completions'), {
+            supportsFim: true,
+            completeFim: jest.fn(async () => ' in time for the holidays'),
+        });
+        const complete = jest.spyOn(llm, 'complete');
+        const line = NEGOTIATION_NOTES.split('\n')[8];
+
+        const result = await createProvider(llm).provideInlineCompletionItems(
+            createDocument(NEGOTIATION_NOTES), new vscode.Position(8, line.length), invoked, token
+        );
+
+        expect(result?.items[0].insertText).toBe(' in time for the holidays');
+        expect(llm.completeFim).toHaveBeenCalledWith(
+            { prefix: expect.stringMatching(/Delivery before the holiday season$/), suffix: '' },
+            expect.objectContaining({ task: 'content' })
+        );
+        // Only type detection goes through chat
+        expect(complete).not.toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ task: 'content' }));
+    });
+
+    it('should fall back to chat when the server rejects fill-in-the-middle', async () => {
+        const llm = Object.assign(replayProvider('completions'), {
+            supportsFim: true,
+            completeFim: jest.fn(async () => {
+                throw new LLMHttpError('OpenAI API error: 404 - Not Found', 'OpenAI Compatible', 404);
+            }),
+        });
+        const line = NEGOTIATION_NOTES.split('\n')[8];
+
+        const result = await createProvider(llm).provideInlineCompletionItems(
+            createDocument(NEGOTIATION_NOTES), new vscode.Position(8, line.length), invoked, token
+        );
+
+        expect(llm.completeFim).toHaveBeenCalled();
+        expect(result?.items[0].insertText).toBeTruthy();
+    });
+
+    it('should fall back to chat when the fill-in-the-middle server is down', async () => {
+        const llm = Object.assign(replayProvider('completions'), {
+            supportsFim: true,
+            completeFim: jest.fn(async () => {
+                throw new LLMConnectionError('Ollama connection failed: ECONNREFUSED', 'Ollama');
+            }),
+        });
+        const line = NEGOTIATION_NOTES.split('\n')[8];
+
+        const result = await createProvider(llm).provideInlineCompletionItems(
+            createDocument(NEGOTIATION_NOTES), new vscode.Position(8, line.length), invoked, token
+        );
+
+        expect(llm.completeFim).toHaveBeenCalled();
+        expect(result?.items[0].insertText).toBeTruthy();
+    });
+
+    it('should use the model, type and temperature pinned in the frontmatter', async () => {
+        const configured = { complete: jest.fn() } as unknown as LLMProvider;
+        const pinned = { complete: jest.fn(async () => '## Concessions') } as unknown as LLMProvider;
+        const createForModel = jest.fn(() => new TaskRouter(pinned));
+        const text = '---\nthoughtCompletion: { type: negotiation, model: small-model, temperature: 0.2 }\n---\n# Deal\n';
+
+        const result = await createProvider(new TaskRouter(configured, {}, createForModel)).provideInlineCompletionItems(
+            createDocument(text), new vscode.Position(4, 0), invoked, token
+        );
+
+        expect(result?.items[0].insertText).toBe('## Concessions');
+        expect(createForModel).toHaveBeenCalledWith('small-model');
+        // The pinned type needs no detection request
+        expect(configured.complete).not.toHaveBeenCalled();
+        expect(pinned.complete).toHaveBeenCalledTimes(1);
+        expect(pinned.complete).toHaveBeenCalledWith(
+            expect.stringContaining('Document type: negotiation'),
+            expect.objectContaining({ temperature: 0.2 })
+        );
+    });
+
+    it('should return no completion when the request fails', async () => {
+        const provider = createProvider(unrecordedProvider());
+
+        const result = await provider.provideInlineCompletionItems(
+            createDocument(NEGOTIATION_NOTES), new vscode.Position(9, 0), invoked, token
+        );
+
+        expect(result).toBeNull();
+    });
+});
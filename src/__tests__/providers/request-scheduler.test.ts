@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the inline completion request scheduler
+ */
+
+import * as vscode from 'vscode';
+import { RequestScheduler } from '../../providers/request-scheduler';
+
+function createDocument(uri = 'file:///notes.md'): { uri: { toString(): string }; version: number } {
+    return { uri: { toString: () => uri }, version: 1 };
+}
+
+function createToken(): vscode.CancellationToken & { cancel(): void } {
+    const listeners: Array<() => void> = [];
+    const token = {
+        isCancellationRequested: false,
+        onCancellationRequested: (listener: () => void) => {
+            listeners.push(listener);
+            return { dispose: () => listeners.splice(listeners.indexOf(listener), 1) };
+        },
+        cancel: () => {
+            token.isCancellationRequested = true;
+            [...listeners].forEach(l => l());
+        },
+    };
+    return token as unknown as vscode.CancellationToken & { cancel(): void };
+}
+
+describe('RequestScheduler', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('should wait for the delay before running', async () => {
+        const scheduler = new RequestScheduler(1000);
+        const run = jest.fn(async () => 'done');
+        const doc = createDocument() as unknown as vscode.TextDocument;
+
+        const result = scheduler.schedule(doc, createToken(), run);
+        await jest.advanceTimersByTimeAsync(999);
+        expect(run).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(1);
+        await expect(result).resolves.toBe('done');
+        expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should coalesce triggers into the latest one', async () => {
+        const scheduler = new RequestScheduler(500);
+        const doc = createDocument() as unknown as vscode.TextDocument;
+        const first = jest.fn(async () => 'first');
+        const second = jest.fn(async () => 'second');
+
+        const firstResult = scheduler.schedule(doc, createToken(), first);
+        await jest.advanceTimersByTimeAsync(300);
+        const secondResult = scheduler.schedule(doc, createToken(), second);
+        await jest.advanceTimersByTimeAsync(500);
+
+        await expect(firstResult).resolves.toBeNull();
+        await expect(secondResult).resolves.toBe('second');
+        expect(first).not.toHaveBeenCalled();
+    });
+
+    it('should keep one request in flight per document', async () => {
+        const scheduler = new RequestScheduler(0);
+        const doc = createDocument() as unknown as vscode.TextDocument;
+        let finishFirst: (value: string) => void = () => undefined;
+        const first = jest.fn(() => new Promise<string>(resolve => { finishFirst = resolve; }));
+        const second = jest.fn(async () => 'second');
+
+        const firstResult = scheduler.schedule(doc, createToken(), first);
+        await jest.advanceTimersByTimeAsync(0);
+        const secondResult = scheduler.schedule(doc, createToken(), second);
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(first).toHaveBeenCalled();
+        expect(second).not.toHaveBeenCalled();
+
+        finishFirst('first');
+        await expect(firstResult).resolves.toBe('first');
+        await expect(secondResult).resolves.toBe('second');
+    });
+
+    it('should drop results when the document version moved on', async () => {
+        const scheduler = new RequestScheduler(0);
+        const doc = createDocument();
+        const run = jest.fn(async () => {
+            doc.version++;
+            return 'stale';
+        });
+
+        const result = scheduler.schedule(doc as unknown as vscode.TextDocument, createToken(), run);
+        await jest.advanceTimersByTimeAsync(0);
+
+        await expect(result).resolves.toBeNull();
+    });
+
+    it('should not run when cancelled during the delay', async () => {
+        const scheduler = new RequestScheduler(1000);
+        const token = createToken();
+        const run = jest.fn(async () => 'done');
+
+        const result = scheduler.schedule(createDocument() as unknown as vscode.TextDocument, token, run);
+        token.cancel();
+        await jest.advanceTimersByTimeAsync(1000);
+
+        await expect(result).resolves.toBeNull();
+        expect(run).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for the per-document type cache
+ */
+
+import * as vscode from 'vscode';
+import { DocumentTypeCache, TypedDocument } from '../../providers/type-cache';
+import { DocumentModel } from '../../analysis/document-model';
+import { LLMProvider } from '../../llm/types';
+
+function createStorage(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+        update: async (key: string, value: unknown) => { values.set(key, value); },
+    } as vscode.Memento;
+}
+
+function createLLM(answer: string): LLMProvider & { complete: jest.Mock } {
+    return {
+        name: 'Test',
+        complete: jest.fn(async () => answer),
+        chat: jest.fn(),
+        completeStream: jest.fn(),
+        chatStream: jest.fn(),
+        isAvailable: jest.fn(async () => true),
+    };
+}
+
+function createDocument(text: string, version = 1, uri = 'file:///a.md'): TypedDocument {
+    return { uri, version, model: new DocumentModel(text) };
+}
+
+const NOTES = `# Deal with Acme
+
+## Parties
+- Us
+- Acme
+
+## Interests
+- Price
+- Timeline
+- Support`;
+
+describe('DocumentTypeCache', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should reuse the detection while the content has not drifted', async () => {
+        const cache = new DocumentTypeCache(createStorage());
+        const llm = createLLM('negotiation');
+
+        const first = await cache.resolve(createDocument(NOTES), 'auto', [], llm);
+        const second = await cache.resolve(createDocument(NOTES + ' and more', 2), 'auto', [], llm);
+
+        expect(first?.name).toBe('negotiation');
+        expect(second?.name).toBe('negotiation');
+        expect(llm.complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the drift check while the document version is unchanged', async () => {
+        const cache = new DocumentTypeCache(createStorage());
+        const llm = createLLM('negotiation');
+        const document = createDocument(NOTES);
+
+        await cache.resolve(document, 'auto', [], llm);
+        const lines = jest.spyOn(document.model, 'lines', 'get');
+        await cache.resolve(document, 'auto', [], llm);
+        expect(lines).not.toHaveBeenCalled();
+
+        // An edit brings the next version, which is checked again
+        await cache.resolve({ ...document, version: 2 }, 'auto', [], llm);
+        expect(lines).toHaveBeenCalled();
+        expect(llm.complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep separate entries per document', async () => {
+        const cache = new DocumentTypeCache(createStorage());
+        const llm = createLLM('negotiation');
+
+        await cache.resolve(createDocument(NOTES), 'auto', [], llm);
+        await cache.resolve(createDocument(NOTES, 1, 'file:///b.md'), 'auto', [], llm);
+
+        expect(llm.complete).toHaveBeenCalledTimes(2);
+        expect(cache.get('file:///a.md')?.typeName).toBe('negotiation');
+        expect(cache.get('file:///b.md')?.typeName).toBe('negotiation');
+    });
+
+    it('should re-detect when a new top-level header appears', async () => {
+        const cache = new DocumentTypeCache(createStorage());
+        const llm = createLLM('negotiation');
+
+        await cache.resolve(createDocument(NOTES), 'auto', [], llm);
+        await cache.resolve(createDocument(NOTES + '\n\n## BATNA', 2), 'auto', [], llm);
+
+        expect(llm.complete).toHaveBeenCalledTimes(2);
+    });
+
+    it('should re-detect after a large diff', async () => {
+        const cache = new DocumentTypeCache(createStorage());
+        const llm = createLLM('negotiation');
+
+        await cache.resolve(createDocument(NOTES), 'auto', [], llm);
+        const rewritten = NOTES.replace(/- \w+/g, match => `${match} (revised)`);
+        await cache.resolve(createDocument(rewritten, 2), 'auto', [], llm);
+
+        expect(llm.complete).toHaveBeenCalledTimes(2);
+    });
+
+    it('should restore entries from storage', async () => {
+        const storage = createStorage();
+        const llm = createLLM('negotiation');
+
+        await new DocumentTypeCache(storage).resolve(createDocument(NOTES), 'auto', [], llm);
+        const restored = new DocumentTypeCache(storage);
+        const docType = await restored.resolve(createDocument(NOTES), 'auto', [], llm);
+
+        expect(docType?.name).toBe('negotiation');
+        expect(llm.complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache failed detections', async () => {
+        const cache = new DocumentTypeCache(createStorage());
+        const llm = createLLM('negotiation');
+        llm.complete.mockRejectedValueOnce(new Error('connection refused'));
+
+        expect(await cache.resolve(createDocument(NOTES), 'auto', [], llm)).toBeNull();
+        expect(cache.get('file:///a.md')).toBeUndefined();
+    });
+});
@@ -0,0 +1,17 @@
+/**
+ * Test setup
+ * Log messages go to a silent sink instead of the console; tests that check
+ * logging attach their own sink.
+ */
+
+import { logger, LogSink } from '../logging/logger';
+
+const silentSink: LogSink = {
+    trace: () => undefined,
+    debug: () => undefined,
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined,
+};
+
+logger.attach(silentSink);
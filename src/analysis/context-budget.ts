@@ -0,0 +1,213 @@
+/**
+ * Token budget for prompt context
+ * Estimates tokens and divides a model's context window among the prompt parts.
+ */
+
+import { ExtensionSettings } from '../llm/types';
+
+/**
+ * Counts tokens the way a model family does
+ */
+export interface Tokenizer {
+    countTokens(text: string): number;
+}
+
+/**
+ * Flexible prompt parts, in the order they are filled
+ */
+export type BudgetPart = 'framework' | 'outline' | 'sections' | 'before' | 'after';
+
+const PRIORITY: BudgetPart[] = ['framework', 'outline', 'sections', 'before', 'after'];
+
+/**
+ * Share of the flexible budget each part may take in the first pass
+ */
+const SHARES: Record<BudgetPart, number> = {
+    framework: 0.1,
+    outline: 0.2,
+    sections: 0.1,
+    before: 0.4,
+    after: 0.2,
+};
+
+/**
+ * Line standing in for text cut from the middle
+ */
+export const OMISSION = '\n...\n';
+
+/**
+ * Share of the kept text taken from the start when the middle is cut
+ */
+export const MIDDLE_HEAD_SHARE = 0.3;
+
+/**
+ * Context window used when nothing is known about the model
+ */
+export const DEFAULT_CONTEXT_TOKENS = 8192;
+
+/**
+ * Rough estimate without a real tokenizer: about 4 characters per token for
+ * ASCII, 2 for other alphabets (Cyrillic, Greek...) and 1 for CJK.
+ */
+export const heuristicTokenizer: Tokenizer = {
+    countTokens(text: string): number {
+        let tokens = 0;
+        for (const char of text) {
+            const code = char.codePointAt(0) ?? 0;
+            if (code < 0x80) {
+                tokens += 0.25;
+            } else if ((code >= 0x3000 && code <= 0x9fff) || (code >= 0xac00 && code <= 0xd7af)) {
+                tokens += 1;
+            } else {
+                tokens += 0.5;
+            }
+        }
+        return Math.ceil(tokens);
+    },
+};
+
+/**
+ * Tokenizers registered for model name patterns
+ */
+const tokenizers: Array<{ pattern: RegExp; tokenizer: Tokenizer }> = [];
+
+/**
+ * Register a tokenizer for models whose name matches the pattern.
+ * Later registrations take precedence.
+ */
+export function registerTokenizer(pattern: RegExp, tokenizer: Tokenizer): void {
+    tokenizers.unshift({ pattern, tokenizer });
+}
+
+/**
+ * Tokenizer for a model, falling back to the heuristic estimate
+ */
+export function tokenizerForModel(model: string): Tokenizer {
+    return tokenizers.find(t => t.pattern.test(model))?.tokenizer ?? heuristicTokenizer;
+}
+
+/**
+ * Token limits for one request: the model's context window minus the output reserve
+ */
+export class ContextBudget {
+    constructor(
+        /** Model context window */
+        readonly contextTokens: number,
+        /** Tokens kept free for the answer */
+        readonly outputTokens: number,
+        readonly tokenizer: Tokenizer = heuristicTokenizer
+    ) { }
+
+    /**
+     * Tokens available for the prompt
+     */
+    get inputTokens(): number {
+        return Math.max(0, this.contextTokens - this.outputTokens);
+    }
+
+    /**
+     * Same context window with a different output reserve
+     */
+    withOutput(outputTokens: number): ContextBudget {
+        return new ContextBudget(this.contextTokens, outputTokens, this.tokenizer);
+    }
+
+    count(text: string): number {
+        return text ? this.tokenizer.countTokens(text) : 0;
+    }
+
+    /**
+     * Tokens the context window leaves for an answer to the given prompt
+     */
+    outputRoom(...prompt: string[]): number {
+        return Math.max(0, this.contextTokens - prompt.reduce((sum, text) => sum + this.count(text), 0));
+    }
+
+    /**
+     * Keep as much of the start of the text as fits
+     */
+    fitStart(text: string, tokens: number): string {
+        return text.slice(0, this.fittingLength(text, tokens, length => text.slice(0, length)));
+    }
+
+    /**
+     * Keep as much of the end of the text as fits
+     */
+    fitEnd(text: string, tokens: number): string {
+        return text.slice(text.length - this.fittingLength(text, tokens, length => text.slice(text.length - length)));
+    }
+
+    /**
+     * Keep the start and the end of the text, cutting from the middle
+     */
+    fitMiddle(text: string, tokens: number): string {
+        if (this.count(text) <= tokens) {
+            return text;
+        }
+
+        const available = Math.max(0, tokens - this.count(OMISSION));
+        const head = this.fitStart(text, Math.floor(available * MIDDLE_HEAD_SHARE));
+        const tail = this.fitEnd(text.slice(head.length), available - this.count(head));
+        return head + OMISSION + tail;
+    }
+
+    /**
+     * Divide what is left after the fixed parts among the flexible ones.
+     * Each part first gets up to its share, in priority order; whatever
+     * remains then goes to parts that still need more, in the same order.
+     */
+    allocate(fixed: string[], needs: Record<BudgetPart, number>): Record<BudgetPart, number> {
+        const flexible = Math.max(0, this.inputTokens - fixed.reduce((sum, text) => sum + this.count(text), 0));
+        const allocation: Record<BudgetPart, number> = { framework: 0, outline: 0, sections: 0, before: 0, after: 0 };
+        let available = flexible;
+
+        for (const part of PRIORITY) {
+            const granted = Math.min(needs[part], Math.floor(flexible * SHARES[part]), available);
+            allocation[part] = granted;
+            available -= granted;
+        }
+
+        for (const part of PRIORITY) {
+            const extra = Math.min(needs[part] - allocation[part], available);
+            allocation[part] += extra;
+            available -= extra;
+        }
+
+        return allocation;
+    }
+
+    /**
+     * Longest prefix/suffix length whose token count fits, found by binary search
+     */
+    private fittingLength(text: string, tokens: number, slice: (length: number) => string): number {
+        if (this.count(text) <= tokens) {
+            return text.length;
+        }
+
+        let low = 0;
+        let high = text.length;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (this.count(slice(mid)) <= tokens) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return low;
+    }
+}
+
+/**
+ * Budget for the primary model: Ollama's num_ctx when sent (native mode),
+ * else the per-model entry, else the default context window.
+ */
+export function contextBudgetFromSettings(settings: ExtensionSettings): ContextBudget {
+    const model = settings[settings.provider].model;
+    const numCtx = settings.provider === 'ollama' && settings.ollama.apiMode === 'native' ? settings.ollama.numCtx : 0;
+    const contextTokens = numCtx > 0
+        ? numCtx
+        : settings.modelContextWindows[model] ?? settings.contextWindow;
+
+    return new ContextBudget(contextTokens, settings.maxTokens, tokenizerForModel(model));
+}
@@ -0,0 +1,111 @@
+/**
+ * Per-document settings and inline directives
+ * Reads the `thoughtCompletion` key of the YAML frontmatter and the
+ * `<!-- tc: ... -->` comments that steer completions in one section.
+ */
+
+import { parse } from 'yaml';
+import type { ParsedDocument, StructureNode } from './document-context';
+import { findFrontmatter } from './markdown';
+import { findOutlinePath } from './outline';
+
+/**
+ * Settings a document pins for itself in its frontmatter
+ */
+export interface DocumentSettings {
+    /** Document type name, or 'auto' to detect it */
+    type?: string;
+    /** Model of the primary provider used for this document */
+    model?: string;
+    /** Sampling temperature (0-2) */
+    temperature?: number;
+    /** Language completions are written in, e.g. "ru" */
+    language?: string;
+}
+
+/**
+ * Frontmatter key holding the settings
+ */
+const SETTINGS_KEY = 'thoughtCompletion';
+
+/**
+ * Inline directive, e.g. `<!-- tc: focus on pricing risks -->`
+ */
+const DIRECTIVE = /<!--\s*tc:\s*([\s\S]*?)\s*-->/g;
+
+/**
+ * Whether a value is a non-empty string
+ */
+function isText(value: unknown): value is string {
+    return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * Parse the settings from frontmatter YAML. Invalid YAML, say while the
+ * frontmatter is being typed, and values of the wrong kind are ignored.
+ */
+export function parseDocumentSettings(frontmatter: string): DocumentSettings {
+    let data: unknown;
+    try {
+        data = parse(frontmatter);
+    } catch {
+        return {};
+    }
+
+    const section = (data as Record<string, unknown> | null)?.[SETTINGS_KEY];
+    if (!section || typeof section !== 'object') {
+        return {};
+    }
+
+    const { type, model, temperature, language } = section as Record<string, unknown>;
+    const settings: DocumentSettings = {};
+    if (isText(type)) settings.type = type.trim();
+    if (isText(model)) settings.model = model.trim();
+    if (typeof temperature === 'number' && temperature >= 0 && temperature <= 2) settings.temperature = temperature;
+    if (isText(language)) settings.language = language.trim();
+    return settings;
+}
+
+/**
+ * Settings of a parsed document, from its frontmatter node
+ */
+export function readDocumentSettings(structure: StructureNode[]): DocumentSettings {
+    const first = structure[0];
+    return first?.type === 'frontmatter' ? parseDocumentSettings(first.content) : {};
+}
+
+/**
+ * Settings of a document not parsed yet
+ */
+export function readDocumentSettingsFromText(text: string): DocumentSettings {
+    const frontmatter = findFrontmatter(text.split('\n'));
+    return frontmatter ? parseDocumentSettings(frontmatter.content) : {};
+}
+
+/**
+ * Directives that apply at a line: those written in the same section or in
+ * a section containing it. Directives before the first header apply to the
+ * whole document.
+ */
+export function findDirectives(document: ParsedDocument, line: number): string[] {
+    const directives: string[] = [];
+
+    for (const node of document.structure) {
+        if (node.type === 'code' || node.type === 'frontmatter' || !node.content.includes('<!--')) {
+            continue;
+        }
+
+        const texts = [...node.content.matchAll(DIRECTIVE)].map(match => match[1]).filter(text => text);
+        if (texts.length === 0) {
+            continue;
+        }
+
+        const headers = findOutlinePath(document.outline, node.line).filter(n => n.node.type === 'header');
+        const section = headers[headers.length - 1];
+        if (!section || (section.startLine <= line && section.endLine >= line)) {
+            directives.push(...texts);
+        }
+    }
+
+    return directives;
+}
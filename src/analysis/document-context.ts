@@ -4,15 +4,43 @@
  */
 
 import { DocumentType } from '../llm/types';
+import { ContextBudget, MIDDLE_HEAD_SHARE, OMISSION } from './context-budget';
+import { parseMarkdown } from './markdown';
+import { OutlineNode, SiblingPattern, buildOutline, findOutlinePath, findSiblingPattern } from './outline';
+import { SectionSummary, findCursorSection } from './sections';
+import { DocumentSettings, findDirectives, readDocumentSettings } from './directives';
+
+/**
+ * Kind of a structure node
+ */
+export type StructureNodeType =
+    | 'header'
+    | 'bullet'
+    | 'numbered'
+    | 'task'
+    | 'paragraph'
+    | 'blockquote'
+    | 'table'
+    | 'code'
+    | 'frontmatter';
 
 /**
  * A node in the document structure
  */
 export interface StructureNode {
-    type: 'header' | 'bullet' | 'numbered' | 'paragraph';
+    type: StructureNodeType;
+    /** Header level, or list nesting depth (1 = top level); 0 for other blocks */
     level: number;
+    /** Text of the node without its markdown syntax */
     content: string;
+    /** First line of the node (0-indexed) */
     line: number;
+    /** Last line of the node, inclusive */
+    endLine: number;
+    /** Whether a task item is checked off */
+    checked?: boolean;
+    /** Info string of a fenced code block, usually the language */
+    language?: string;
 }
 
 /**
@@ -32,86 +60,76 @@ export interface DocumentContext {
     cursorPosition: CursorPosition;
     /** Structure nodes preceding the cursor */
     precedingStructure: StructureNode[];
+    /** Headers and list items of the whole document as a tree */
+    outline: OutlineNode[];
+    /** Outline nodes containing the cursor, from the top level down */
+    outlinePath: OutlineNode[];
+    /** Shape shared by the siblings around the cursor, if any */
+    siblingPattern: SiblingPattern | null;
+    /** Headers containing the cursor, from the top level down */
+    headingPath: string[];
+    /** Sections next to the current one, in document order */
+    siblingSections: SectionSummary[];
+    /** Start of the section after the current one; empty at the end of the document */
+    nextSectionStart: string;
+    /** Settings pinned in the document's frontmatter */
+    documentSettings: DocumentSettings;
+    /** Inline `<!-- tc: ... -->` directives of the sections containing the cursor */
+    directives: string[];
     /** Current nesting depth (0 = top level) */
     currentDepth: number;
-    /** Text content before cursor (limited) */
+    /** Current section from its header to the cursor; cut from the middle when long */
     textBeforeCursor: string;
-    /** Text content after cursor (limited) */
+    /** Rest of the current section body after the cursor line (limited) */
     textAfterCursor: string;
     /** Current line content */
     currentLine: string;
+    /** Token budget the prompt is fitted to; fixed-size windows are used when absent */
+    budget?: ContextBudget;
 }
 
 /**
- * Regex patterns for document structure detection
+ * Regex patterns for the line at the cursor, which may not parse as a
+ * complete block yet
  */
 const PATTERNS = {
     header: /^(#{1,6})\s+(.+)$/,
     bullet: /^(\s*)[-*+]\s+(.*)$/,
     numbered: /^(\s*)(\d+)\.\s+(.*)$/,
+    task: /^\s*(?:[-*+]|\d+\.)\s+\[[ xX]\]\s*$/,
     emptyLine: /^\s*$/,
 };
 
 /**
- * Extract structure nodes from document text
+ * Limits without a budget: characters kept on each side of the cursor, and
+ * how much of the next section is sent
  */
-export function extractStructure(text: string): StructureNode[] {
-    const lines = text.split('\n');
-    const nodes: StructureNode[] = [];
-
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-
-        // Check for headers
-        const headerMatch = line.match(PATTERNS.header);
-        if (headerMatch) {
-            nodes.push({
-                type: 'header',
-                level: headerMatch[1].length,
-                content: headerMatch[2],
-                line: i,
-            });
-            continue;
-        }
+const MAX_CHARS_BEFORE = 1000;
+const MAX_CHARS_AFTER = 1000;
+const MAX_NEXT_SECTION_LINES = 5;
+const MAX_NEXT_SECTION_CHARS = 300;
 
-        // Check for bullet points
-        const bulletMatch = line.match(PATTERNS.bullet);
-        if (bulletMatch) {
-            const indent = bulletMatch[1].length;
-            nodes.push({
-                type: 'bullet',
-                level: Math.floor(indent / 2) + 1,
-                content: bulletMatch[2],
-                line: i,
-            });
-            continue;
-        }
-
-        // Check for numbered lists
-        const numberedMatch = line.match(PATTERNS.numbered);
-        if (numberedMatch) {
-            const indent = numberedMatch[1].length;
-            nodes.push({
-                type: 'numbered',
-                level: Math.floor(indent / 2) + 1,
-                content: numberedMatch[3],
-                line: i,
-            });
-            continue;
-        }
+/**
+ * Extract structure nodes from document text.
+ * Parses the text as CommonMark with GFM tables and task lists, so fenced
+ * code, quotes and frontmatter never turn into headers or list items.
+ */
+export function extractStructure(text: string): StructureNode[] {
+    return parseMarkdown(text.split('\n')).nodes;
+}
 
-        // Non-empty lines are paragraphs
-        if (!PATTERNS.emptyLine.test(line)) {
-            nodes.push({
-                type: 'paragraph',
-                level: 0,
-                content: line.trim(),
-                line: i,
-            });
+/**
+ * Innermost structure node spanning a line
+ */
+export function findNodeAt(structure: StructureNode[], line: number): StructureNode | null {
+    let found: StructureNode | null = null;
+    for (const node of structure) {
+        if (node.line > line) break;
+        if (node.endLine >= line) {
+            found = node;
         }
     }
-
-    return nodes;
+    return found;
 }
 
 /**
@@ -140,6 +158,18 @@ export function detectCursorPosition(
     structure: StructureNode[]
 ): CursorPosition {
     const line = lines[cursorLine] ?? '';
+    const node = findNodeAt(structure, cursorLine);
+
+    // Code, frontmatter, tables and quotes are written line by line, even where a line looks like markdown
+    if (node && (node.type === 'code' || node.type === 'frontmatter' || node.type === 'table' ||
+        (node.type === 'blockquote' && !PATTERNS.emptyLine.test(line)))) {
+        return 'content';
+    }
+
+    // At a header, including the underline of a setext header = structural position
+    if (node?.type === 'header') {
+        return 'structure';
+    }
 
     // Empty line after structure = structural position
     if (PATTERNS.emptyLine.test(line)) {
@@ -151,7 +181,11 @@ export function detectCursorPosition(
         return 'structure';
     }
 
-    // At the end of a bullet/numbered that's empty = structural
+    // At the end of a bullet/numbered/task that's empty = structural
+    if (PATTERNS.task.test(line)) {
+        return 'structure';
+    }
+
     const bulletMatch = line.match(PATTERNS.bullet);
     if (bulletMatch && bulletMatch[2].trim() === '') {
         return 'structure';
@@ -178,7 +212,7 @@ export function calculateDepth(structure: StructureNode[], cursorLine: number):
 
         if (node.type === 'header') {
             depth = node.level;
-        } else if (node.type === 'bullet' || node.type === 'numbered') {
+        } else if (node.type === 'bullet' || node.type === 'numbered' || node.type === 'task') {
             depth = node.level;
         }
     }
@@ -187,20 +221,66 @@ export function calculateDepth(structure: StructureNode[], cursorLine: number):
 }
 
 /**
- * Analyze document and extract full context for completion
+ * Keep the start and the end of text longer than the limit: the section
+ * intro and the lines nearest the cursor
+ */
+function cutMiddle(text: string, maxLength: number): string {
+    if (text.length <= maxLength) {
+        return text;
+    }
+    const head = Math.floor(maxLength * MIDDLE_HEAD_SHARE);
+    return text.slice(0, head) + OMISSION + text.slice(text.length - (maxLength - head));
+}
+
+/**
+ * Document already split into lines and parsed
+ */
+export interface ParsedDocument {
+    readonly lines: string[];
+    readonly structure: StructureNode[];
+    readonly outline: OutlineNode[];
+}
+
+/**
+ * Split and parse document text
+ */
+export function parseDocument(text: string): ParsedDocument {
+    const lines = text.split('\n');
+    const structure = parseMarkdown(lines).nodes;
+    return { lines, structure, outline: buildOutline(structure, lines.length) };
+}
+
+/**
+ * Analyze document and extract full context for completion.
+ * The text around the cursor is the current section, from its header to the
+ * next header of any level. Without a budget it is cut to fixed sizes; with
+ * one, the prompt builder fits it to the prompt's token limit.
  */
 export function analyzeDocument(
     text: string,
     cursorLine: number,
     cursorColumn: number,
-    documentType: DocumentType | null = null
+    documentType: DocumentType | null = null,
+    budget?: ContextBudget
 ): DocumentContext {
-    const lines = text.split('\n');
-    const structure = extractStructure(text);
+    return analyzeParsedDocument(parseDocument(text), cursorLine, cursorColumn, documentType, budget);
+}
+
+/**
+ * Same as analyzeDocument, for a document parsed before
+ */
+export function analyzeParsedDocument(
+    document: ParsedDocument,
+    cursorLine: number,
+    cursorColumn: number,
+    documentType: DocumentType | null = null,
+    budget?: ContextBudget
+): DocumentContext {
+    const { lines, structure, outline } = document;
+    const section = findCursorSection(document, cursorLine);
 
-    // Get text before and after cursor (limited to ~1000 chars each)
-    const linesBefore = lines.slice(Math.max(0, cursorLine - 20), cursorLine + 1);
-    const linesAfter = lines.slice(cursorLine + 1, cursorLine + 21);
+    const linesBefore = lines.slice(section.startLine, cursorLine + 1);
+    const linesAfter = lines.slice(cursorLine + 1, section.endLine + 1);
 
     // Adjust last line before to cursor position
     if (linesBefore.length > 0) {
@@ -208,8 +288,11 @@ export function analyzeDocument(
         linesBefore[linesBefore.length - 1] = lastLine.slice(0, cursorColumn);
     }
 
-    const textBeforeCursor = linesBefore.join('\n').slice(-1000);
-    const textAfterCursor = linesAfter.join('\n').slice(0, 1000);
+    const textBeforeCursor = budget ? linesBefore.join('\n') : cutMiddle(linesBefore.join('\n'), MAX_CHARS_BEFORE);
+    const textAfterCursor = budget ? linesAfter.join('\n') : linesAfter.join('\n').slice(0, MAX_CHARS_AFTER);
+    const nextSectionStart = budget
+        ? section.nextSection
+        : section.nextSection.split('\n').slice(0, MAX_NEXT_SECTION_LINES).join('\n').slice(0, MAX_NEXT_SECTION_CHARS);
 
     // Get preceding structure nodes
     const precedingStructure = structure.filter(n => n.line <= cursorLine);
@@ -219,9 +302,18 @@ export function analyzeDocument(
         currentSection: findCurrentSection(structure, cursorLine),
         cursorPosition: detectCursorPosition(lines, cursorLine, structure),
         precedingStructure,
+        outline,
+        outlinePath: findOutlinePath(outline, cursorLine),
+        siblingPattern: findSiblingPattern(outline, cursorLine),
+        headingPath: section.headingPath,
+        siblingSections: section.siblings,
+        nextSectionStart,
+        documentSettings: readDocumentSettings(structure),
+        directives: findDirectives(document, cursorLine),
         currentDepth: calculateDepth(structure, cursorLine),
         textBeforeCursor,
         textAfterCursor,
         currentLine: lines[cursorLine] ?? '',
+        budget,
     };
 }
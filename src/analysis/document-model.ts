@@ -0,0 +1,177 @@
+/**
+ * Incrementally parsed document
+ * Keeps the lines and structure of a document and applies edits to them,
+ * re-parsing only the top-level blocks around each edit.
+ */
+
+import { ParsedDocument, StructureNode } from './document-context';
+import { BlockRange, parseMarkdown, parseMarkdownRange } from './markdown';
+import { OutlineNode, buildOutline } from './outline';
+
+/**
+ * Line and character in a document, both 0-indexed
+ */
+export interface LinePosition {
+    line: number;
+    character: number;
+}
+
+/**
+ * Replacement of a range of text; shaped like an editor content change
+ */
+export interface TextChange {
+    range: { start: LinePosition; end: LinePosition };
+    text: string;
+}
+
+/**
+ * Lines from start up to, not including, end
+ */
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Top-level blocks that can take in lines after a blank line
+ */
+const CONTINUING_BLOCKS = new Set(['bullet_list_open', 'ordered_list_open', 'code_block']);
+
+export class DocumentModel implements ParsedDocument {
+    private _lines: string[] = [];
+    private _structure: StructureNode[] = [];
+    private blocks: BlockRange[] = [];
+    private _outline: OutlineNode[] | null = null;
+    private _lastParsed: LineRange = { start: 0, end: 0 };
+
+    constructor(text: string) {
+        this.reset(text);
+    }
+
+    get lines(): string[] {
+        return this._lines;
+    }
+
+    get text(): string {
+        return this._lines.join('\n');
+    }
+
+    get structure(): StructureNode[] {
+        return this._structure;
+    }
+
+    /**
+     * Lines parsed for the last change, or all of them after a full parse
+     */
+    get lastParsed(): LineRange {
+        return this._lastParsed;
+    }
+
+    /**
+     * Outline tree, built on first use after each change
+     */
+    get outline(): OutlineNode[] {
+        this._outline ??= buildOutline(this._structure, this._lines.length);
+        return this._outline;
+    }
+
+    /**
+     * Replace the whole text and parse it again
+     */
+    reset(text: string): void {
+        this._lines = text.split('\n');
+        this.parseAll();
+    }
+
+    /**
+     * Apply an edit. Changes from one editor event are applied in the order given.
+     */
+    applyChange(change: TextChange): void {
+        const { start, end } = change.range;
+        const head = this._lines[start.line].slice(0, start.character);
+        const tail = this._lines[end.line].slice(end.character);
+        const inserted = (head + change.text + tail).split('\n');
+        const removed = end.line - start.line + 1;
+
+        this._lines.splice(start.line, removed, ...inserted);
+        this.reparse(start.line, end.line, inserted.length - removed);
+    }
+
+    private parseAll(): void {
+        const parsed = parseMarkdown(this._lines);
+        this._structure = parsed.nodes;
+        this.blocks = parsed.blocks;
+        this._outline = null;
+        this._lastParsed = { start: 0, end: this._lines.length };
+    }
+
+    /**
+     * Re-parse after old lines [first, last] were replaced, shifting later
+     * lines by delta. The parsed range runs from the block before the edit to
+     * the block after it; when that last block no longer parses the same, the
+     * edit reached further (say, an opened code fence) and the whole document
+     * is parsed again.
+     */
+    private reparse(first: number, last: number, delta: number): void {
+        const frontmatter = this._structure[0]?.type === 'frontmatter' ? this._structure[0] : null;
+        const bodyStart = frontmatter ? frontmatter.endLine + 1 : 0;
+        // Edits near the start may open or close frontmatter, and so may any
+        // edit while a `---` first line still waits for its closing line
+        if (first <= bodyStart || (!frontmatter && this._lines[0].trimEnd() === '---')) {
+            this.parseAll();
+            return;
+        }
+
+        const blocks = this.blocks;
+        let before = findLastIndex(blocks, b => b.line < first);
+        // Take in blocks the edited lines could join: directly adjacent ones,
+        // and lists and indented code, which continue past blank lines
+        while (before > 0 && (blocks[before - 1].end === blocks[before].line || CONTINUING_BLOCKS.has(blocks[before - 1].type))) {
+            before--;
+        }
+        let after = blocks.findIndex(b => b.line > last);
+        if (after === -1) {
+            after = blocks.length;
+        }
+
+        const start = before >= 0 ? blocks[before].line : bodyStart;
+        const oldEnd = after < blocks.length ? blocks[after].end : this._lines.length - delta;
+        const parsed = parseMarkdownRange(this._lines, start, oldEnd + delta);
+
+        if (after < blocks.length) {
+            const lastBlock = parsed.blocks[parsed.blocks.length - 1];
+            if (!lastBlock || lastBlock.line !== blocks[after].line + delta || lastBlock.end !== oldEnd + delta) {
+                this.parseAll();
+                return;
+            }
+        }
+
+        const shift = <T extends { line: number }>(item: T, extra: Partial<T>): T =>
+            ({ ...item, line: item.line + delta, ...extra });
+        const firstBlock = Math.max(before, 0);
+        this.blocks = [
+            ...blocks.slice(0, firstBlock),
+            ...parsed.blocks,
+            ...blocks.slice(after + 1).map(b => shift(b, { end: b.end + delta })),
+        ];
+        this._structure = [
+            ...this._structure.filter(n => n.line < start),
+            ...parsed.nodes,
+            ...this._structure.filter(n => n.line >= oldEnd).map(n => shift(n, { endLine: n.endLine + delta })),
+        ];
+        this._outline = null;
+        this._lastParsed = { start, end: oldEnd + delta };
+    }
+}
+
+/**
+ * Index of the last element matching the predicate, or -1
+ */
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+    for (let i = items.length - 1; i >= 0; i--) {
+        if (predicate(items[i])) {
+            return i;
+        }
+    }
+    return -1;
+}
@@ -5,14 +5,66 @@
 export {
     DocumentContext,
     StructureNode,
+    StructureNodeType,
     CursorPosition,
+    ParsedDocument,
     analyzeDocument,
+    analyzeParsedDocument,
+    parseDocument,
     extractStructure,
     findCurrentSection,
+    findNodeAt,
     detectCursorPosition,
     calculateDepth,
 } from './document-context';
 
+export {
+    DocumentModel,
+    LinePosition,
+    LineRange,
+    TextChange,
+} from './document-model';
+
+export {
+    OutlineNode,
+    PatternChild,
+    SiblingPattern,
+    buildOutline,
+    findOutlinePath,
+    flattenOutline,
+    findSiblingPattern,
+    inferSiblingPattern,
+    renderStructureNode,
+    scaffoldSibling,
+} from './outline';
+
+export {
+    SectionSummary,
+    CursorSection,
+    findCursorSection,
+    summarizeSection,
+} from './sections';
+
+export {
+    DocumentSettings,
+    parseDocumentSettings,
+    readDocumentSettings,
+    readDocumentSettingsFromText,
+    findDirectives,
+} from './directives';
+
+export {
+    Tokenizer,
+    BudgetPart,
+    ContextBudget,
+    DEFAULT_CONTEXT_TOKENS,
+    OMISSION,
+    heuristicTokenizer,
+    registerTokenizer,
+    tokenizerForModel,
+    contextBudgetFromSettings,
+} from './context-budget';
+
 export {
     PositionInfo,
     analyzePosition,
@@ -0,0 +1,225 @@
+/**
+ * Markdown parsing into structure nodes
+ * CommonMark with GFM tables and task lists, plus YAML frontmatter. Ranges of
+ * lines can be parsed on their own, so edited blocks are re-parsed alone.
+ */
+
+import MarkdownIt from 'markdown-it';
+import type { StructureNode } from './document-context';
+
+/**
+ * Lines of a top-level block: first line and the line after the last
+ */
+export interface BlockRange {
+    line: number;
+    end: number;
+    /** Token type opening the block, e.g. 'paragraph_open' or 'fence' */
+    type: string;
+}
+
+/**
+ * Structure nodes of parsed lines with the top-level blocks they came from
+ */
+export interface MarkdownParse {
+    nodes: StructureNode[];
+    /** Top-level blocks in document order, without the frontmatter */
+    blocks: BlockRange[];
+}
+
+/**
+ * GFM task list marker at the start of a list item
+ */
+const TASK_MARKER = /^\[([ xX])\](?:\s+|$)/;
+
+const EMPTY_LINE = /^\s*$/;
+
+/**
+ * CommonMark parser with GFM tables
+ */
+const markdown = new MarkdownIt('commonmark').enable('table');
+
+/**
+ * Find the YAML frontmatter block: a `---` first line up to the closing
+ * `---` or `...` line
+ */
+export function findFrontmatter(lines: string[]): StructureNode | null {
+    if (lines[0]?.trimEnd() !== '---') {
+        return null;
+    }
+
+    for (let i = 1; i < lines.length; i++) {
+        const line = lines[i].trimEnd();
+        if (line === '---' || line === '...') {
+            return {
+                type: 'frontmatter',
+                level: 0,
+                content: lines.slice(1, i).join('\n'),
+                line: 0,
+                endLine: i,
+            };
+        }
+    }
+    return null;
+}
+
+/**
+ * Index of the token closing the block opened at the given index
+ */
+function findClose(tokens: MarkdownIt.Token[], open: number): number {
+    let depth = 0;
+    for (let i = open; i < tokens.length; i++) {
+        depth += tokens[i].nesting;
+        if (depth === 0) {
+            return i;
+        }
+    }
+    return tokens.length - 1;
+}
+
+/**
+ * Parse the whole document
+ */
+export function parseMarkdown(lines: string[]): MarkdownParse {
+    const frontmatter = findFrontmatter(lines);
+    if (!frontmatter) {
+        return parseMarkdownRange(lines, 0, lines.length);
+    }
+
+    // Frontmatter is not markdown; only the lines after it are parsed
+    const parsed = parseMarkdownRange(lines, frontmatter.endLine + 1, lines.length);
+    return { nodes: [frontmatter, ...parsed.nodes], blocks: parsed.blocks };
+}
+
+/**
+ * Parse lines [start, end) as a document of their own. Line numbers in the
+ * result are those of the full document.
+ */
+export function parseMarkdownRange(lines: string[], start: number, end: number): MarkdownParse {
+    const tokens = markdown.parse(lines.slice(start, end).join('\n'), {});
+    const nodes: StructureNode[] = [];
+    const blocks: BlockRange[] = [];
+    // Open list items, innermost last
+    const items: StructureNode[] = [];
+    let listDepth = 0;
+
+    // Line range of a block token without trailing empty lines
+    const tokenLines = (token: MarkdownIt.Token) => {
+        const line = token.map![0] + start;
+        let endLine = token.map![1] + start - 1;
+        while (endLine > line && EMPTY_LINE.test(lines[endLine])) {
+            endLine--;
+        }
+        return { line, endLine };
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+
+        if (token.level === 0 && token.nesting !== -1 && token.map) {
+            blocks.push({ line: token.map[0] + start, end: token.map[1] + start, type: token.type });
+        }
+
+        switch (token.type) {
+            case 'heading_open':
+                nodes.push({
+                    type: 'header',
+                    level: Number(token.tag.slice(1)),
+                    content: tokens[i + 1].content,
+                    ...tokenLines(token),
+                });
+                i = findClose(tokens, i);
+                break;
+
+            case 'bullet_list_open':
+            case 'ordered_list_open':
+                listDepth++;
+                break;
+
+            case 'bullet_list_close':
+            case 'ordered_list_close':
+                listDepth--;
+                break;
+
+            case 'list_item_open': {
+                const node: StructureNode = {
+                    type: token.markup === '.' || token.markup === ')' ? 'numbered' : 'bullet',
+                    level: listDepth,
+                    content: '',
+                    ...tokenLines(token),
+                };
+                nodes.push(node);
+                items.push(node);
+                break;
+            }
+
+            case 'list_item_close':
+                items.pop();
+                break;
+
+            case 'paragraph_open': {
+                const content = tokens[i + 1].content;
+
+                // The first paragraph of a list item is the item's own text
+                if (tokens[i - 1]?.type === 'list_item_open') {
+                    const item = items[items.length - 1];
+                    const task = content.match(TASK_MARKER);
+                    if (task) {
+                        item.type = 'task';
+                        item.checked = task[1] !== ' ';
+                        item.content = content.slice(task[0].length);
+                    } else {
+                        item.content = content;
+                    }
+                } else {
+                    nodes.push({ type: 'paragraph', level: 0, content, ...tokenLines(token) });
+                }
+                i = findClose(tokens, i);
+                break;
+            }
+
+            case 'blockquote_open': {
+                // Quotes are kept whole; headers and lists inside them are not document structure
+                const range = tokenLines(token);
+                nodes.push({
+                    type: 'blockquote',
+                    level: 0,
+                    content: lines
+                        .slice(range.line, range.endLine + 1)
+                        .map(line => line.replace(/^\s*>\s?/, ''))
+                        .join('\n')
+                        .trim(),
+                    ...range,
+                });
+                i = findClose(tokens, i);
+                break;
+            }
+
+            case 'table_open': {
+                const header = tokens
+                    .slice(i, findClose(tokens, i))
+                    .filter((t, j, all) => t.type === 'inline' && all[j - 1]?.type === 'th_open')
+                    .map(t => t.content);
+                nodes.push({ type: 'table', level: 0, content: header.join(' | '), ...tokenLines(token) });
+                i = findClose(tokens, i);
+                break;
+            }
+
+            case 'fence':
+            case 'code_block':
+                nodes.push({
+                    type: 'code',
+                    level: 0,
+                    content: token.content.replace(/\n$/, ''),
+                    ...tokenLines(token),
+                    ...(token.info.trim() ? { language: token.info.trim() } : {}),
+                });
+                break;
+
+            case 'html_block':
+                nodes.push({ type: 'paragraph', level: 0, content: token.content.trim(), ...tokenLines(token) });
+                break;
+        }
+    }
+
+    return { nodes, blocks };
+}
@@ -0,0 +1,272 @@
+/**
+ * Outline tree of a document
+ * Nests headers and list items into a hierarchy, finds where the cursor
+ * sits in it, and infers the shape shared by sibling sections.
+ */
+
+import { StructureNode, StructureNodeType } from './document-context';
+
+/**
+ * A header or list item with everything nested under it
+ */
+export interface OutlineNode {
+    node: StructureNode;
+    parent: OutlineNode | null;
+    children: OutlineNode[];
+    /** First line of the section (0-indexed) */
+    startLine: number;
+    /** Last line of the section, inclusive: up to the next header of the same or a higher level */
+    endLine: number;
+}
+
+/**
+ * Child element most siblings share
+ */
+export interface PatternChild {
+    type: StructureNodeType;
+    level: number;
+    /** Shared text, e.g. "Pros:" for children written "Pros: fast" */
+    label: string;
+}
+
+/**
+ * Shape shared by the siblings of an outline node, e.g. the "### Option A/B/C"
+ * children of "## Options", each with Pros/Cons/Cost bullets
+ */
+export interface SiblingPattern {
+    /** Siblings the pattern was inferred from, in document order */
+    siblings: OutlineNode[];
+    /** Text of the next sibling when the existing ones count up, e.g. "Option C" */
+    nextLabel: string | null;
+    /** Children most siblings have, in order */
+    children: PatternChild[];
+}
+
+/**
+ * Whether a node is a list item
+ */
+function isListItem(node: StructureNode): boolean {
+    return node.type === 'bullet' || node.type === 'numbered' || node.type === 'task';
+}
+
+/**
+ * Nest headers and list items into a tree. Headers contain everything up to
+ * the next header of the same or a higher level; list items nest by depth
+ * under the header they appear in.
+ */
+export function buildOutline(structure: StructureNode[], lineCount: number): OutlineNode[] {
+    const roots: OutlineNode[] = [];
+    // Nodes that can still take children, innermost last
+    const open: OutlineNode[] = [];
+
+    for (const node of structure) {
+        if (node.type === 'header') {
+            while (open.length > 0) {
+                const top = open[open.length - 1];
+                if (top.node.type === 'header' && top.node.level < node.level) break;
+                if (top.node.type === 'header') {
+                    top.endLine = node.line - 1;
+                }
+                open.pop();
+            }
+        } else if (isListItem(node)) {
+            while (open.length > 0) {
+                const top = open[open.length - 1];
+                if (top.node.type === 'header') break;
+                // Still inside a less nested item of the same list
+                if (top.node.level < node.level && top.endLine >= node.line) break;
+                open.pop();
+            }
+        } else {
+            continue;
+        }
+
+        const parent = open[open.length - 1] ?? null;
+        const outlineNode: OutlineNode = {
+            node,
+            parent,
+            children: [],
+            startLine: node.line,
+            endLine: node.type === 'header' ? lineCount - 1 : node.endLine,
+        };
+        (parent ? parent.children : roots).push(outlineNode);
+        open.push(outlineNode);
+    }
+
+    return roots;
+}
+
+/**
+ * Outline nodes containing a line, from the top level down
+ */
+export function findOutlinePath(outline: OutlineNode[], line: number): OutlineNode[] {
+    const path: OutlineNode[] = [];
+    let level = outline;
+
+    for (;;) {
+        const containing = level.find(n => n.startLine <= line && n.endLine >= line);
+        if (!containing) {
+            return path;
+        }
+        path.push(containing);
+        level = containing.children;
+    }
+}
+
+/**
+ * All outline nodes in document order
+ */
+export function flattenOutline(outline: OutlineNode[]): OutlineNode[] {
+    return outline.flatMap(n => [n, ...flattenOutline(n.children)]);
+}
+
+/**
+ * Render a structure node as markdown
+ */
+export function renderStructureNode(node: StructureNode): string {
+    const indent = '  '.repeat(Math.max(0, node.level - 1));
+    switch (node.type) {
+        case 'header':
+            return '#'.repeat(node.level) + ' ' + node.content;
+        case 'bullet':
+            return indent + '- ' + node.content;
+        case 'numbered':
+            return indent + '1. ' + node.content;
+        case 'task':
+            return indent + (node.checked ? '- [x] ' : '- [ ] ') + node.content;
+        case 'blockquote':
+            return node.content.split('\n').map(line => '> ' + line).join('\n');
+        case 'table':
+            return `| ${node.content} |`;
+        case 'code':
+            return '```' + (node.language ?? '') + '\n' + node.content + '\n```';
+        default:
+            return node.content;
+    }
+}
+
+/**
+ * Part of a child's text shared across siblings: the label before a colon,
+ * or the whole text
+ */
+function childLabel(content: string): string {
+    const colon = content.indexOf(':');
+    return colon === -1 ? content.trim() : content.slice(0, colon + 1).trim();
+}
+
+/**
+ * Step a sequence marker: "B" -> "C", "2" -> "3"; null when there is no next one
+ */
+function nextMarker(marker: string): string | null {
+    if (/^\d+$/.test(marker)) {
+        return String(Number(marker) + 1);
+    }
+    if (/^[a-y]$/i.test(marker)) {
+        return String.fromCharCode(marker.charCodeAt(0) + 1);
+    }
+    return null;
+}
+
+/**
+ * Next label when sibling texts count up after a shared prefix,
+ * e.g. "Option A", "Option B" -> "Option C", or "Step 1: Research", "Step 2: Design" -> "Step 3"
+ */
+function inferNextLabel(contents: string[]): string | null {
+    const markers = contents.map(content => content.match(/^(.*?)(?<![A-Za-z\d])(\d+|[A-Za-z])(?![A-Za-z\d])/));
+    if (markers.some(m => !m)) {
+        return null;
+    }
+
+    const prefix = markers[0]![1];
+    if (markers.some(m => m![1] !== prefix)) {
+        return null;
+    }
+    for (let i = 1; i < markers.length; i++) {
+        if (nextMarker(markers[i - 1]![2]) !== markers[i]![2]) {
+            return null;
+        }
+    }
+
+    const next = nextMarker(markers[markers.length - 1]![2]);
+    return next === null ? null : prefix + next;
+}
+
+/**
+ * Infer the shape shared by siblings: how their texts count up and which
+ * children more than half of them have. Needs at least two siblings.
+ */
+export function inferSiblingPattern(siblings: OutlineNode[]): SiblingPattern | null {
+    if (siblings.length < 2) {
+        return null;
+    }
+
+    // Count each child shape once per sibling, keeping first-seen order
+    const counts = new Map<string, { child: PatternChild; count: number }>();
+    for (const sibling of siblings) {
+        const seen = new Set<string>();
+        for (const { node } of sibling.children) {
+            const child: PatternChild = { type: node.type, level: node.level, label: childLabel(node.content) };
+            const key = `${child.type}:${child.level}:${child.label}`;
+            if (!child.label || seen.has(key)) continue;
+            seen.add(key);
+            const entry = counts.get(key) ?? { child, count: 0 };
+            entry.count++;
+            counts.set(key, entry);
+        }
+    }
+
+    const children = [...counts.values()]
+        .filter(entry => entry.count * 2 > siblings.length)
+        .map(entry => entry.child);
+    const nextLabel = inferNextLabel(siblings.map(s => s.node.content));
+
+    if (!nextLabel && children.length === 0) {
+        return null;
+    }
+    return { siblings, nextLabel, children };
+}
+
+/**
+ * Pattern of the innermost outline node around a line whose siblings share
+ * a shape
+ */
+export function findSiblingPattern(outline: OutlineNode[], line: number): SiblingPattern | null {
+    const path = findOutlinePath(outline, line);
+
+    for (let i = path.length - 1; i >= 0; i--) {
+        const { node, parent } = path[i];
+        const siblings = (parent ? parent.children : outline)
+            .filter(s => s.node.type === node.type && s.node.level === node.level);
+        const pattern = inferSiblingPattern(siblings);
+        if (pattern) {
+            return pattern;
+        }
+    }
+    return null;
+}
+
+/**
+ * Markdown for a new sibling following the pattern, without calling a model
+ */
+export function scaffoldSibling(pattern: SiblingPattern): string {
+    const last = pattern.siblings[pattern.siblings.length - 1].node;
+    const lines = [renderStructureNode({ ...last, content: pattern.nextLabel ?? '', checked: false })];
+
+    for (const child of pattern.children) {
+        const node: StructureNode = {
+            type: child.type,
+            level: child.level,
+            content: child.label,
+            line: 0,
+            endLine: 0,
+            checked: false,
+        };
+        // Headers read better with a blank line before them
+        if (child.type === 'header') {
+            lines.push('');
+        }
+        lines.push(renderStructureNode(node));
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,131 @@
+/**
+ * Sections around the cursor
+ * Finds the section the cursor is in, summarizes its sibling sections and
+ * takes the start of the next one, so prompts follow section boundaries
+ * instead of a fixed window of lines.
+ */
+
+import type { ParsedDocument, StructureNode } from './document-context';
+import { OutlineNode, findOutlinePath, renderStructureNode } from './outline';
+
+/**
+ * One-line summary of a section
+ */
+export interface SectionSummary {
+    /** Header as written in markdown, e.g. "## Risks" */
+    heading: string;
+    /** First sentence of the section body, shortened; empty when the body is empty */
+    summary: string;
+    /** Line of the header (0-indexed) */
+    line: number;
+}
+
+/**
+ * Section containing the cursor and its surroundings
+ */
+export interface CursorSection {
+    /** Headers containing the cursor, from the top level down */
+    headingPath: string[];
+    /** First line of the current section: its header, or the document start */
+    startLine: number;
+    /** Last line of the section body, before the next header of any level */
+    endLine: number;
+    /** Sections under the same parent as the current one, in document order */
+    siblings: SectionSummary[];
+    /** Header and body of the section after the current one; empty at the end of the document */
+    nextSection: string;
+}
+
+/**
+ * Longest summary of a sibling section, in characters
+ */
+const MAX_SUMMARY_LENGTH = 100;
+
+/**
+ * Index of the first structure node starting after a line
+ */
+function firstNodeAfter(structure: StructureNode[], line: number): number {
+    let low = 0;
+    let high = structure.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (structure[mid].line <= line) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+}
+
+/**
+ * First header starting after a line
+ */
+function nextHeader(structure: StructureNode[], line: number): StructureNode | null {
+    for (let i = firstNodeAfter(structure, line); i < structure.length; i++) {
+        if (structure[i].type === 'header') {
+            return structure[i];
+        }
+    }
+    return null;
+}
+
+/**
+ * First sentence of text on one line, cut to the summary length
+ */
+function firstSentence(text: string): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    const sentence = flat.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? flat;
+    return sentence.length > MAX_SUMMARY_LENGTH
+        ? sentence.slice(0, MAX_SUMMARY_LENGTH - 1).trimEnd() + '…'
+        : sentence;
+}
+
+/**
+ * Summarize a section by the first block of its body, skipping comments
+ */
+export function summarizeSection(structure: StructureNode[], section: OutlineNode): SectionSummary {
+    let index = firstNodeAfter(structure, section.node.endLine);
+    while (structure[index]?.content.startsWith('<!--')) {
+        index++;
+    }
+    const first = structure[index];
+    const summary = first && first.type !== 'header' && first.type !== 'code' && first.line <= section.endLine
+        ? firstSentence(first.content)
+        : '';
+
+    return { heading: renderStructureNode(section.node), summary, line: section.node.line };
+}
+
+/**
+ * Find the section containing a line. Before the first header the section
+ * is the start of the document, which has no siblings.
+ */
+export function findCursorSection(document: ParsedDocument, cursorLine: number): CursorSection {
+    const { lines, structure, outline } = document;
+    const headers = findOutlinePath(outline, cursorLine).filter(n => n.node.type === 'header');
+    const current = headers[headers.length - 1] ?? null;
+
+    const next = nextHeader(structure, cursorLine);
+    const endLine = next ? next.line - 1 : lines.length - 1;
+
+    let nextSection = '';
+    if (next) {
+        const following = nextHeader(structure, next.endLine);
+        nextSection = lines.slice(next.line, following ? following.line : lines.length).join('\n').trimEnd();
+    }
+
+    const siblings = current
+        ? (current.parent?.children ?? outline)
+            .filter(n => n !== current && n.node.type === 'header')
+            .map(n => summarizeSection(structure, n))
+        : [];
+
+    return {
+        headingPath: headers.map(n => n.node.content),
+        startLine: current ? current.startLine : 0,
+        endLine,
+        siblings,
+        nextSection,
+    };
+}
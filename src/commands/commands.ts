@@ -3,90 +3,264 @@
  */
 
 import * as vscode from 'vscode';
-import { LLMProvider, DocumentType } from '../llm/types';
-import { analyzeDocument } from '../analysis/document-context';
+import { DocumentType, ProviderProfile, CacheMode } from '../llm/types';
+import { TaskRouter } from '../llm/task-router';
+import { createProvider, providerConfigFromSettings } from '../llm/provider-factory';
+import { ResponseCache } from '../llm/response-cache';
+import { UsageLedger, UsageTotals, SpendingCaps, totalUsage, groupUsage, startOfDay, startOfMonth } from '../llm/usage-ledger';
+import {
+    LLMAuthError,
+    LLMRateLimitError,
+    LLMTimeoutError,
+    LLMModelNotFoundError,
+    LLMConnectionError,
+} from '../llm/errors';
+import { CursorPosition } from '../analysis/document-context';
+import { scaffoldSibling } from '../analysis/outline';
+import { ContextBudget } from '../analysis/context-budget';
+import { readDocumentSettings } from '../analysis/directives';
 import { buildPromptForMode } from '../prompts/builder';
-import { resolveDocumentType, getAllDocumentTypes } from '../prompts';
-import { getSettings, updateSetting } from '../config/settings';
+import { getAllDocumentTypes, DocumentTypeDetection } from '../prompts';
+import { getSettings, getSettingsForProfile, updateSetting, updateModel } from '../config/settings';
+import { describeProvider } from '../config/profiles';
+import { ApiKeyStore, ApiKeyTarget, describeKeyTarget, keyTargets } from '../config/secrets';
+import { abortSignalFromToken, isAbortError } from '../providers/cancellation';
+import { DocumentTypeCache } from '../providers/type-cache';
+import { DocumentAnalysisService } from '../providers/document-analysis';
+import { logger } from '../logging/logger';
+import { RequestLog } from '../logging/request-log';
 
 /**
  * Command context passed to command functions
  */
 export interface CommandContext {
-    llm: LLMProvider;
+    router: TaskRouter;
+    typeCache: DocumentTypeCache;
+    analysis: DocumentAnalysisService;
     customTypes: DocumentType[];
     activeTypeName: string;
     maxTokens: number;
+    temperature: number;
+    budget: ContextBudget;
+    apiKeys: ApiKeyStore;
+    responseCache: ResponseCache;
+    usageLedger: UsageLedger;
+    spendingCaps: SpendingCaps;
 }
 
 /**
- * Insert completion at cursor position
+ * Entry of the profile picker
  */
-async function insertCompletion(
-    editor: vscode.TextEditor,
-    completion: string
-): Promise<void> {
-    await editor.edit(editBuilder => {
-        editBuilder.insert(editor.selection.active, completion);
-    });
+interface ProfileItem extends vscode.QuickPickItem {
+    /** Profile to switch to; undefined selects the plain provider settings */
+    profile?: ProviderProfile;
+    action?: 'switch' | 'selectType' | 'editProfiles';
 }
 
 /**
- * Continue Structure command - forces structure completion mode
+ * Open the extension settings, optionally filtered to one setting
  */
-export async function continueStructureCommand(ctx: CommandContext): Promise<void> {
-    const editor = vscode.window.activeTextEditor;
-    if (!editor) {
-        vscode.window.showWarningMessage('No active editor');
-        return;
-    }
+function openSettings(setting = 'thoughtCompletion'): void {
+    vscode.commands.executeCommand('workbench.action.openSettings', setting);
+}
 
-    try {
-        const text = editor.document.getText();
-        const position = editor.selection.active;
-
-        // Resolve document type
-        const docType = await resolveDocumentType(
-            text,
-            ctx.activeTypeName,
-            ctx.customTypes,
-            ctx.llm
+/**
+ * Show an actionable message for a failed LLM request
+ */
+async function showRequestError(error: unknown, prefix = 'ThoughtCompletion error'): Promise<void> {
+    if (error instanceof LLMAuthError) {
+        const choice = await vscode.window.showErrorMessage(
+            `${error.provider} rejected the API key. Set a new key or check the key in the environment.`,
+            'Set API Key'
+        );
+        if (choice) vscode.commands.executeCommand('thoughtCompletion.setApiKey');
+    } else if (error instanceof LLMRateLimitError) {
+        const wait = error.retryAfterMs !== undefined
+            ? ` Try again in ${Math.ceil(error.retryAfterMs / 1000)} s.`
+            : ' Try again shortly.';
+        vscode.window.showWarningMessage(`${error.provider} is rate limiting requests.${wait}`);
+    } else if (error instanceof LLMTimeoutError) {
+        const setting = error.phase === 'connect' ? 'thoughtCompletion.connectTimeout' : 'thoughtCompletion.requestTimeout';
+        const what = error.phase === 'connect' ? 'accept the connection' : 'respond';
+        const choice = await vscode.window.showErrorMessage(
+            `${error.provider} did not ${what} within ${Math.round(error.timeoutMs / 1000)} s. Check that the server is running or increase the timeout.`,
+            'Open Settings'
         );
+        if (choice) openSettings(setting);
+    } else if (error instanceof LLMModelNotFoundError) {
+        const hint = error.provider === 'Ollama'
+            ? `Run "ollama pull ${error.model}" or choose another model.`
+            : 'Choose another model in settings.';
+        const choice = await vscode.window.showErrorMessage(
+            `Model "${error.model}" was not found on ${error.provider}. ${hint}`,
+            'Open Settings'
+        );
+        if (choice) openSettings();
+    } else if (error instanceof LLMConnectionError) {
+        const choice = await vscode.window.showErrorMessage(
+            `Cannot reach ${error.provider}. Check that the server is running and the base URL is correct.`,
+            'Open Settings'
+        );
+        if (choice) openSettings();
+    } else {
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`${prefix}: ${message}`);
+    }
+}
+
+/**
+ * Compute the position reached after inserting text at a given position
+ */
+function positionAfter(start: vscode.Position, text: string): vscode.Position {
+    const lines = text.split(/\r?\n/);
+    if (lines.length === 1) {
+        return new vscode.Position(start.line, start.character + text.length);
+    }
+    return new vscode.Position(start.line + lines.length - 1, lines[lines.length - 1].length);
+}
+
+/**
+ * Stream completion into the editor at the cursor position as text arrives.
+ * Leading and trailing whitespace is dropped, matching the non-streaming path,
+ * and the whole insertion is a single undo step. Returns the inserted text.
+ */
+async function streamCompletion(
+    editor: vscode.TextEditor,
+    stream: AsyncIterable<string>,
+    token: vscode.CancellationToken
+): Promise<string> {
+    let insertAt = editor.selection.active;
+    let pendingWhitespace = '';
+    let started = false;
+    let inserted = '';
+
+    for await (const delta of stream) {
+        if (token.isCancellationRequested) {
+            break;
+        }
+
+        let text = pendingWhitespace + delta;
+        if (!started) {
+            text = text.trimStart();
+        }
+
+        // Hold back trailing whitespace until more text follows it
+        const trimmed = text.trimEnd();
+        pendingWhitespace = text.slice(trimmed.length);
+        if (!trimmed) {
+            continue;
+        }
 
-        // Analyze context
-        const docContext = analyzeDocument(
-            text,
-            position.line,
-            position.character,
-            docType
+        const position = insertAt;
+        const applied = await editor.edit(
+            editBuilder => editBuilder.insert(position, trimmed),
+            { undoStopBefore: !started, undoStopAfter: false }
         );
+        if (!applied) {
+            break;
+        }
 
-        // Build structure prompt
-        const { systemPrompt, userPrompt } = buildPromptForMode(docContext, 'structure');
+        started = true;
+        inserted += trimmed;
+        insertAt = positionAfter(position, trimmed);
+    }
 
-        // Show progress
-        await vscode.window.withProgress(
-            {
-                location: vscode.ProgressLocation.Notification,
-                title: 'ThoughtCompletion',
-                cancellable: true,
-            },
-            async (progress, token) => {
-                progress.report({ message: 'Generating structure...' });
+    return inserted;
+}
+
+/**
+ * Resolve the document type, build the prompt and stream the completion
+ * into the editor under a cancellable progress notification.
+ * Pass a mode to force structure or content; otherwise it is detected from the cursor.
+ * Pass cache 'refresh' to get a fresh variant instead of a cached answer.
+ */
+async function generateAtCursor(
+    ctx: CommandContext,
+    editor: vscode.TextEditor,
+    mode?: CursorPosition,
+    cache?: CacheMode
+): Promise<void> {
+    const position = editor.selection.active;
 
-                const completion = await ctx.llm.complete(userPrompt, {
+    await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: 'ThoughtCompletion',
+            cancellable: true,
+        },
+        async (progress, token) => {
+            const abort = abortSignalFromToken(token);
+            let request: RequestLog | undefined;
+
+            try {
+                const model = ctx.analysis.get(editor.document);
+                // A model pinned in the document's frontmatter replaces the configured one
+                const router = ctx.router.forModel(readDocumentSettings(model.structure).model);
+
+                // Resolve document type
+                const docType = await ctx.typeCache.resolve(
+                    { uri: editor.document.uri.toString(), version: editor.document.version, model },
+                    ctx.activeTypeName,
+                    ctx.customTypes,
+                    router.forTask('detection', 'interactive'),
+                    abort.signal,
+                    ctx.budget
+                );
+
+                // Analyze context - this determines if we're at structure or content position
+                const docContext = ctx.analysis.analyze(editor.document, position, docType, ctx.budget);
+
+                const effectiveMode = mode ?? docContext.cursorPosition;
+                const { systemPrompt, userPrompt } = buildPromptForMode(docContext, effectiveMode);
+
+                progress.report({ message: `Generating ${effectiveMode}...` });
+
+                request = new RequestLog(effectiveMode, docType?.name ?? 'general');
+                const stream = router.forTask(effectiveMode, 'interactive').completeStream(userPrompt, request.track({
                     systemPrompt,
                     maxTokens: ctx.maxTokens,
-                    temperature: 0.7,
-                });
-
-                if (!token.isCancellationRequested && completion) {
-                    await insertCompletion(editor, completion);
+                    maxRetryTokens: ctx.budget.outputRoom(systemPrompt, userPrompt),
+                    temperature: docContext.documentSettings.temperature ?? ctx.temperature,
+                    cache,
+                    task: effectiveMode,
+                    signal: abort.signal,
+                    onReasoning: reasoning => logger.trace(`[ThoughtCompletion] [${request?.id}] Model reasoning: ${reasoning}`),
+                }));
+
+                const inserted = await streamCompletion(editor, stream, token);
+                if (token.isCancellationRequested) {
+                    request.fail(undefined, abort.signal);
+                } else {
+                    request.succeed(inserted);
+                }
+            } catch (error) {
+                request?.fail(error, abort.signal);
+                // Cancelled from the progress notification - keep whatever was inserted
+                if (isAbortError(error) || token.isCancellationRequested) {
+                    return;
                 }
+                throw error;
+            } finally {
+                abort.dispose();
             }
-        );
+        }
+    );
+}
+
+/**
+ * Continue Structure command - forces structure completion mode
+ */
+export async function continueStructureCommand(ctx: CommandContext): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showWarningMessage('No active editor');
+        return;
+    }
+
+    try {
+        await generateAtCursor(ctx, editor, 'structure');
     } catch (error) {
-        vscode.window.showErrorMessage(`ThoughtCompletion error: ${error}`);
+        showRequestError(error);
     }
 }
 
@@ -101,52 +275,67 @@ export async function fillBlankCommand(ctx: CommandContext): Promise<void> {
     }
 
     try {
-        const text = editor.document.getText();
-        const position = editor.selection.active;
-
-        // Resolve document type
-        const docType = await resolveDocumentType(
-            text,
-            ctx.activeTypeName,
-            ctx.customTypes,
-            ctx.llm
-        );
-
-        // Analyze context
-        const docContext = analyzeDocument(
-            text,
-            position.line,
-            position.character,
-            docType
-        );
+        await generateAtCursor(ctx, editor, 'content');
+    } catch (error) {
+        showRequestError(error);
+    }
+}
 
-        // Build content prompt
-        const { systemPrompt, userPrompt } = buildPromptForMode(docContext, 'content');
+/**
+ * Scaffold Sibling command - inserts the next sibling after the last one
+ * in the shape its siblings share, without calling a model
+ */
+export async function scaffoldSiblingCommand(ctx: CommandContext): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showWarningMessage('No active editor');
+        return;
+    }
 
-        // Show progress
-        await vscode.window.withProgress(
-            {
-                location: vscode.ProgressLocation.Notification,
-                title: 'ThoughtCompletion',
-                cancellable: true,
-            },
-            async (progress, token) => {
-                progress.report({ message: 'Generating content...' });
+    const document = editor.document;
+    const cursor = editor.selection.active;
+    const pattern = ctx.analysis.analyze(document, cursor, null).siblingPattern;
+    if (!pattern) {
+        vscode.window.showInformationMessage('No repeating sibling shape found around the cursor');
+        return;
+    }
 
-                const completion = await ctx.llm.complete(userPrompt, {
-                    systemPrompt,
-                    maxTokens: ctx.maxTokens,
-                    temperature: 0.7,
-                });
+    // Insert after the last sibling, before any blank lines ending its section
+    const last = pattern.siblings[pattern.siblings.length - 1];
+    let endLine = last.endLine;
+    while (endLine > last.startLine && !document.lineAt(endLine).text.trim()) {
+        endLine--;
+    }
+    const position = new vscode.Position(endLine, document.lineAt(endLine).text.length);
+    const separator = last.node.type === 'header' ? '\n\n' : '\n';
+    const scaffold = scaffoldSibling(pattern);
+
+    const applied = await editor.edit(editBuilder => editBuilder.insert(position, separator + scaffold));
+    if (applied) {
+        // Leave the cursor at the end of the new sibling's first line
+        const firstLine = scaffold.split('\n')[0];
+        const end = new vscode.Position(endLine + separator.length, firstLine.length);
+        editor.selection = new vscode.Selection(end, end);
+    }
+}
 
-                if (!token.isCancellationRequested && completion) {
-                    await insertCompletion(editor, completion);
-                }
-            }
-        );
-    } catch (error) {
-        vscode.window.showErrorMessage(`ThoughtCompletion error: ${error}`);
+/**
+ * Message for a detection result, with the model's confidence and reason when given
+ */
+function describeDetection(detection: DocumentTypeDetection): string {
+    const confidence = detection.confidence === undefined
+        ? ''
+        : ` (${Math.round(detection.confidence * 100)}% confidence)`;
+    const reason = detection.reason ? ` - ${detection.reason}` : '';
+
+    if (detection.type) {
+        return `Detected document type: ${detection.type.name}${confidence}${reason}`;
+    }
+    if (detection.candidate !== 'general') {
+        // The model named a type but was not sure enough of it
+        return `Document type: general (model suggested ${detection.candidate}${confidence}, below the threshold)${reason}`;
     }
+    return `Document type: general${confidence}${reason}`;
 }
 
 /**
@@ -160,31 +349,43 @@ export async function detectTypeCommand(ctx: CommandContext): Promise<void> {
     }
 
     try {
-        const text = editor.document.getText();
-
-        const docType = await vscode.window.withProgress(
+        const document = {
+            uri: editor.document.uri.toString(),
+            version: editor.document.version,
+            model: ctx.analysis.get(editor.document),
+        };
+        // Detect with the same model as completions of this document
+        const router = ctx.router.forModel(readDocumentSettings(document.model.structure).model);
+
+        const detection = await vscode.window.withProgress(
             {
                 location: vscode.ProgressLocation.Notification,
                 title: 'ThoughtCompletion',
-                cancellable: false,
+                cancellable: true,
             },
-            async progress => {
+            async (progress, token) => {
                 progress.report({ message: 'Detecting document type...' });
-                return resolveDocumentType(text, 'auto', ctx.customTypes, ctx.llm);
+                const abort = abortSignalFromToken(token);
+                try {
+                    return await ctx.typeCache.detect(
+                        document,
+                        ctx.customTypes,
+                        router.forTask('detection', 'interactive'),
+                        abort.signal,
+                        ctx.budget
+                    );
+                } finally {
+                    abort.dispose();
+                }
             }
         );
 
-        if (docType) {
-            vscode.window.showInformationMessage(
-                `Detected document type: ${docType.name}`
-            );
-        } else {
-            vscode.window.showInformationMessage(
-                'Document type: general (no specific type detected)'
-            );
-        }
+        vscode.window.showInformationMessage(describeDetection(detection));
     } catch (error) {
-        vscode.window.showErrorMessage(`Detection error: ${error}`);
+        if (isAbortError(error)) {
+            return;
+        }
+        showRequestError(error, 'Detection error');
     }
 }
 
@@ -217,6 +418,264 @@ export async function selectTypeCommand(ctx: CommandContext): Promise<void> {
     }
 }
 
+/**
+ * Build a picker entry for a profile (or the plain provider settings), checking availability
+ */
+async function describeProfile(
+    ctx: CommandContext,
+    profile: ProviderProfile | undefined,
+    activeProfile: string
+): Promise<ProfileItem> {
+    const settings = getSettingsForProfile(profile);
+    const llm = createProvider(providerConfigFromSettings(settings, ctx.apiKeys));
+    const available = await llm.isAvailable();
+    const isActive = (profile?.name ?? '') === activeProfile;
+    const model = settings[settings.provider].model;
+
+    return {
+        label: `${available ? '$(pass)' : '$(error)'} ${profile ? profile.name : 'Provider settings'}`,
+        description: `${settings.provider} · ${model}${isActive ? ' · active' : ''}`,
+        detail: available ? undefined : 'Not available',
+        profile,
+        action: 'switch',
+    };
+}
+
+/**
+ * Let the user pick a model from those the profile's server reports
+ */
+async function pickModel(ctx: CommandContext, profile: ProviderProfile | undefined): Promise<string | undefined> {
+    const settings = getSettingsForProfile(profile);
+    const current = settings[settings.provider].model;
+    const llm = createProvider(providerConfigFromSettings(settings, ctx.apiKeys));
+    const models = llm.listModels ? await llm.listModels() : [];
+
+    // Nothing to choose from - keep the configured model
+    if (models.length === 0) {
+        return current;
+    }
+
+    const items: vscode.QuickPickItem[] = [current, ...models.filter(m => m !== current)]
+        .map(model => ({ label: model, description: model === current ? 'current' : undefined }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: `Model for ${profile?.name ?? describeProvider(settings)}`,
+    });
+    return selected?.label;
+}
+
+/**
+ * Switch Profile command - lists provider profiles with their availability
+ * and switches the active profile and model
+ */
+export async function switchProfileCommand(ctx: CommandContext): Promise<void> {
+    const settings = getSettings();
+
+    const loadItems = async (): Promise<ProfileItem[]> => {
+        const entries = await Promise.all([
+            describeProfile(ctx, undefined, settings.activeProfile),
+            ...settings.profiles.map(profile => describeProfile(ctx, profile, settings.activeProfile)),
+        ]);
+        return [
+            ...entries,
+            { label: '', kind: vscode.QuickPickItemKind.Separator },
+            { label: '$(symbol-class) Select Document Type...', action: 'selectType' },
+            { label: '$(gear) Edit Profiles...', action: 'editProfiles' },
+        ];
+    };
+
+    const selected = await vscode.window.showQuickPick(loadItems(), {
+        placeHolder: 'Switch provider profile (checking availability...)',
+    });
+
+    if (!selected) {
+        return;
+    }
+    if (selected.action === 'selectType') {
+        await selectTypeCommand(ctx);
+        return;
+    }
+    if (selected.action === 'editProfiles') {
+        openSettings('thoughtCompletion.profiles');
+        return;
+    }
+
+    const model = await pickModel(ctx, selected.profile);
+    if (!model) {
+        return;
+    }
+
+    const target = getSettingsForProfile(selected.profile);
+    if (model !== target[target.provider].model) {
+        await updateModel(model, selected.profile?.name);
+    }
+    await updateSetting('activeProfile', selected.profile?.name ?? '');
+
+    vscode.window.showInformationMessage(
+        `Switched to ${selected.profile?.name ?? target.provider} (${model})`
+    );
+}
+
+/**
+ * Let the user pick a provider or profile to store a key for
+ */
+async function pickKeyTarget(ctx: CommandContext, targets: ApiKeyTarget[], placeHolder: string): Promise<ApiKeyTarget | undefined> {
+    const items = targets.map(target => ({
+        label: describeKeyTarget(target),
+        description: ctx.apiKeys.has(target) ? 'stored' : undefined,
+        target,
+    }));
+    const selected = await vscode.window.showQuickPick(items, { placeHolder });
+    return selected?.target;
+}
+
+/**
+ * Set API Key command - stores a key for a provider or profile in secret storage
+ */
+export async function setApiKeyCommand(ctx: CommandContext): Promise<void> {
+    const target = await pickKeyTarget(ctx, keyTargets(getSettings()), 'Set API key for');
+    if (!target) {
+        return;
+    }
+
+    const value = await vscode.window.showInputBox({
+        prompt: `API key for ${describeKeyTarget(target)}`,
+        password: true,
+        ignoreFocusOut: true,
+    });
+    if (!value?.trim()) {
+        return;
+    }
+
+    await ctx.apiKeys.set(target, value.trim());
+    vscode.window.showInformationMessage(`API key for ${describeKeyTarget(target)} saved to secure storage`);
+}
+
+/**
+ * Clear API Key command - removes a stored key
+ */
+export async function clearApiKeyCommand(ctx: CommandContext): Promise<void> {
+    const stored = keyTargets(getSettings()).filter(target => ctx.apiKeys.has(target));
+    if (stored.length === 0) {
+        vscode.window.showInformationMessage('No API keys are stored');
+        return;
+    }
+
+    const target = await pickKeyTarget(ctx, stored, 'Clear API key for');
+    if (!target) {
+        return;
+    }
+
+    await ctx.apiKeys.delete(target);
+    vscode.window.showInformationMessage(`API key for ${describeKeyTarget(target)} removed`);
+}
+
+/**
+ * Clear Cache command - forgets all cached model answers
+ */
+export async function clearCacheCommand(ctx: CommandContext): Promise<void> {
+    const count = ctx.responseCache.size;
+    await ctx.responseCache.clear();
+    vscode.window.showInformationMessage(`Cleared ${count} cached response(s)`);
+}
+
+/**
+ * Days shown in the daily usage table
+ */
+const REPORT_DAYS = 30;
+
+/**
+ * Local date of a timestamp as YYYY-MM-DD
+ */
+function formatDay(time: number): string {
+    const date = new Date(time);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Table cells for a usage total: requests, tokens and cost.
+ * "~" marks partly estimated token counts, "≥" costs that include unpriced models.
+ */
+function usageCells(totals: UsageTotals): string {
+    const approx = totals.estimated ? '~' : '';
+    const tokens = (n: number) => approx + n.toLocaleString('en-US');
+    const cost = `${totals.unpriced ? '≥ ' : ''}$${totals.cost.toFixed(4)}`;
+    return `${totals.requests} | ${tokens(totals.inputTokens)} | ${tokens(totals.outputTokens)} | ${cost}`;
+}
+
+/**
+ * Render the usage ledger as a markdown report
+ */
+function formatUsageReport(ledger: UsageLedger, caps: SpendingCaps, now = Date.now()): string {
+    const today = totalUsage(ledger.since(startOfDay(now)));
+    const monthEntries = ledger.since(startOfMonth(now));
+    const month = totalUsage(monthEntries);
+    const cap = (value: number) => value > 0 ? `$${value.toFixed(2)}` : 'none';
+
+    const lines = [
+        '# ThoughtCompletion Usage',
+        '',
+        '| Period | Requests | Input tokens | Output tokens | Cost | Cap |',
+        '| --- | ---: | ---: | ---: | ---: | ---: |',
+        `| Today | ${usageCells(today)} | ${cap(caps.dailyCap)} |`,
+        `| This month | ${usageCells(month)} | ${cap(caps.monthlyCap)} |`,
+        '',
+        `## Daily (last ${REPORT_DAYS} days)`,
+        '',
+        '| Day | Requests | Input tokens | Output tokens | Cost |',
+        '| --- | ---: | ---: | ---: | ---: |',
+    ];
+
+    const daily = groupUsage(ledger.since(startOfDay(now - (REPORT_DAYS - 1) * 24 * 60 * 60 * 1000)), e => formatDay(e.timestamp));
+    for (const [day, totals] of [...daily].reverse()) {
+        lines.push(`| ${day} | ${usageCells(totals)} |`);
+    }
+
+    lines.push(
+        '',
+        '## By model (this month)',
+        '',
+        '| Model | Requests | Input tokens | Output tokens | Cost | Avg latency |',
+        '| --- | ---: | ---: | ---: | ---: | ---: |'
+    );
+    const byModel = groupUsage(monthEntries, e => `${e.provider}: ${e.model}`);
+    for (const [model, totals] of [...byModel].sort((a, b) => b[1].cost - a[1].cost)) {
+        lines.push(`| ${model} | ${usageCells(totals)} | ${Math.round(totals.latencyMs / totals.requests)} ms |`);
+    }
+
+    lines.push(
+        '',
+        '## By task (this month)',
+        '',
+        '| Task | Requests | Input tokens | Output tokens | Cost |',
+        '| --- | ---: | ---: | ---: | ---: |'
+    );
+    for (const [task, totals] of groupUsage(monthEntries, e => e.task ?? 'other')) {
+        lines.push(`| ${task} | ${usageCells(totals)} |`);
+    }
+
+    lines.push(
+        '',
+        '~ token counts partly estimated (the server reported none) · ≥ includes models without a known price',
+        '',
+        'Costs are estimates from `thoughtCompletion.usage.prices` and the built-in price table. Cached answers are free and not listed.'
+    );
+
+    return lines.join('\n');
+}
+
+/**
+ * Show Usage Report command - opens the usage ledger summary as a markdown document
+ */
+export async function showUsageReportCommand(ctx: CommandContext): Promise<void> {
+    const document = await vscode.workspace.openTextDocument({
+        content: formatUsageReport(ctx.usageLedger, ctx.spendingCaps),
+        language: 'markdown',
+    });
+    await vscode.window.showTextDocument(document, { preview: true });
+}
+
 /**
  * Trigger Completion command - auto-detects mode based on cursor position
  */
@@ -228,53 +687,27 @@ export async function triggerCommand(ctx: CommandContext): Promise<void> {
     }
 
     try {
-        const text = editor.document.getText();
-        const position = editor.selection.active;
-
-        // Resolve document type
-        const docType = await resolveDocumentType(
-            text,
-            ctx.activeTypeName,
-            ctx.customTypes,
-            ctx.llm
-        );
-
-        // Analyze context - this determines if we're at structure or content position
-        const docContext = analyzeDocument(
-            text,
-            position.line,
-            position.character,
-            docType
-        );
-
-        // Use detected cursor position to choose mode
-        const mode = docContext.cursorPosition;
-        const { buildPrompt } = await import('../prompts/builder');
-        const { systemPrompt, userPrompt } = buildPrompt(docContext);
-
-        // Show progress
-        await vscode.window.withProgress(
-            {
-                location: vscode.ProgressLocation.Notification,
-                title: 'ThoughtCompletion',
-                cancellable: true,
-            },
-            async (progress, token) => {
-                progress.report({ message: `Generating ${mode}...` });
+        await generateAtCursor(ctx, editor);
+    } catch (error) {
+        showRequestError(error);
+    }
+}
 
-                const completion = await ctx.llm.complete(userPrompt, {
-                    systemPrompt,
-                    maxTokens: ctx.maxTokens,
-                    temperature: 0.7,
-                });
+/**
+ * Regenerate command - like Trigger Completion, but asks the model for a fresh variant
+ * instead of reusing a cached answer
+ */
+export async function regenerateCommand(ctx: CommandContext): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showWarningMessage('No active editor');
+        return;
+    }
 
-                if (!token.isCancellationRequested && completion) {
-                    await insertCompletion(editor, completion);
-                }
-            }
-        );
+    try {
+        await generateAtCursor(ctx, editor, undefined, 'refresh');
     } catch (error) {
-        vscode.window.showErrorMessage(`ThoughtCompletion error: ${error}`);
+        showRequestError(error);
     }
 }
 
@@ -294,6 +727,10 @@ export function registerCommands(
             'thoughtCompletion.fillBlank',
             () => fillBlankCommand(getCtx())
         ),
+        vscode.commands.registerCommand(
+            'thoughtCompletion.scaffoldSibling',
+            () => scaffoldSiblingCommand(getCtx())
+        ),
         vscode.commands.registerCommand(
             'thoughtCompletion.detectType',
             () => detectTypeCommand(getCtx())
@@ -302,6 +739,30 @@ export function registerCommands(
             'thoughtCompletion.selectType',
             () => selectTypeCommand(getCtx())
         ),
+        vscode.commands.registerCommand(
+            'thoughtCompletion.switchProfile',
+            () => switchProfileCommand(getCtx())
+        ),
+        vscode.commands.registerCommand(
+            'thoughtCompletion.setApiKey',
+            () => setApiKeyCommand(getCtx())
+        ),
+        vscode.commands.registerCommand(
+            'thoughtCompletion.clearApiKey',
+            () => clearApiKeyCommand(getCtx())
+        ),
+        vscode.commands.registerCommand(
+            'thoughtCompletion.regenerate',
+            () => regenerateCommand(getCtx())
+        ),
+        vscode.commands.registerCommand(
+            'thoughtCompletion.clearCache',
+            () => clearCacheCommand(getCtx())
+        ),
+        vscode.commands.registerCommand(
+            'thoughtCompletion.showUsageReport',
+            () => showUsageReportCommand(getCtx())
+        ),
         vscode.commands.registerCommand(
             'thoughtCompletion.trigger',
             () => triggerCommand(getCtx())
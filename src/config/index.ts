@@ -2,4 +2,6 @@
  * Config module exports
  */
 
-export { getSettings, updateSetting, onSettingsChanged } from './settings';
+export { getSettings, getSettingsForProfile, updateSetting, updateModel, onSettingsChanged } from './settings';
+export { findProfile, applyProfile, describeProvider } from './profiles';
+export { ApiKeyStore, ApiKeyTarget, KEYED_PROVIDERS, keyTargets, describeKeyTarget, migratePlaintextKeys } from './secrets';
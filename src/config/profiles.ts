@@ -0,0 +1,52 @@
+/**
+ * Named provider profiles
+ */
+
+import { ExtensionSettings, ProviderProfile } from '../llm/types';
+
+/**
+ * Find a profile by name
+ */
+export function findProfile(profiles: ProviderProfile[], name: string): ProviderProfile | undefined {
+    return name ? profiles.find(p => p.name === name) : undefined;
+}
+
+/**
+ * Apply a profile over the regular settings: it selects the provider and
+ * overrides that provider's endpoint and model, plus maxTokens and temperature.
+ */
+export function applyProfile(settings: ExtensionSettings, profile: ProviderProfile): ExtensionSettings {
+    const section = settings[profile.provider];
+
+    return {
+        ...settings,
+        provider: profile.provider,
+        [profile.provider]: {
+            ...section,
+            model: profile.model,
+            baseUrl: profile.baseUrl ?? section.baseUrl,
+            ...(profile.apiKey !== undefined ? { apiKey: profile.apiKey } : {}),
+        },
+        maxTokens: profile.maxTokens ?? settings.maxTokens,
+        temperature: profile.temperature ?? settings.temperature,
+        activeProfile: profile.name,
+    };
+}
+
+/**
+ * Label shown for the active provider, e.g. "Ollama (llama3.2)" or the profile name
+ */
+export function describeProvider(settings: ExtensionSettings): string {
+    if (findProfile(settings.profiles, settings.activeProfile)) {
+        return settings.activeProfile;
+    }
+
+    switch (settings.provider) {
+        case 'ollama':
+            return `Ollama (${settings.ollama.model})`;
+        case 'anthropic':
+            return `Anthropic (${settings.anthropic.model})`;
+        default:
+            return `OpenAI (${settings.openai.model})`;
+    }
+}
@@ -0,0 +1,274 @@
+/**
+ * API keys kept in VS Code SecretStorage
+ * Keys are cached in memory so providers can be built synchronously.
+ */
+
+import * as vscode from 'vscode';
+import { ApiKeyLookup, ExtensionSettings, ProviderProfile, ProviderType } from '../llm/types';
+
+const SECRET_PREFIX = 'thoughtCompletion.apiKey.';
+const KEPT_KEYS_STATE_KEY = 'thoughtCompletion.apiKeysKeptInSettings';
+
+/**
+ * Providers that authenticate with an API key
+ */
+export const KEYED_PROVIDERS: ProviderType[] = ['openai', 'anthropic'];
+
+/**
+ * Where a key is stored: a provider, or a single profile
+ */
+export interface ApiKeyTarget {
+    provider: ProviderType;
+    profileName?: string;
+}
+
+/**
+ * Secret storage key for a target
+ */
+function secretKey(target: ApiKeyTarget): string {
+    return target.profileName
+        ? `${SECRET_PREFIX}profile.${target.profileName}`
+        : `${SECRET_PREFIX}${target.provider}`;
+}
+
+/**
+ * Display label for a target
+ */
+export function describeKeyTarget(target: ApiKeyTarget): string {
+    return target.profileName ? `profile "${target.profileName}"` : target.provider;
+}
+
+/**
+ * All targets a key can be stored for with the given settings
+ */
+export function keyTargets(settings: ExtensionSettings): ApiKeyTarget[] {
+    return [
+        ...KEYED_PROVIDERS.map(provider => ({ provider })),
+        ...settings.profiles
+            .filter(p => KEYED_PROVIDERS.includes(p.provider))
+            .map(p => ({ provider: p.provider, profileName: p.name })),
+    ];
+}
+
+export class ApiKeyStore implements ApiKeyLookup, vscode.Disposable {
+    private cache = new Map<string, string>();
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly subscription: vscode.Disposable;
+
+    /** Fired when a stored key is added, changed or removed */
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private readonly secrets: vscode.SecretStorage) {
+        this.subscription = secrets.onDidChange(async e => {
+            if (!e.key.startsWith(SECRET_PREFIX)) {
+                return;
+            }
+            // Another window may have changed the key - refresh the cached copy
+            const value = await this.secrets.get(e.key);
+            if (value === this.cache.get(e.key)) {
+                return;
+            }
+            if (value) {
+                this.cache.set(e.key, value);
+            } else {
+                this.cache.delete(e.key);
+            }
+            this.changeEmitter.fire();
+        });
+    }
+
+    /**
+     * Load the keys for all providers and profiles into memory
+     */
+    async load(settings: ExtensionSettings): Promise<void> {
+        await Promise.all(keyTargets(settings).map(async target => {
+            const key = secretKey(target);
+            const value = await this.secrets.get(key);
+            if (value) {
+                this.cache.set(key, value);
+            }
+        }));
+    }
+
+    get(provider: ProviderType, profileName?: string): string | undefined {
+        return this.cache.get(secretKey({ provider, profileName }));
+    }
+
+    /**
+     * Whether a key is stored for exactly this target
+     */
+    has(target: ApiKeyTarget): boolean {
+        return this.cache.has(secretKey(target));
+    }
+
+    async set(target: ApiKeyTarget, value: string): Promise<void> {
+        this.cache.set(secretKey(target), value);
+        await this.secrets.store(secretKey(target), value);
+        this.changeEmitter.fire();
+    }
+
+    async delete(target: ApiKeyTarget): Promise<void> {
+        this.cache.delete(secretKey(target));
+        await this.secrets.delete(secretKey(target));
+        this.changeEmitter.fire();
+    }
+
+    dispose(): void {
+        this.subscription.dispose();
+        this.changeEmitter.dispose();
+    }
+}
+
+/**
+ * A settings scope the (window-scoped) key settings can be written to
+ */
+interface SettingsSource {
+    config: vscode.WorkspaceConfiguration;
+    scope: 'workspaceFolderValue' | 'workspaceValue' | 'globalValue';
+    target: vscode.ConfigurationTarget;
+    /** Identifies the scope across sessions, e.g. "folder:file:///repo" */
+    id: string;
+}
+
+/**
+ * A plaintext key found in settings
+ */
+interface PlaintextKey {
+    target: ApiKeyTarget;
+    value: string;
+    source: SettingsSource;
+    /** Identifies the setting, never the key itself */
+    id: string;
+}
+
+/**
+ * Every settings scope, most specific first: workspace folders, the workspace, the user
+ */
+function settingsSources(): SettingsSource[] {
+    const config = vscode.workspace.getConfiguration('thoughtCompletion');
+    const folders = (vscode.workspace.workspaceFolders ?? []).map((folder): SettingsSource => ({
+        config: vscode.workspace.getConfiguration('thoughtCompletion', folder.uri),
+        scope: 'workspaceFolderValue',
+        target: vscode.ConfigurationTarget.WorkspaceFolder,
+        id: `folder:${folder.uri.toString()}`,
+    }));
+
+    return [
+        ...folders,
+        { config, scope: 'workspaceValue', target: vscode.ConfigurationTarget.Workspace, id: 'workspace' },
+        { config, scope: 'globalValue', target: vscode.ConfigurationTarget.Global, id: 'user' },
+    ];
+}
+
+/**
+ * Collect plaintext keys from every settings scope
+ */
+function findPlaintextKeys(sources: SettingsSource[]): PlaintextKey[] {
+    const found: PlaintextKey[] = [];
+
+    for (const source of sources) {
+        for (const provider of KEYED_PROVIDERS) {
+            const value = source.config.inspect<string>(`${provider}.apiKey`)?.[source.scope];
+            if (value) {
+                found.push({ target: { provider }, value, source, id: `${source.id}|${provider}` });
+            }
+        }
+        for (const profile of source.config.inspect<ProviderProfile[]>('profiles')?.[source.scope] ?? []) {
+            if (profile.apiKey) {
+                found.push({
+                    target: { provider: profile.provider, profileName: profile.name },
+                    value: profile.apiKey,
+                    source,
+                    id: `${source.id}|${profile.provider}|${profile.name}`,
+                });
+            }
+        }
+    }
+
+    return found;
+}
+
+/**
+ * Remove the given plaintext keys from their settings scopes
+ */
+async function clearPlaintextKeys(keys: PlaintextKey[]): Promise<void> {
+    for (const source of new Set(keys.map(k => k.source))) {
+        const inSource = keys.filter(k => k.source === source);
+
+        for (const { target } of inSource) {
+            if (!target.profileName) {
+                await source.config.update(`${target.provider}.apiKey`, undefined, source.target);
+            }
+        }
+
+        const profileNames = new Set(inSource.map(k => k.target.profileName).filter(name => name));
+        if (profileNames.size > 0) {
+            const profiles = source.config.inspect<ProviderProfile[]>('profiles')?.[source.scope] ?? [];
+            await source.config.update(
+                'profiles',
+                profiles.map(profile => {
+                    if (!profileNames.has(profile.name)) {
+                        return profile;
+                    }
+                    const { apiKey: _apiKey, ...rest } = profile;
+                    return rest;
+                }),
+                source.target
+            );
+        }
+    }
+}
+
+/**
+ * Offer to move API keys from settings.json into secret storage. Runs on
+ * every activation; keys the user chose to keep are remembered per
+ * workspace and not offered again, while keys added later are.
+ */
+export async function migratePlaintextKeys(store: ApiKeyStore, state: vscode.Memento): Promise<void> {
+    const kept = new Set(state.get<string[]>(KEPT_KEYS_STATE_KEY, []));
+    const found = findPlaintextKeys(settingsSources()).filter(k => !kept.has(k.id));
+    if (found.length === 0) {
+        return;
+    }
+
+    const move = 'Move to Secure Storage';
+    const keep = 'Keep in Settings';
+    const choice = await vscode.window.showWarningMessage(
+        'ThoughtCompletion found API keys in settings.json, where they can be synced or committed. Move them to secure storage?',
+        move,
+        keep
+    );
+
+    // Dismissed without an answer - ask again next time
+    if (!choice) {
+        return;
+    }
+
+    if (choice === keep) {
+        await state.update(KEPT_KEYS_STATE_KEY, [...kept, ...found.map(k => k.id)]);
+        return;
+    }
+
+    // The most specific scope comes first and wins; a key that differs from
+    // the one already stored stays in settings rather than being lost
+    const moved: PlaintextKey[] = [];
+    const conflicting: PlaintextKey[] = [];
+    for (const key of found) {
+        const stored = store.get(key.target.provider, key.target.profileName);
+        if (stored === undefined) {
+            await store.set(key.target, key.value);
+        }
+        (stored === undefined || stored === key.value ? moved : conflicting).push(key);
+    }
+    await clearPlaintextKeys(moved);
+
+    if (conflicting.length === 0) {
+        vscode.window.showInformationMessage(`Moved ${moved.length} API key(s) to secure storage`);
+        return;
+    }
+    // Not offered again; Set API Key replaces the stored one if needed
+    await state.update(KEPT_KEYS_STATE_KEY, [...kept, ...conflicting.map(k => k.id)]);
+    vscode.window.showWarningMessage(
+        `Moved ${moved.length} API key(s) to secure storage. Kept ${conflicting.length} in settings.json because a different key is already stored for ${[...new Set(conflicting.map(k => describeKeyTarget(k.target)))].join(', ')}.`
+    );
+}
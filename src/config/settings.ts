@@ -3,16 +3,18 @@
  */
 
 import * as vscode from 'vscode';
-import { ExtensionSettings, DocumentType } from '../llm/types';
+import { ExtensionSettings, DocumentType, OllamaApiMode, OllamaThinkMode, ProviderType, ProviderEndpoint, ProviderProfile, LLMTask, ModelPrice, FimTemplate } from '../llm/types';
+import { applyProfile, findProfile } from './profiles';
 
 /**
- * Get extension settings from VS Code configuration
+ * Read extension settings from VS Code configuration, without applying a profile
  */
-export function getSettings(): ExtensionSettings {
+function readSettings(): ExtensionSettings {
     const config = vscode.workspace.getConfiguration('thoughtCompletion');
+    const http = vscode.workspace.getConfiguration('http');
 
     return {
-        provider: config.get<'openai' | 'ollama'>('provider', 'ollama'),
+        provider: config.get<ProviderType>('provider', 'ollama'),
         openai: {
             baseUrl: config.get<string>('openai.baseUrl', 'https://api.openai.com/v1'),
             apiKey: config.get<string>('openai.apiKey', ''),
@@ -21,16 +23,78 @@ export function getSettings(): ExtensionSettings {
         ollama: {
             baseUrl: config.get<string>('ollama.baseUrl', 'http://localhost:11434/v1'),
             model: config.get<string>('ollama.model', 'llama3.2'),
+            apiMode: config.get<OllamaApiMode>('ollama.apiMode', 'openai'),
+            numCtx: config.get<number>('ollama.numCtx', 0),
+            keepAlive: config.get<string>('ollama.keepAlive', ''),
+            think: config.get<OllamaThinkMode>('ollama.think', 'auto'),
+        },
+        anthropic: {
+            baseUrl: config.get<string>('anthropic.baseUrl', 'https://api.anthropic.com/v1'),
+            apiKey: config.get<string>('anthropic.apiKey', ''),
+            model: config.get<string>('anthropic.model', 'claude-3-5-haiku-latest'),
         },
         autoComplete: config.get<boolean>('autoComplete', true),
         triggerMode: config.get<'auto' | 'manual'>('triggerMode', 'auto'),
         completionDelay: config.get<number>('completionDelay', 2500),
         maxTokens: config.get<number>('maxTokens', 1000),
+        temperature: config.get<number>('temperature', 0.7),
+        contextWindow: config.get<number>('contextWindow', 8192),
+        modelContextWindows: config.get<Record<string, number>>('modelContextWindows', {}),
+        connectTimeout: config.get<number>('connectTimeout', 10000),
+        requestTimeout: config.get<number>('requestTimeout', 60000),
+        maxRetries: config.get<number>('maxRetries', 2),
+        maxConcurrentRequests: config.get<number>('maxConcurrentRequests', 1),
+        transport: {
+            proxy: http.get<string>('proxy', ''),
+            strictSSL: http.get<boolean>('proxyStrictSSL', true),
+            noProxy: http.get<string[]>('noProxy', []),
+            caCertificates: config.get<string[]>('caCertificates', []),
+        },
+        cache: {
+            enabled: config.get<boolean>('cache.enabled', true),
+            ttlHours: config.get<number>('cache.ttlHours', 24),
+            maxEntries: config.get<number>('cache.maxEntries', 500),
+        },
+        usage: {
+            enabled: config.get<boolean>('usage.enabled', true),
+            prices: config.get<Record<string, ModelPrice>>('usage.prices', {}),
+            dailyCap: config.get<number>('usage.dailyCap', 0),
+            monthlyCap: config.get<number>('usage.monthlyCap', 0),
+        },
+        fim: {
+            enabled: config.get<boolean>('fim.enabled', false),
+            templates: config.get<Record<string, FimTemplate>>('fim.templates', {}),
+        },
+        log: {
+            redactDocumentText: config.get<boolean>('log.redactDocumentText', false),
+        },
+        fallbackProviders: config.get<ProviderEndpoint[]>('fallbackProviders', []),
+        taskRouting: config.get<Partial<Record<LLMTask, ProviderEndpoint[]>>>('taskRouting', {}),
+        profiles: config.get<ProviderProfile[]>('profiles', []),
+        activeProfile: config.get<string>('activeProfile', ''),
         activeDocumentType: config.get<string>('activeDocumentType', 'auto'),
         documentTypes: config.get<DocumentType[]>('documentTypes', []),
     };
 }
 
+/**
+ * Get extension settings with the active profile applied
+ */
+export function getSettings(): ExtensionSettings {
+    const settings = readSettings();
+    const profile = findProfile(settings.profiles, settings.activeProfile);
+    return profile ? applyProfile(settings, profile) : settings;
+}
+
+/**
+ * Get extension settings as they would be with the given profile active,
+ * or with no profile when none is given
+ */
+export function getSettingsForProfile(profile?: ProviderProfile): ExtensionSettings {
+    const settings = { ...readSettings(), activeProfile: '' };
+    return profile ? applyProfile(settings, profile) : settings;
+}
+
 /**
  * Update a specific setting
  */
@@ -43,6 +107,21 @@ export async function updateSetting<K extends keyof ExtensionSettings>(
     await config.update(key, value, global);
 }
 
+/**
+ * Change the model of a profile, or of the current provider when no profile is given
+ */
+export async function updateModel(model: string, profileName?: string): Promise<void> {
+    const config = vscode.workspace.getConfiguration('thoughtCompletion');
+
+    if (profileName) {
+        const profiles = config.get<ProviderProfile[]>('profiles', [])
+            .map(p => p.name === profileName ? { ...p, model } : p);
+        await config.update('profiles', profiles, true);
+    } else {
+        await config.update(`${readSettings().provider}.model`, model, true);
+    }
+}
+
 /**
  * Watch for settings changes
  */
@@ -50,7 +129,8 @@ export function onSettingsChanged(
     callback: (settings: ExtensionSettings) => void
 ): vscode.Disposable {
     return vscode.workspace.onDidChangeConfiguration(e => {
-        if (e.affectsConfiguration('thoughtCompletion')) {
+        // Proxy settings live under "http"
+        if (e.affectsConfiguration('thoughtCompletion') || e.affectsConfiguration('http')) {
             callback(getSettings());
         }
     });
@@ -5,88 +5,350 @@
  */
 
 import * as vscode from 'vscode';
-import { createProviderFromSettings, LLMProvider } from './llm';
-import { getSettings, onSettingsChanged } from './config';
-import { ThoughtCompletionProvider } from './providers';
+import * as path from 'path';
+import {
+    closeDispatchers,
+    createRouterFromSettings,
+    responseCacheOptionsFromSettings,
+    LLMProvider,
+    ResponseCache,
+    RequestQueue,
+    TaskRouter,
+    UsageLedger,
+} from './llm';
+import { getSettings, onSettingsChanged, describeProvider, ApiKeyStore, migratePlaintextKeys } from './config';
+import { ThoughtCompletionProvider, DocumentTypeCache, DocumentAnalysisService } from './providers';
 import { registerCommands, CommandContext } from './commands';
-import { ExtensionSettings } from './llm/types';
+import { ExtensionSettings, LogLevel } from './llm/types';
+import { TriggerMode } from './providers/inline-completion';
+import { contextBudgetFromSettings, readDocumentSettings } from './analysis';
+import { logger } from './logging';
+
+/**
+ * Last known provider state shown in the status bar
+ */
+interface ProviderStatus {
+    providerName: string;
+    available: boolean;
+    message?: string;
+}
 
 let provider: ThoughtCompletionProvider | null = null;
-let currentLLM: LLMProvider | null = null;
+let currentRouter: TaskRouter | null = null;
 let statusBarItem: vscode.StatusBarItem | null = null;
+let typeCache: DocumentTypeCache | null = null;
+let documentAnalysis: DocumentAnalysisService | null = null;
+let providerStatus: ProviderStatus | null = null;
+let apiKeys: ApiKeyStore | null = null;
+let responseCache: ResponseCache | null = null;
+let usageLedger: UsageLedger | null = null;
+let requestQueue: RequestQueue | null = null;
+/** Spending cap that paused automatic completions, if any */
+let pausedByCap: 'daily' | 'monthly' | undefined;
+/** Network settings the shared dispatchers were created for */
+let transportSettings: string | undefined;
 
 /**
- * Create LLM provider from current settings
+ * Logger level for the output channel's level, set with "Developer: Set Log Level..."
  */
-function initLLM(settings: ExtensionSettings): LLMProvider {
-    return createProviderFromSettings(settings);
+function channelLogLevel(level: vscode.LogLevel): LogLevel {
+    switch (level) {
+        case vscode.LogLevel.Off: return 'off';
+        case vscode.LogLevel.Trace: return 'trace';
+        case vscode.LogLevel.Debug: return 'debug';
+        case vscode.LogLevel.Warning: return 'warn';
+        case vscode.LogLevel.Error: return 'error';
+        default: return 'info';
+    }
 }
 
 /**
- * Update status bar with provider info
+ * Create the per-task LLM router from current settings
  */
-async function updateStatusBar(llm: LLMProvider, settings: ExtensionSettings): Promise<void> {
-    if (!statusBarItem) return;
+function initLLM(settings: ExtensionSettings): TaskRouter {
+    return createRouterFromSettings(settings, {
+        apiKeys: apiKeys ?? undefined,
+        cache: settings.cache.enabled ? responseCache ?? undefined : undefined,
+        ledger: settings.usage.enabled ? usageLedger ?? undefined : undefined,
+        queue: requestQueue ?? undefined,
+    });
+}
+
+/**
+ * Trigger mode in effect: automatic completions are off while a spending cap is reached
+ */
+function effectiveTriggerMode(settings: ExtensionSettings): TriggerMode {
+    return pausedByCap ? 'manual' : settings.triggerMode;
+}
 
-    const available = await llm.isAvailable();
-    const providerName = settings.provider === 'ollama'
-        ? `Ollama (${settings.ollama.model})`
-        : `OpenAI (${settings.openai.model})`;
+/**
+ * Re-check the spending caps. Returns true when completions were paused or resumed.
+ */
+function updateSpendingPause(settings: ExtensionSettings): boolean {
+    const reached = settings.usage.enabled ? usageLedger?.capReached(settings.usage) : undefined;
+    if (reached === pausedByCap) {
+        return false;
+    }
 
-    if (available) {
-        statusBarItem.text = `$(sparkle) ${providerName}`;
-        statusBarItem.tooltip = 'ThoughtCompletion: Connected';
+    pausedByCap = reached;
+    if (reached) {
+        const cap = reached === 'daily' ? settings.usage.dailyCap : settings.usage.monthlyCap;
+        logger.warn(`[ThoughtCompletion] ${reached} spending cap reached, pausing automatic completions`);
+        vscode.window.showWarningMessage(
+            `ThoughtCompletion: ${reached} spending cap of $${cap.toFixed(2)} reached. Automatic completions are paused; commands and manual triggers still work.`,
+            'Show Usage Report'
+        ).then(choice => {
+            if (choice) {
+                vscode.commands.executeCommand('thoughtCompletion.showUsageReport');
+            }
+        });
+    } else {
+        logger.info('[ThoughtCompletion] Spending cap no longer reached, resuming automatic completions');
+    }
+    return true;
+}
+
+/**
+ * Re-check the spending caps after new usage or a day/month change
+ */
+function refreshSpendingPause(): void {
+    const settings = getSettings();
+    if (updateSpendingPause(settings)) {
+        updateProvider(settings);
+        renderStatusBar();
+    }
+}
+
+/**
+ * Push settings to the completion provider
+ */
+function updateProvider(settings: ExtensionSettings): void {
+    provider?.updateConfig(
+        currentRouter!,
+        settings.documentTypes,
+        settings.activeDocumentType,
+        settings.autoComplete,
+        effectiveTriggerMode(settings),
+        settings.maxTokens,
+        settings.completionDelay,
+        settings.temperature,
+        contextBudgetFromSettings(settings)
+    );
+}
+
+/**
+ * Rebuild the LLM chains and push new settings to the completion provider
+ */
+function applySettings(settings: ExtensionSettings): void {
+    logger.configure(settings.log);
+    responseCache?.configure(responseCacheOptionsFromSettings(settings));
+    requestQueue?.setMaxConcurrency(settings.maxConcurrentRequests);
+
+    // Connection pools for the old proxy or certificates are no longer used
+    const transport = JSON.stringify(settings.transport);
+    if (transportSettings !== undefined && transport !== transportSettings) {
+        void closeDispatchers();
+    }
+    transportSettings = transport;
+
+    // Recreate the LLM chains if providers, routes or keys changed
+    currentRouter = initLLM(settings);
+
+    // Caps may have been raised or lowered
+    updateSpendingPause(settings);
+
+    // Update provider
+    updateProvider(settings);
+
+    // Update status bar
+    updateStatusBar(currentRouter.primary, settings);
+}
+
+/**
+ * Document type name for the active editor: pinned in its frontmatter,
+ * selected in settings, or 'auto'
+ */
+function getActiveTypeName(settings: ExtensionSettings): string {
+    const document = vscode.window.activeTextEditor?.document;
+    const pinned = document && documentAnalysis
+        ? readDocumentSettings(documentAnalysis.get(document).structure).type
+        : undefined;
+    return pinned ?? settings.activeDocumentType;
+}
+
+/**
+ * Document type label for the active editor
+ */
+function getActiveTypeLabel(settings: ExtensionSettings): string | null {
+    const typeName = getActiveTypeName(settings);
+    if (typeName !== 'auto') {
+        return typeName;
+    }
+
+    const document = vscode.window.activeTextEditor?.document;
+    const entry = document && typeCache?.get(document.uri.toString());
+    if (!entry) {
+        return null;
+    }
+    return entry.typeName ?? 'general';
+}
+
+/**
+ * Render the status bar from the provider state and the active editor's type
+ */
+function renderStatusBar(): void {
+    if (!statusBarItem || !providerStatus) return;
+
+    const settings = getSettings();
+    const typeLabel = getActiveTypeLabel(settings);
+    const typeSuffix = typeLabel ? ` · ${typeLabel}` : '';
+    const typeTooltip = typeLabel
+        ? `\nDocument type: ${typeLabel}${getActiveTypeName(settings) === 'auto' ? ' (detected)' : ''}`
+        : '';
+    const pause = pausedByCap
+        ? `\nAutomatic completions paused: ${pausedByCap} spending cap reached`
+        : '';
+    const queue = requestQueue?.state;
+    const queueSuffix = queue?.waiting ? ` · ${queue.waiting} queued` : '';
+    const queueTooltip = queue && (queue.running || queue.waiting)
+        ? `\nRequests: ${queue.running} running, ${queue.waiting} waiting`
+        : '';
+    const hint = '\nClick to switch provider profile';
+
+    if (providerStatus.available) {
+        statusBarItem.text = `$(sparkle) ${providerStatus.providerName}${typeSuffix}${queueSuffix}`;
+        const note = providerStatus.message ? `\n${providerStatus.message}` : '';
+        statusBarItem.tooltip = `ThoughtCompletion: Connected${note}${typeTooltip}${queueTooltip}${pause}${hint}`;
         statusBarItem.backgroundColor = undefined;
     } else {
-        statusBarItem.text = `$(warning) ${providerName}`;
-        statusBarItem.tooltip = 'ThoughtCompletion: Not connected - check provider settings';
+        statusBarItem.text = `$(warning) ${providerStatus.providerName}${typeSuffix}${queueSuffix}`;
+        const reason = providerStatus.message ?? 'Not connected - check provider settings';
+        statusBarItem.tooltip = `ThoughtCompletion: ${reason}${typeTooltip}${queueTooltip}${pause}${hint}`;
         statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
     }
 }
 
+/**
+ * Update status bar with provider info
+ */
+async function updateStatusBar(llm: LLMProvider, settings: ExtensionSettings): Promise<void> {
+    if (!statusBarItem) return;
+
+    const health = llm.checkHealth
+        ? await llm.checkHealth()
+        : { available: await llm.isAvailable() };
+    providerStatus = { providerName: describeProvider(settings), ...health };
+    renderStatusBar();
+}
+
 /**
  * Get command context for command handlers
  */
 function getCommandContext(): CommandContext {
     const settings = getSettings();
     return {
-        llm: currentLLM!,
+        router: currentRouter!,
+        typeCache: typeCache!,
+        analysis: documentAnalysis!,
         customTypes: settings.documentTypes,
         activeTypeName: settings.activeDocumentType,
         maxTokens: settings.maxTokens,
+        temperature: settings.temperature,
+        budget: contextBudgetFromSettings(settings),
+        apiKeys: apiKeys!,
+        responseCache: responseCache!,
+        usageLedger: usageLedger!,
+        spendingCaps: settings.usage,
     };
 }
 
 /**
  * Extension activation
  */
-export function activate(context: vscode.ExtensionContext): void {
-    console.log('ThoughtCompletion is activating...');
-
-    // Initialize settings and LLM
+export async function activate(context: vscode.ExtensionContext): Promise<void> {
+    // Log to a dedicated output channel at the level the user picked for it
     const settings = getSettings();
-    currentLLM = initLLM(settings);
+    const outputChannel = vscode.window.createOutputChannel('ThoughtCompletion', { log: true });
+    context.subscriptions.push(
+        outputChannel,
+        outputChannel.onDidChangeLogLevel(level => logger.configure({ level: channelLogLevel(level) }))
+    );
+    logger.attach(outputChannel);
+    logger.configure({ ...settings.log, level: channelLogLevel(outputChannel.logLevel) });
+    logger.info('[ThoughtCompletion] Activating...');
+
+    // API keys live in secret storage; load them before the first provider is built
+    apiKeys = new ApiKeyStore(context.secrets);
+    context.subscriptions.push(apiKeys);
+    await apiKeys.load(settings);
+
+    // Answers are cached across sessions in the extension's global storage
+    responseCache = await ResponseCache.open(
+        responseCacheOptionsFromSettings(settings),
+        path.join(context.globalStorageUri.fsPath, 'response-cache.json')
+    );
+
+    // Every LLM call is recorded for the usage report and spending caps
+    usageLedger = await UsageLedger.open(path.join(context.globalStorageUri.fsPath, 'usage-ledger.json'));
+    updateSpendingPause(settings);
+
+    // All providers share one queue, so a local model is not flooded with parallel requests
+    requestQueue = new RequestQueue(settings.maxConcurrentRequests);
+    context.subscriptions.push(requestQueue);
+
+    // Initialize LLM
+    transportSettings = JSON.stringify(settings.transport);
+    currentRouter = initLLM(settings);
+
+    // Detected document types are remembered per document across sessions
+    typeCache = new DocumentTypeCache(context.workspaceState);
+    context.subscriptions.push(typeCache);
+
+    // Open documents are parsed once and updated from their edits
+    documentAnalysis = new DocumentAnalysisService();
+    context.subscriptions.push(documentAnalysis);
 
     // Create status bar item
     statusBarItem = vscode.window.createStatusBarItem(
         vscode.StatusBarAlignment.Right,
         100
     );
-    statusBarItem.command = 'thoughtCompletion.selectType';
+    statusBarItem.command = 'thoughtCompletion.switchProfile';
     statusBarItem.show();
     context.subscriptions.push(statusBarItem);
 
     // Update status bar
-    updateStatusBar(currentLLM, settings);
+    updateStatusBar(currentRouter.primary, settings);
+
+    // Keep the document type in the status bar in sync with the active editor
+    context.subscriptions.push(
+        vscode.window.onDidChangeActiveTextEditor(() => {
+            // Also resumes completions paused by a cap once the day or month changes
+            refreshSpendingPause();
+            renderStatusBar();
+        }),
+        usageLedger.onDidRecord(() => refreshSpendingPause()),
+        requestQueue.onDidChange(() => renderStatusBar()),
+        typeCache.onDidChange(uri => {
+            if (vscode.window.activeTextEditor?.document.uri.toString() === uri) {
+                renderStatusBar();
+            }
+        })
+    );
 
     // Create completion provider
     provider = new ThoughtCompletionProvider(
-        currentLLM,
+        typeCache,
+        documentAnalysis,
+        currentRouter,
         settings.documentTypes,
         settings.activeDocumentType,
         settings.autoComplete,
-        settings.triggerMode,
-        settings.maxTokens
+        effectiveTriggerMode(settings),
+        settings.maxTokens,
+        settings.completionDelay,
+        settings.temperature,
+        contextBudgetFromSettings(settings)
     );
 
     // Register inline completion provider for markdown and plaintext
@@ -104,36 +366,44 @@ export function activate(context: vscode.ExtensionContext): void {
 
     // Watch for settings changes
     context.subscriptions.push(
-        onSettingsChanged(newSettings => {
-            console.log('ThoughtCompletion settings changed, updating...');
-
-            // Recreate LLM if provider changed
-            currentLLM = initLLM(newSettings);
-
-            // Update provider
-            provider?.updateConfig(
-                currentLLM,
-                newSettings.documentTypes,
-                newSettings.activeDocumentType,
-                newSettings.autoComplete,
-                newSettings.triggerMode,
-                newSettings.maxTokens
-            );
-
-            // Update status bar
-            updateStatusBar(currentLLM, newSettings);
+        onSettingsChanged(async newSettings => {
+            logger.info('[ThoughtCompletion] Settings changed, updating...');
+            // New profiles may have stored keys
+            await apiKeys?.load(newSettings);
+            applySettings(newSettings);
+        }),
+        apiKeys.onDidChange(() => {
+            logger.info('[ThoughtCompletion] API keys changed, updating...');
+            applySettings(getSettings());
         })
     );
 
-    console.log('ThoughtCompletion activated successfully');
+    // Offer to move plaintext keys out of settings.json
+    migratePlaintextKeys(apiKeys, context.workspaceState)
+        .catch(error => logger.error('[ThoughtCompletion] API key migration failed:', error));
+
+    logger.info('[ThoughtCompletion] Activated');
 }
 
 /**
  * Extension deactivation
  */
-export function deactivate(): void {
-    console.log('ThoughtCompletion deactivated');
+export async function deactivate(): Promise<void> {
+    await responseCache?.flush();
+    await usageLedger?.flush();
+    await closeDispatchers();
+    logger.info('[ThoughtCompletion] Deactivated');
+    logger.detach();
     provider = null;
-    currentLLM = null;
+    currentRouter = null;
     statusBarItem = null;
+    typeCache = null;
+    documentAnalysis = null;
+    providerStatus = null;
+    apiKeys = null;
+    responseCache = null;
+    usageLedger = null;
+    requestQueue = null;
+    pausedByCap = undefined;
+    transportSettings = undefined;
 }
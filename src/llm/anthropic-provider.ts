@@ -0,0 +1,289 @@
+/**
+ * Anthropic LLM provider
+ * Connects to the native Anthropic Messages API
+ * Uses undici through the shared transport (honors proxy and CA settings)
+ */
+
+import { LLMProvider, CompletionOptions, ChatMessage, AnthropicProviderConfig } from './types';
+import { Response, fetch as undiciFetch } from 'undici';
+import { EndpointTransport } from './transport';
+import { promptMessages } from './wrapped-provider';
+import { readServerSentEvents } from './sse';
+import { createHttpError } from './errors';
+import { completeWithReasoning, streamWithReasoning, RawCompletion, RawDelta } from './reasoning';
+import { logger, registerSecret, requestTag } from '../logging/logger';
+
+/**
+ * API version sent with every request
+ */
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Highest temperature the Messages API accepts; settings allow up to 2
+ */
+const MAX_TEMPERATURE = 1;
+
+interface AnthropicErrorBody {
+    type: 'error';
+    error: {
+        type: string;
+        message: string;
+    };
+}
+
+interface AnthropicUsage {
+    input_tokens?: number;
+    output_tokens?: number;
+}
+
+interface AnthropicResponse {
+    content: Array<{
+        type: string;
+        text?: string;
+        thinking?: string; // Extended thinking blocks
+    }>;
+    stop_reason?: string;
+    usage?: AnthropicUsage;
+}
+
+interface AnthropicStreamEvent {
+    type: string;
+    delta?: {
+        type: string;
+        text?: string;
+        thinking?: string;
+    };
+    /** Input tokens arrive with message_start */
+    message?: { usage?: AnthropicUsage };
+    /** Output tokens arrive with message_delta */
+    usage?: AnthropicUsage;
+    error?: AnthropicErrorBody['error'];
+}
+
+/**
+ * Turn an Anthropic error body into a readable message
+ */
+function formatErrorMessage(status: number, body: string): string {
+    try {
+        const parsed = JSON.parse(body) as AnthropicErrorBody;
+        if (parsed.error?.message) {
+            return `Anthropic API error: ${status} ${parsed.error.type} - ${parsed.error.message}`;
+        }
+    } catch {
+        // Not JSON - fall through to the raw body
+    }
+    return `Anthropic API error: ${status} - ${body}`;
+}
+
+export class AnthropicProvider implements LLMProvider {
+    readonly name = 'Anthropic';
+
+    private baseUrl: string;
+    private apiKey: string;
+    private model: string;
+    private transport: EndpointTransport;
+
+    constructor(config: AnthropicProviderConfig) {
+        this.baseUrl = config.baseUrl.replace(/\/$/, ''); // Remove trailing slash
+        this.apiKey = config.apiKey;
+        this.model = config.model;
+        registerSecret(this.apiKey);
+        this.transport = new EndpointTransport(this.baseUrl, config.transport, config.connectTimeoutMs);
+    }
+
+    async complete(prompt: string, options?: CompletionOptions): Promise<string> {
+        return this.chat(promptMessages(prompt, options), options);
+    }
+
+    async chat(messages: ChatMessage[], options?: CompletionOptions): Promise<string> {
+        return completeWithReasoning(opts => this.requestChat(messages, opts), options);
+    }
+
+    /**
+     * Send a single Messages API request, returning the raw answer and thinking
+     */
+    private async requestChat(messages: ChatMessage[], options?: CompletionOptions): Promise<RawCompletion> {
+        const url = `${this.baseUrl}/messages`;
+        const tag = `[Anthropic]${requestTag(options?.requestId)}`;
+        const body = this.buildBody(messages, options, false);
+        logger.debug(`${tag} Calling ${url} (${this.model})`);
+        logger.traceBody(`${tag} Request`, body);
+
+        try {
+            const response = await undiciFetch(url, {
+                method: 'POST',
+                headers: this.headers(),
+                body: JSON.stringify(body),
+                dispatcher: this.transport.dispatcher,
+                signal: options?.signal,
+            });
+
+            if (!response.ok) {
+                throw await this.httpError(response);
+            }
+
+            const data = await response.json() as AnthropicResponse;
+            logger.traceBody(`${tag} Response`, data);
+
+            const content = data.content
+                .filter(block => block.type === 'text')
+                .map(block => block.text ?? '')
+                .join('');
+            const reasoning = data.content
+                .filter(block => block.type === 'thinking')
+                .map(block => block.thinking ?? '')
+                .join('\n\n');
+
+            logger.debug(`${tag} Success, response length: ${content.length}`);
+            return {
+                content,
+                reasoning,
+                usage: data.usage && {
+                    inputTokens: data.usage.input_tokens ?? 0,
+                    outputTokens: data.usage.output_tokens ?? 0,
+                },
+            };
+        } catch (error: unknown) {
+            logger.debug(`${tag} Fetch error:`, error);
+            if (error instanceof Error && 'cause' in error) {
+                logger.debug(`${tag} Error cause:`, (error as Error & { cause: unknown }).cause);
+            }
+            throw error;
+        }
+    }
+
+    async *completeStream(prompt: string, options?: CompletionOptions): AsyncGenerator<string> {
+        yield* this.chatStream(promptMessages(prompt, options), options);
+    }
+
+    async *chatStream(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<string> {
+        yield* streamWithReasoning(opts => this.requestStream(messages, opts), options);
+    }
+
+    /**
+     * Send a single streaming Messages API request, yielding raw answer and thinking deltas
+     */
+    private async *requestStream(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<RawDelta> {
+        const url = `${this.baseUrl}/messages`;
+        const tag = `[Anthropic]${requestTag(options?.requestId)}`;
+        const body = this.buildBody(messages, options, true);
+        logger.debug(`${tag} Streaming ${url} (${this.model})`);
+        logger.traceBody(`${tag} Request`, body);
+
+        const response = await undiciFetch(url, {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify(body),
+            dispatcher: this.transport.dispatcher,
+            signal: options?.signal,
+        });
+
+        if (!response.ok || !response.body) {
+            throw await this.httpError(response);
+        }
+
+        let inputTokens = 0;
+
+        for await (const data of readServerSentEvents(response.body)) {
+            const event = JSON.parse(data) as AnthropicStreamEvent;
+
+            if (event.type === 'error' && event.error) {
+                throw new Error(`Anthropic API error: ${event.error.type} - ${event.error.message}`);
+            }
+
+            if (event.type === 'message_stop') {
+                return;
+            }
+
+            if (event.type === 'message_start') {
+                inputTokens = event.message?.usage?.input_tokens ?? 0;
+            } else if (event.type === 'message_delta' && event.usage?.output_tokens !== undefined) {
+                // The final count covers the whole answer
+                yield { usage: { inputTokens, outputTokens: event.usage.output_tokens } };
+            }
+
+            if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+                yield { content: event.delta.text };
+            } else if (event.type === 'content_block_delta' && event.delta?.type === 'thinking_delta') {
+                yield { reasoning: event.delta.thinking };
+            }
+        }
+    }
+
+    async isAvailable(): Promise<boolean> {
+        try {
+            const response = await undiciFetch(`${this.baseUrl}/models`, {
+                method: 'GET',
+                headers: this.headers(),
+                dispatcher: this.transport.dispatcher,
+            });
+            return response.ok;
+        } catch {
+            return false;
+        }
+    }
+
+    async listModels(): Promise<string[]> {
+        try {
+            const response = await undiciFetch(`${this.baseUrl}/models`, {
+                method: 'GET',
+                headers: this.headers(),
+                dispatcher: this.transport.dispatcher,
+            });
+
+            if (!response.ok) {
+                return [];
+            }
+
+            const data = await response.json() as { data: Array<{ id: string }> };
+            return data.data.map(m => m.id);
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Build the typed error for a failed response
+     */
+    private async httpError(response: Response): Promise<Error> {
+        const body = await response.text();
+        return createHttpError(formatErrorMessage(response.status, body), {
+            provider: this.name,
+            model: this.model,
+            status: response.status,
+            body,
+            retryAfter: response.headers.get('retry-after'),
+        });
+    }
+
+    private headers(): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            'x-api-key': this.apiKey,
+            'anthropic-version': ANTHROPIC_VERSION,
+        };
+    }
+
+    /**
+     * Build the Messages API request body.
+     * System messages go to the top-level `system` field.
+     */
+    private buildBody(messages: ChatMessage[], options: CompletionOptions | undefined, stream: boolean): object {
+        const system = messages
+            .filter(m => m.role === 'system')
+            .map(m => m.content)
+            .join('\n\n');
+
+        return {
+            model: this.model,
+            system: system || undefined,
+            messages: messages
+                .filter(m => m.role !== 'system')
+                .map(m => ({ role: m.role, content: m.content })),
+            max_tokens: options?.maxTokens ?? 500,
+            temperature: Math.min(options?.temperature ?? 0.7, MAX_TEMPERATURE),
+            stop_sequences: options?.stopSequences,
+            stream: stream || undefined,
+        };
+    }
+}
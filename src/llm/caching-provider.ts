@@ -0,0 +1,123 @@
+/**
+ * Response caching for LLM providers
+ * Returns stored answers for requests already made to the same model.
+ */
+
+import { createHash } from 'crypto';
+import { LLMProvider, CompletionOptions, ChatMessage, FimRequest } from './types';
+import { WrappedProvider, promptMessages } from './wrapped-provider';
+import { ResponseCache } from './response-cache';
+import { logger, requestTag } from '../logging/logger';
+
+/**
+ * Wraps a provider with a content-addressed response cache
+ */
+export class CachingProvider extends WrappedProvider {
+    constructor(
+        inner: LLMProvider,
+        private readonly cache: ResponseCache,
+        /** Identifies the endpoint and model, e.g. "ollama|http://localhost:11434/v1|llama3.2" */
+        private readonly modelKey: string
+    ) {
+        super(inner);
+    }
+
+    async complete(prompt: string, options?: CompletionOptions): Promise<string> {
+        return this.cached(promptMessages(prompt, options), options, () => this.inner.complete(prompt, options));
+    }
+
+    async chat(messages: ChatMessage[], options?: CompletionOptions): Promise<string> {
+        return this.cached(messages, options, () => this.inner.chat(messages, options));
+    }
+
+    async *completeStream(prompt: string, options?: CompletionOptions): AsyncGenerator<string> {
+        yield* this.cachedStream(promptMessages(prompt, options), options, () => this.inner.completeStream(prompt, options));
+    }
+
+    async *chatStream(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<string> {
+        yield* this.cachedStream(messages, options, () => this.inner.chatStream(messages, options));
+    }
+
+    async completeFim(request: FimRequest, options?: CompletionOptions): Promise<string> {
+        return this.cached(request, options, () => this.inner.completeFim!(request, options));
+    }
+
+    /**
+     * Hash of everything that shapes the answer: model, messages or FIM text, and sampling options
+     */
+    private key(prompt: ChatMessage[] | FimRequest, options?: CompletionOptions): string {
+        const request = {
+            model: this.modelKey,
+            // The system prompt is already part of the normalized messages
+            messages: Array.isArray(prompt) ? prompt.map(m => [m.role, m.content]) : undefined,
+            fim: Array.isArray(prompt) ? undefined : [prompt.prefix, prompt.suffix],
+            maxTokens: options?.maxTokens,
+            temperature: options?.temperature,
+            stop: options?.stopSequences,
+            disableThinking: options?.disableThinking,
+            format: options?.responseFormat,
+        };
+        return createHash('sha256').update(JSON.stringify(request)).digest('hex');
+    }
+
+    private async cached(
+        prompt: ChatMessage[] | FimRequest,
+        options: CompletionOptions | undefined,
+        request: () => Promise<string>
+    ): Promise<string> {
+        const mode = options?.cache ?? 'use';
+        if (mode === 'skip') {
+            return request();
+        }
+
+        const key = this.key(prompt, options);
+        if (mode === 'use') {
+            const hit = this.cache.get(key);
+            if (hit !== undefined) {
+                logger.debug(`[ResponseCache]${requestTag(options?.requestId)} Hit for ${this.name}`);
+                return hit;
+            }
+        }
+
+        const answer = await request();
+        // Empty answers are usually failures worth retrying, not results
+        if (answer.trim()) {
+            this.cache.set(key, answer);
+        }
+        return answer;
+    }
+
+    /**
+     * Streams replay a hit as one chunk and store the answer only when the stream completes
+     */
+    private async *cachedStream(
+        messages: ChatMessage[],
+        options: CompletionOptions | undefined,
+        request: () => AsyncIterable<string>
+    ): AsyncGenerator<string> {
+        const mode = options?.cache ?? 'use';
+        if (mode === 'skip') {
+            yield* request();
+            return;
+        }
+
+        const key = this.key(messages, options);
+        if (mode === 'use') {
+            const hit = this.cache.get(key);
+            if (hit !== undefined) {
+                logger.debug(`[ResponseCache]${requestTag(options?.requestId)} Hit for ${this.name}`);
+                yield hit;
+                return;
+            }
+        }
+
+        let answer = '';
+        for await (const delta of request()) {
+            answer += delta;
+            yield delta;
+        }
+        if (answer.trim() && !options?.signal?.aborted) {
+            this.cache.set(key, answer);
+        }
+    }
+}
@@ -0,0 +1,196 @@
+/**
+ * Typed LLM request errors
+ * Lets callers tell auth, rate-limit, timeout and model-not-found failures apart.
+ */
+
+/**
+ * HTTP statuses worth retrying
+ */
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * Base class for errors raised by LLM providers
+ */
+export class LLMError extends Error {
+    constructor(
+        message: string,
+        /** Provider display name */
+        readonly provider: string,
+        /** Whether repeating the same request may succeed */
+        readonly retryable: boolean = false
+    ) {
+        super(message);
+        this.name = 'LLMError';
+    }
+}
+
+/**
+ * Non-success HTTP response
+ */
+export class LLMHttpError extends LLMError {
+    constructor(message: string, provider: string, readonly status: number) {
+        super(message, provider, RETRYABLE_STATUSES.has(status));
+        this.name = 'LLMHttpError';
+    }
+}
+
+/**
+ * Missing or rejected credentials (401/403)
+ */
+export class LLMAuthError extends LLMHttpError {
+    constructor(message: string, provider: string, status: number) {
+        super(message, provider, status);
+        this.name = 'LLMAuthError';
+    }
+}
+
+/**
+ * Too many requests (429)
+ */
+export class LLMRateLimitError extends LLMHttpError {
+    constructor(
+        message: string,
+        provider: string,
+        /** Delay requested by the server's Retry-After header */
+        readonly retryAfterMs?: number
+    ) {
+        super(message, provider, 429);
+        this.name = 'LLMRateLimitError';
+    }
+}
+
+/**
+ * Configured model does not exist on the server
+ */
+export class LLMModelNotFoundError extends LLMHttpError {
+    constructor(message: string, provider: string, readonly model: string) {
+        super(message, provider, 404);
+        this.name = 'LLMModelNotFoundError';
+    }
+}
+
+/**
+ * Server did not accept the connection or respond in time
+ */
+export class LLMTimeoutError extends LLMError {
+    constructor(
+        provider: string,
+        readonly phase: 'connect' | 'response',
+        readonly timeoutMs: number
+    ) {
+        super(`${provider} ${phase === 'connect' ? 'connection' : 'response'} timed out after ${timeoutMs} ms`, provider, true);
+        this.name = 'LLMTimeoutError';
+    }
+}
+
+/**
+ * Network failure before a response was received
+ */
+export class LLMConnectionError extends LLMError {
+    constructor(message: string, provider: string) {
+        super(message, provider, true);
+        this.name = 'LLMConnectionError';
+    }
+}
+
+/**
+ * A setting the request cannot be made with, such as a malformed proxy URL
+ */
+export class LLMConfigError extends LLMError {
+    constructor(
+        message: string,
+        provider: string,
+        /** Setting to fix */
+        readonly setting: string
+    ) {
+        super(message, provider);
+        this.name = 'LLMConfigError';
+    }
+}
+
+/**
+ * Replay provider in strict mode received a request it has no recording for
+ */
+export class LLMReplayMissError extends LLMError {
+    constructor(message: string, provider: string, readonly promptHash: string) {
+        super(message, provider);
+        this.name = 'LLMReplayMissError';
+    }
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Details of a failed HTTP response
+ */
+export interface HttpErrorDetails {
+    provider: string;
+    model: string;
+    status: number;
+    body: string;
+    retryAfter?: string | null;
+}
+
+/**
+ * Create the typed error matching a failed HTTP response
+ */
+export function createHttpError(message: string, details: HttpErrorDetails): LLMHttpError {
+    const { provider, model, status, body } = details;
+
+    if (status === 401 || status === 403) {
+        return new LLMAuthError(message, provider, status);
+    }
+    if (status === 429) {
+        return new LLMRateLimitError(message, provider, parseRetryAfter(details.retryAfter));
+    }
+    if (status === 404 && /model/i.test(body)) {
+        return new LLMModelNotFoundError(message, provider, model);
+    }
+    return new LLMHttpError(message, provider, status);
+}
+
+/**
+ * Convert low-level fetch failures into typed errors; other errors pass through
+ */
+export function toLLMError(error: unknown, provider: string, connectTimeoutMs?: number): unknown {
+    if (error instanceof LLMError || !(error instanceof Error)) {
+        return error;
+    }
+
+    // undici reports network failures as "fetch failed" with the real error in `cause`
+    const cause = (error as Error & { cause?: { code?: string; message?: string } }).cause;
+    if (error.name === 'TypeError' && cause) {
+        if (cause.code === 'UND_ERR_CONNECT_TIMEOUT') {
+            return new LLMTimeoutError(provider, 'connect', connectTimeoutMs ?? 0);
+        }
+        return new LLMConnectionError(`${provider} connection failed: ${cause.message ?? error.message}`, provider);
+    }
+
+    return error;
+}
+
+/**
+ * Check whether a failure means the provider is unavailable rather than the request being wrong
+ */
+export function isUnavailable(error: unknown): boolean {
+    return error instanceof LLMConnectionError
+        || error instanceof LLMTimeoutError
+        || error instanceof LLMModelNotFoundError
+        || error instanceof LLMAuthError
+        || (error instanceof LLMHttpError && error.retryable);
+}
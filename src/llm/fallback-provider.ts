@@ -0,0 +1,160 @@
+/**
+ * Fallback chain of LLM providers
+ * Tries providers in order and moves on when one is unavailable.
+ */
+
+import { LLMProvider, CompletionOptions, ChatMessage, ProviderHealth, FimRequest } from './types';
+import { isUnavailable } from './errors';
+import { logger, requestTag } from '../logging/logger';
+
+/**
+ * How long a provider that just failed is skipped (ms)
+ */
+const COOLDOWN_MS = 30000;
+
+export class FallbackProvider implements LLMProvider {
+    private unavailableUntil = new Map<LLMProvider, number>();
+
+    constructor(private readonly providers: LLMProvider[]) {
+        if (providers.length === 0) {
+            throw new Error('Fallback chain needs at least one provider');
+        }
+    }
+
+    get name(): string {
+        return this.providers[0].name;
+    }
+
+    async complete(prompt: string, options?: CompletionOptions): Promise<string> {
+        return this.withFallback(p => p.complete(prompt, options), options);
+    }
+
+    async chat(messages: ChatMessage[], options?: CompletionOptions): Promise<string> {
+        return this.withFallback(p => p.chat(messages, options), options);
+    }
+
+    async *completeStream(prompt: string, options?: CompletionOptions): AsyncGenerator<string> {
+        yield* this.streamWithFallback(p => p.completeStream(prompt, options), options);
+    }
+
+    async *chatStream(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<string> {
+        yield* this.streamWithFallback(p => p.chatStream(messages, options), options);
+    }
+
+    /**
+     * FIM requests go to the providers that support them, in chain order.
+     * While all of them are cooling down after a failure, callers use chat.
+     */
+    get supportsFim(): boolean {
+        const now = Date.now();
+        return this.providers.some(p => p.supportsFim && this.isReady(p, now));
+    }
+
+    async completeFim(request: FimRequest, options?: CompletionOptions): Promise<string> {
+        return this.withFallback(p => p.completeFim!(request, options), options, p => p.supportsFim ?? false);
+    }
+
+    async isAvailable(): Promise<boolean> {
+        return (await this.checkHealth()).available;
+    }
+
+    async listModels(): Promise<string[]> {
+        const primary = this.providers[0];
+        return primary.listModels ? primary.listModels() : [];
+    }
+
+    async checkHealth(): Promise<ProviderHealth> {
+        const reasons: string[] = [];
+
+        for (const [index, provider] of this.providers.entries()) {
+            const health = provider.checkHealth
+                ? await provider.checkHealth()
+                : { available: await provider.isAvailable() };
+
+            if (health.available) {
+                return index === 0
+                    ? health
+                    : { available: true, message: `Using fallback ${provider.name}: ${reasons.join('; ')}` };
+            }
+            reasons.push(health.message ?? `${provider.name} is not available`);
+        }
+
+        return { available: false, message: reasons.join('; ') };
+    }
+
+    /**
+     * Providers in the order they should be tried, skipping ones that failed recently
+     */
+    private candidates(accepts: (provider: LLMProvider) => boolean = () => true): LLMProvider[] {
+        const now = Date.now();
+        const usable = this.providers.filter(accepts);
+        const ready = usable.filter(p => this.isReady(p, now));
+        // When everything is cooling down, try them all rather than failing outright
+        return ready.length > 0 ? ready : usable;
+    }
+
+    private isReady(provider: LLMProvider, now: number): boolean {
+        return (this.unavailableUntil.get(provider) ?? 0) <= now;
+    }
+
+    private markUnavailable(provider: LLMProvider, error: unknown, options?: CompletionOptions): void {
+        this.unavailableUntil.set(provider, Date.now() + COOLDOWN_MS);
+        logger.warn(`[Fallback]${requestTag(options?.requestId)} ${provider.name} unavailable (${error instanceof Error ? error.message : error}), trying next provider`);
+    }
+
+    private async withFallback(
+        request: (provider: LLMProvider) => Promise<string>,
+        options?: CompletionOptions,
+        accepts?: (provider: LLMProvider) => boolean
+    ): Promise<string> {
+        const candidates = this.candidates(accepts);
+        let lastError: unknown;
+
+        for (const provider of candidates) {
+            try {
+                const result = await request(provider);
+                this.unavailableUntil.delete(provider);
+                return result;
+            } catch (error) {
+                if (options?.signal?.aborted || !isUnavailable(error)) {
+                    throw error;
+                }
+                this.markUnavailable(provider, error, options);
+                lastError = error;
+            }
+        }
+
+        throw lastError;
+    }
+
+    /**
+     * Streams fall back only before the first chunk arrives
+     */
+    private async *streamWithFallback(
+        request: (provider: LLMProvider) => AsyncIterable<string>,
+        options?: CompletionOptions
+    ): AsyncGenerator<string> {
+        const candidates = this.candidates();
+        let lastError: unknown;
+
+        for (const provider of candidates) {
+            let started = false;
+            try {
+                for await (const delta of request(provider)) {
+                    started = true;
+                    yield delta;
+                }
+                this.unavailableUntil.delete(provider);
+                return;
+            } catch (error) {
+                if (started || options?.signal?.aborted || !isUnavailable(error)) {
+                    throw error;
+                }
+                this.markUnavailable(provider, error, options);
+                lastError = error;
+            }
+        }
+
+        throw lastError;
+    }
+}
@@ -0,0 +1,70 @@
+/**
+ * Fill-in-the-middle prompt formats
+ * Code and base models complete the text between a prefix and a suffix when
+ * both are wrapped in their family's special tokens.
+ */
+
+import { FimRequest, FimTemplate } from './types';
+
+/**
+ * Templates of common FIM-trained model families, keyed by a part of the model name
+ */
+export const DEFAULT_FIM_TEMPLATES: Record<string, FimTemplate> = {
+    'qwen': {
+        template: '<|fim_prefix|>{prefix}<|fim_suffix|>{suffix}<|fim_middle|>',
+        stop: ['<|endoftext|>', '<|fim_pad|>', '<|file_sep|>'],
+    },
+    'codellama': {
+        template: '<PRE> {prefix} <SUF>{suffix} <MID>',
+        stop: ['<EOT>'],
+    },
+    'deepseek-coder': {
+        template: '<｜fim▁begin｜>{prefix}<｜fim▁hole｜>{suffix}<｜fim▁end｜>',
+        stop: ['<｜end▁of▁sentence｜>'],
+    },
+    'starcoder': {
+        template: '<fim_prefix>{prefix}<fim_suffix>{suffix}<fim_middle>',
+        stop: ['<|endoftext|>', '<file_sep>'],
+    },
+    'codegemma': {
+        template: '<|fim_prefix|>{prefix}<|fim_suffix|>{suffix}<|fim_middle|>',
+        stop: ['<|file_separator|>', '<|fim_prefix|>'],
+    },
+    'codestral': {
+        template: '[SUFFIX]{suffix}[PREFIX]{prefix}',
+        stop: ['</s>'],
+    },
+};
+
+/**
+ * Template for a model: the longest family key contained in its name wins,
+ * so "deepseek-coder" is preferred over a shorter key it contains
+ */
+export function findFimTemplate(
+    model: string,
+    templates: Record<string, FimTemplate> = DEFAULT_FIM_TEMPLATES
+): FimTemplate | undefined {
+    const name = model.toLowerCase();
+    const family = Object.keys(templates)
+        .filter(key => name.includes(key.toLowerCase()))
+        .sort((a, b) => b.length - a.length)[0];
+    return family === undefined ? undefined : templates[family];
+}
+
+/**
+ * Raw completion prompt for a FIM request
+ */
+export function renderFimPrompt(template: FimTemplate, request: FimRequest): string {
+    // A replacer function keeps "$" sequences in the document text literal
+    return template.template
+        .replace('{prefix}', () => request.prefix)
+        .replace('{suffix}', () => request.suffix);
+}
+
+/**
+ * Stop sequences of the template followed by the request's own
+ */
+export function fimStopSequences(template: FimTemplate, stop?: string[]): string[] | undefined {
+    const all = [...(template.stop ?? []), ...(stop ?? [])];
+    return all.length > 0 ? all : undefined;
+}
@@ -2,7 +2,41 @@
  * LLM module exports
  */
 
-export { LLMProvider, CompletionOptions, ChatMessage, ProviderConfig, DocumentType, ExtensionSettings } from './types';
+export { LLMProvider, CompletionOptions, ChatMessage, ProviderConfig, ServerProviderConfig, ReplayProviderConfig, ReplayMode, DocumentType, ExtensionSettings, ProviderEndpoint, ProviderProfile, ApiKeyLookup, LLMTask, CacheMode, TokenUsage, ModelPrice, ResponseFormat, FimRequest, FimTemplate, RequestPriority } from './types';
 export { OpenAIProvider } from './openai-provider';
+export { DEFAULT_FIM_TEMPLATES, findFimTemplate, renderFimPrompt } from './fim';
 export { OllamaProvider } from './ollama-provider';
-export { createProvider, createProviderFromSettings } from './provider-factory';
+export { AnthropicProvider } from './anthropic-provider';
+export { ReplayProvider, promptHash } from './replay-provider';
+export {
+    createProvider,
+    createProviderFromSettings,
+    createRouterFromSettings,
+    providerConfigFromSettings,
+    providerConfigFromEndpoint,
+    resiliencePolicyFromSettings,
+    responseCacheOptionsFromSettings,
+    ProviderServices,
+} from './provider-factory';
+export { ResilientProvider, ResiliencePolicy, DEFAULT_RESILIENCE_POLICY } from './resilient-provider';
+export { FallbackProvider } from './fallback-provider';
+export { TaskRouter } from './task-router';
+export { ResponseCache, ResponseCacheOptions } from './response-cache';
+export { CachingProvider } from './caching-provider';
+export { UsageLedger, UsageEntry, UsageTotals, SpendingCaps, totalUsage, groupUsage, startOfDay, startOfMonth } from './usage-ledger';
+export { MeteredProvider } from './metered-provider';
+export { RequestQueue, QueueState, QueuedProvider, withPriority } from './request-queue';
+export { DEFAULT_PRICES, priceFor, estimateCost } from './pricing';
+export { closeDispatchers } from './transport';
+export {
+    LLMError,
+    LLMHttpError,
+    LLMAuthError,
+    LLMRateLimitError,
+    LLMModelNotFoundError,
+    LLMTimeoutError,
+    LLMConnectionError,
+    LLMReplayMissError,
+    LLMConfigError,
+    isUnavailable,
+} from './errors';
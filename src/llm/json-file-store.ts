@@ -0,0 +1,85 @@
+/**
+ * JSON file backing an in-memory store
+ * Batches changes into one delayed write and replaces the file atomically,
+ * so a crash never leaves it half written.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../logging/logger';
+
+/**
+ * Delay before changes are written to disk (ms)
+ */
+const SAVE_DELAY_MS = 2000;
+
+export class JsonFileStore<T> {
+    private saveTimer: ReturnType<typeof setTimeout> | undefined;
+
+    constructor(
+        /** Backing file; nothing is read or written when omitted */
+        private readonly filePath: string | undefined,
+        /** Log prefix of the owner, e.g. "ResponseCache" */
+        private readonly owner: string,
+        /** Current contents to write */
+        private readonly snapshot: () => T
+    ) { }
+
+    /**
+     * Contents saved in the file; undefined when there is no file or it cannot be read
+     */
+    async read(): Promise<T | undefined> {
+        if (!this.filePath) {
+            return undefined;
+        }
+
+        try {
+            return JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')) as T;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                logger.error(`[${this.owner}] Cannot read ${path.basename(this.filePath)}, starting empty:`, error);
+            }
+            return undefined;
+        }
+    }
+
+    /**
+     * Write the contents after a short delay, together with later changes
+     */
+    scheduleSave(): void {
+        if (!this.filePath || this.saveTimer) {
+            return;
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            this.save().catch(error => logger.error(`[${this.owner}] Cannot write ${path.basename(this.filePath!)}:`, error));
+        }, SAVE_DELAY_MS);
+        // Never keep the process alive just to save
+        this.saveTimer.unref?.();
+    }
+
+    /**
+     * Write pending changes now
+     */
+    async flush(): Promise<void> {
+        if (this.saveTimer) {
+            await this.save();
+        }
+    }
+
+    /**
+     * Write the contents now, replacing the file atomically
+     */
+    async save(): Promise<void> {
+        clearTimeout(this.saveTimer);
+        this.saveTimer = undefined;
+        if (!this.filePath) {
+            return;
+        }
+
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(tmpPath, JSON.stringify(this.snapshot()), 'utf8');
+        await fs.promises.rename(tmpPath, this.filePath);
+    }
+}
@@ -0,0 +1,173 @@
+/**
+ * Usage metering for LLM providers
+ * Records each call in the usage ledger with token counts, latency and cost.
+ */
+
+import { LLMProvider, CompletionOptions, ChatMessage, FimRequest, ProviderType, ModelPrice, TokenUsage } from './types';
+import { WrappedProvider, promptMessages } from './wrapped-provider';
+import { UsageLedger, SpendingCaps } from './usage-ledger';
+import { estimateCost, priceFor } from './pricing';
+import { heuristicTokenizer } from '../analysis/context-budget';
+
+/**
+ * Rough per-message overhead of chat formats (role markers, separators)
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Text of a FIM request, for estimating its size; the special tokens are covered by the message overhead
+ */
+function fimMessages(request: FimRequest): ChatMessage[] {
+    return [{ role: 'user', content: request.prefix + request.suffix }];
+}
+
+/**
+ * Token counts estimated from the text when the server reports none
+ */
+function estimateUsage(messages: ChatMessage[], answer: string): TokenUsage {
+    return {
+        inputTokens: messages.reduce(
+            (sum, m) => sum + heuristicTokenizer.countTokens(m.content) + MESSAGE_OVERHEAD_TOKENS,
+            0
+        ),
+        outputTokens: heuristicTokenizer.countTokens(answer),
+    };
+}
+
+/**
+ * Wraps a provider to record every call in the usage ledger.
+ * Retries and reasoning re-requests are summed into one entry.
+ */
+export class MeteredProvider extends WrappedProvider {
+    constructor(
+        inner: LLMProvider,
+        private readonly ledger: UsageLedger,
+        private readonly provider: ProviderType,
+        private readonly model: string,
+        /** Configured prices, overriding the built-in table */
+        private readonly prices: Record<string, ModelPrice> = {},
+        /** Caps the retry after a reasoning-only answer must stay within */
+        private readonly caps: SpendingCaps = { dailyCap: 0, monthlyCap: 0 }
+    ) {
+        super(inner);
+    }
+
+    async complete(prompt: string, options?: CompletionOptions): Promise<string> {
+        return this.metered(promptMessages(prompt, options), options, opts => this.inner.complete(prompt, opts));
+    }
+
+    async chat(messages: ChatMessage[], options?: CompletionOptions): Promise<string> {
+        return this.metered(messages, options, opts => this.inner.chat(messages, opts));
+    }
+
+    async *completeStream(prompt: string, options?: CompletionOptions): AsyncGenerator<string> {
+        yield* this.meteredStream(promptMessages(prompt, options), options, opts => this.inner.completeStream(prompt, opts));
+    }
+
+    async *chatStream(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<string> {
+        yield* this.meteredStream(messages, options, opts => this.inner.chatStream(messages, opts));
+    }
+
+    async completeFim(request: FimRequest, options?: CompletionOptions): Promise<string> {
+        return this.metered(fimMessages(request), options, opts => this.inner.completeFim!(request, opts));
+    }
+
+    /**
+     * Output tokens the spending caps still pay for, within the caller's limit
+     */
+    private retryTokenLimit(options: CompletionOptions | undefined): number | undefined {
+        const price = priceFor(this.provider, this.model, this.prices);
+        const left = this.ledger.remaining(this.caps);
+        if (!price || price.output <= 0 || left === undefined) {
+            return options?.maxRetryTokens;
+        }
+        const affordable = Math.floor(left * 1_000_000 / price.output);
+        return Math.min(options?.maxRetryTokens ?? Infinity, affordable);
+    }
+
+    /**
+     * Options that collect the reported usage while still passing it to the caller
+     */
+    private collecting(options: CompletionOptions | undefined, reported: TokenUsage[]): CompletionOptions {
+        return {
+            ...options,
+            maxRetryTokens: this.retryTokenLimit(options),
+            onUsage: usage => {
+                reported.push(usage);
+                options?.onUsage?.(usage);
+            },
+        };
+    }
+
+    private async metered(
+        messages: ChatMessage[],
+        options: CompletionOptions | undefined,
+        request: (options: CompletionOptions) => Promise<string>
+    ): Promise<string> {
+        const started = Date.now();
+        const reported: TokenUsage[] = [];
+        let answer: string | undefined;
+
+        try {
+            answer = await request(this.collecting(options, reported));
+            return answer;
+        } finally {
+            // Failed and aborted requests still cost what the server reported
+            if (answer !== undefined || reported.length > 0) {
+                this.record(messages, answer ?? '', reported, options, started);
+            }
+        }
+    }
+
+    /**
+     * Streams are recorded when they end, including ones cut short after some output
+     */
+    private async *meteredStream(
+        messages: ChatMessage[],
+        options: CompletionOptions | undefined,
+        request: (options: CompletionOptions) => AsyncIterable<string>
+    ): AsyncGenerator<string> {
+        const started = Date.now();
+        const reported: TokenUsage[] = [];
+        let answer = '';
+
+        try {
+            for await (const delta of request(this.collecting(options, reported))) {
+                answer += delta;
+                yield delta;
+            }
+        } finally {
+            if (answer || reported.length > 0) {
+                this.record(messages, answer, reported, options, started);
+            }
+        }
+    }
+
+    private record(
+        messages: ChatMessage[],
+        answer: string,
+        reported: TokenUsage[],
+        options: CompletionOptions | undefined,
+        started: number
+    ): void {
+        const estimated = reported.length === 0;
+        const usage = estimated
+            ? estimateUsage(messages, answer)
+            : reported.reduce((sum, u) => ({
+                inputTokens: sum.inputTokens + u.inputTokens,
+                outputTokens: sum.outputTokens + u.outputTokens,
+            }));
+        const price = priceFor(this.provider, this.model, this.prices);
+
+        this.ledger.record({
+            timestamp: Date.now(),
+            task: options?.task,
+            provider: this.provider,
+            model: this.model,
+            ...usage,
+            estimated,
+            latencyMs: Date.now() - started,
+            cost: price && estimateCost(price, usage.inputTokens, usage.outputTokens),
+        });
+    }
+}
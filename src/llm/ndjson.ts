@@ -0,0 +1,31 @@
+/**
+ * Newline-delimited JSON parsing for Ollama's native streaming API
+ */
+
+/**
+ * Read non-empty lines from a streamed response body
+ */
+export async function* readJsonLines(
+    body: AsyncIterable<Uint8Array>
+): AsyncGenerator<string> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const chunk of body) {
+        buffer += decoder.decode(chunk, { stream: true });
+
+        let newlineIndex: number;
+        while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+            const line = buffer.slice(0, newlineIndex).trim();
+            buffer = buffer.slice(newlineIndex + 1);
+            if (line) {
+                yield line;
+            }
+        }
+    }
+
+    const trailing = buffer.trim();
+    if (trailing) {
+        yield trailing;
+    }
+}
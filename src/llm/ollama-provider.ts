@@ -1,11 +1,20 @@
 /**
  * Ollama LLM provider
- * Connects to local Ollama instance via OpenAI-compatible API
- * Uses undici for direct HTTP requests (bypasses VS Code proxy)
+ * Connects to local Ollama instance via the OpenAI-compatible API or the native /api/chat API
+ * Uses undici through the shared transport (honors proxy and CA settings)
  */
 
-import { LLMProvider, CompletionOptions, ChatMessage, OllamaProviderConfig } from './types';
-import { Agent, fetch as undiciFetch } from 'undici';
+import { LLMProvider, CompletionOptions, ChatMessage, OllamaProviderConfig, OllamaApiMode, ProviderHealth, TokenUsage, FimRequest, FimTemplate } from './types';
+import { Response, fetch as undiciFetch } from 'undici';
+import { EndpointTransport } from './transport';
+import { promptMessages } from './wrapped-provider';
+import { readServerSentEvents } from './sse';
+import { readJsonLines } from './ndjson';
+import { createHttpError } from './errors';
+import { completeWithReasoning, streamWithReasoning, RawCompletion, RawDelta } from './reasoning';
+import { jsonSchemaFormat, toTokenUsage } from './openai-provider';
+import { fimStopSequences, renderFimPrompt } from './fim';
+import { logger, requestTag } from '../logging/logger';
 
 interface OllamaModelResponse {
     models: Array<{ name: string }>;
@@ -18,42 +27,105 @@ interface OllamaChatResponse {
             reasoning?: string; // Qwen3 and other reasoning models put thinking here
         };
     }>;
+    usage?: { prompt_tokens: number; completion_tokens: number };
     error?: string;
 }
 
-// Create a no-proxy agent for direct connections
-const noProxyAgent = new Agent({
-    connect: {
-        // This bypasses any proxy settings
-    }
-});
+interface OllamaNativeChatResponse {
+    message?: {
+        content: string;
+        thinking?: string;
+    };
+    done?: boolean;
+    /** Prompt and answer token counts, sent when done */
+    prompt_eval_count?: number;
+    eval_count?: number;
+    error?: string;
+}
+
+interface OllamaGenerateResponse {
+    response?: string;
+    done?: boolean;
+    prompt_eval_count?: number;
+    eval_count?: number;
+    error?: string;
+}
+
+interface OllamaStreamChunk {
+    choices: Array<{
+        delta?: {
+            content?: string | null;
+            reasoning?: string | null;
+        };
+    }>;
+    usage?: { prompt_tokens: number; completion_tokens: number } | null;
+    error?: string | { message: string };
+}
+
+/**
+ * Token counts of a finished native response
+ */
+function nativeUsage(response: OllamaNativeChatResponse | OllamaGenerateResponse): TokenUsage | undefined {
+    return response.done && response.eval_count !== undefined
+        ? { inputTokens: response.prompt_eval_count ?? 0, outputTokens: response.eval_count }
+        : undefined;
+}
 
 export class OllamaProvider implements LLMProvider {
     readonly name = 'Ollama';
 
     private baseUrl: string;
+    private nativeUrl: string;
     private model: string;
+    private apiMode: OllamaApiMode;
+    private numCtx?: number;
+    private keepAlive?: string;
+    private think?: boolean;
+    private fim?: FimTemplate;
+    private transport: EndpointTransport;
 
     constructor(config: OllamaProviderConfig) {
         this.baseUrl = config.baseUrl.replace(/\/$/, ''); // Remove trailing slash
+        // The native API lives at the server root, next to the /v1 compatibility layer
+        this.nativeUrl = this.baseUrl.replace(/\/v1$/, '');
         this.model = config.model;
+        this.apiMode = config.apiMode ?? 'openai';
+        this.numCtx = config.numCtx || undefined;
+        this.keepAlive = config.keepAlive || undefined;
+        this.think = config.think;
+        this.fim = config.fim;
+        this.transport = new EndpointTransport(this.baseUrl, config.transport, config.connectTimeoutMs);
     }
 
     async complete(prompt: string, options?: CompletionOptions): Promise<string> {
-        const messages: ChatMessage[] = [];
-
-        if (options?.systemPrompt) {
-            messages.push({ role: 'system', content: options.systemPrompt });
-        }
-        messages.push({ role: 'user', content: prompt });
-
-        return this.chat(messages, options);
+        return this.chat(promptMessages(prompt, options), options);
     }
 
     async chat(messages: ChatMessage[], options?: CompletionOptions): Promise<string> {
+        return completeWithReasoning(
+            opts => this.apiMode === 'native'
+                ? this.chatNative(messages, opts)
+                : this.chatCompatible(messages, opts),
+            options
+        );
+    }
+
+    /**
+     * Chat through the OpenAI-compatible /v1 API
+     */
+    private async chatCompatible(messages: ChatMessage[], options?: CompletionOptions): Promise<RawCompletion> {
         const url = `${this.baseUrl}/chat/completions`;
-        console.log(`[Ollama] Calling: ${url}`);
-        console.log(`[Ollama] Model: ${this.model}`);
+        const tag = `[Ollama]${requestTag(options?.requestId)}`;
+        const body = {
+            model: this.model,
+            messages: messages.map(m => ({ role: m.role, content: m.content })),
+            max_tokens: options?.maxTokens ?? 500,
+            temperature: options?.temperature ?? 0.7,
+            stop: options?.stopSequences,
+            response_format: jsonSchemaFormat(options),
+        };
+        logger.debug(`${tag} Calling ${url} (${this.model})`);
+        logger.traceBody(`${tag} Request`, body);
 
         try {
             const response = await undiciFetch(url, {
@@ -61,82 +133,333 @@ export class OllamaProvider implements LLMProvider {
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({
-                    model: this.model,
-                    messages: messages.map(m => ({ role: m.role, content: m.content })),
-                    max_tokens: options?.maxTokens ?? 500,
-                    temperature: options?.temperature ?? 0.7,
-                    stop: options?.stopSequences,
-                }),
-                dispatcher: noProxyAgent,
+                body: JSON.stringify(body),
+                dispatcher: this.transport.dispatcher,
+                signal: options?.signal,
             });
 
             if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`Ollama API error: ${response.status} - ${errorText}`);
+                throw await this.httpError(response);
             }
 
             const data = await response.json() as OllamaChatResponse;
-            console.log('[Ollama] Raw response:', JSON.stringify(data, null, 2));
+            logger.traceBody(`${tag} Response`, data);
 
             if (data.error) {
                 throw new Error(`Ollama API error: ${data.error}`);
             }
 
             const message = data.choices[0]?.message;
-            let content = message?.content ?? '';
+            const content = message?.content ?? '';
 
-            // For reasoning models like qwen3, if content is empty but reasoning exists,
-            // the model ran out of tokens during thinking.
-            if (!content && message?.reasoning) {
-                console.log('[Ollama] Warning: Model returned reasoning but no content. Use a non-thinking model (e.g., qwen3:4b-q4_0).');
-            }
-
-            console.log('[Ollama] Success, response length:', content.length);
-            return content.trim();
+            logger.debug(`${tag} Success, response length: ${content.length}`);
+            return { content, reasoning: message?.reasoning, usage: toTokenUsage(data.usage) };
         } catch (error: unknown) {
-            console.error('[Ollama] Fetch error:', error);
+            logger.debug(`${tag} Fetch error:`, error);
             if (error instanceof Error && 'cause' in error) {
-                console.error('[Ollama] Error cause:', (error as Error & { cause: unknown }).cause);
+                logger.debug(`${tag} Error cause:`, (error as Error & { cause: unknown }).cause);
             }
             throw error;
         }
     }
 
-    async isAvailable(): Promise<boolean> {
+    async *completeStream(prompt: string, options?: CompletionOptions): AsyncGenerator<string> {
+        yield* this.chatStream(promptMessages(prompt, options), options);
+    }
+
+    async *chatStream(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<string> {
+        yield* streamWithReasoning(
+            opts => this.apiMode === 'native'
+                ? this.chatStreamNative(messages, opts)
+                : this.chatStreamCompatible(messages, opts),
+            options
+        );
+    }
+
+    /**
+     * Stream through the OpenAI-compatible /v1 API
+     */
+    private async *chatStreamCompatible(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<RawDelta> {
+        const url = `${this.baseUrl}/chat/completions`;
+        const tag = `[Ollama]${requestTag(options?.requestId)}`;
+        const body = {
+            model: this.model,
+            messages: messages.map(m => ({ role: m.role, content: m.content })),
+            max_tokens: options?.maxTokens ?? 500,
+            temperature: options?.temperature ?? 0.7,
+            stop: options?.stopSequences,
+            response_format: jsonSchemaFormat(options),
+            stream: true,
+            stream_options: { include_usage: true },
+        };
+        logger.debug(`${tag} Streaming ${url} (${this.model})`);
+        logger.traceBody(`${tag} Request`, body);
+
+        const response = await undiciFetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body),
+            dispatcher: this.transport.dispatcher,
+            signal: options?.signal,
+        });
+
+        if (!response.ok || !response.body) {
+            throw await this.httpError(response);
+        }
+
+        for await (const data of readServerSentEvents(response.body)) {
+            const chunk = JSON.parse(data) as OllamaStreamChunk;
+
+            if (chunk.error) {
+                const message = typeof chunk.error === 'string' ? chunk.error : chunk.error.message;
+                throw new Error(`Ollama API error: ${message}`);
+            }
+
+            const delta = chunk.choices[0]?.delta;
+            yield {
+                content: delta?.content ?? undefined,
+                reasoning: delta?.reasoning ?? undefined,
+                usage: toTokenUsage(chunk.usage),
+            };
+        }
+    }
+
+    /**
+     * Chat through the native /api/chat API
+     */
+    private async chatNative(messages: ChatMessage[], options?: CompletionOptions): Promise<RawCompletion> {
+        const url = `${this.nativeUrl}/api/chat`;
+        const tag = `[Ollama]${requestTag(options?.requestId)}`;
+        const body = this.buildNativeBody(messages, options, false);
+        logger.debug(`${tag} Calling ${url} (${this.model})`);
+        logger.traceBody(`${tag} Request`, body);
+
         try {
-            // Use native Ollama API to check availability
-            const nativeUrl = this.baseUrl.replace('/v1', '');
-            console.log(`[Ollama] Checking availability at: ${nativeUrl}/api/tags`);
-            const response = await undiciFetch(`${nativeUrl}/api/tags`, {
-                method: 'GET',
-                dispatcher: noProxyAgent,
+            const response = await undiciFetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(body),
+                dispatcher: this.transport.dispatcher,
+                signal: options?.signal,
             });
-            console.log(`[Ollama] Available: ${response.ok}`);
-            return response.ok;
-        } catch (error) {
-            console.error('[Ollama] Availability check failed:', error);
-            return false;
+
+            if (!response.ok) {
+                throw await this.httpError(response);
+            }
+
+            const data = await response.json() as OllamaNativeChatResponse;
+            logger.traceBody(`${tag} Response`, data);
+
+            if (data.error) {
+                throw new Error(`Ollama API error: ${data.error}`);
+            }
+
+            const content = data.message?.content ?? '';
+
+            logger.debug(`${tag} Success, response length: ${content.length}`);
+            return { content, reasoning: data.message?.thinking, usage: nativeUsage(data) };
+        } catch (error: unknown) {
+            logger.debug(`${tag} Fetch error:`, error);
+            if (error instanceof Error && 'cause' in error) {
+                logger.debug(`${tag} Error cause:`, (error as Error & { cause: unknown }).cause);
+            }
+            throw error;
         }
     }
 
-    async listModels(): Promise<string[]> {
+    /**
+     * Stream through the native /api/chat API (newline-delimited JSON)
+     */
+    private async *chatStreamNative(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<RawDelta> {
+        const url = `${this.nativeUrl}/api/chat`;
+        const tag = `[Ollama]${requestTag(options?.requestId)}`;
+        const body = this.buildNativeBody(messages, options, true);
+        logger.debug(`${tag} Streaming ${url} (${this.model})`);
+        logger.traceBody(`${tag} Request`, body);
+
+        const response = await undiciFetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body),
+            dispatcher: this.transport.dispatcher,
+            signal: options?.signal,
+        });
+
+        if (!response.ok || !response.body) {
+            throw await this.httpError(response);
+        }
+
+        for await (const line of readJsonLines(response.body)) {
+            const chunk = JSON.parse(line) as OllamaNativeChatResponse;
+
+            if (chunk.error) {
+                throw new Error(`Ollama API error: ${chunk.error}`);
+            }
+
+            yield {
+                content: chunk.message?.content,
+                reasoning: chunk.message?.thinking,
+                usage: nativeUsage(chunk),
+            };
+
+            if (chunk.done) {
+                return;
+            }
+        }
+    }
+
+    /**
+     * Build the /api/chat request body
+     */
+    private buildNativeBody(messages: ChatMessage[], options: CompletionOptions | undefined, stream: boolean): object {
+        return {
+            model: this.model,
+            messages: messages.map(m => ({ role: m.role, content: m.content })),
+            stream,
+            think: options?.disableThinking ? false : this.think,
+            format: options?.responseFormat?.schema,
+            keep_alive: this.keepAlive,
+            options: {
+                num_predict: options?.maxTokens ?? 500,
+                temperature: options?.temperature ?? 0.7,
+                stop: options?.stopSequences,
+                num_ctx: this.numCtx,
+            },
+        };
+    }
+
+    get supportsFim(): boolean {
+        return this.fim !== undefined;
+    }
+
+    /**
+     * Fill in the middle through the native /api/generate API in raw mode, so the
+     * FIM tokens reach the model without its chat template (in both API modes)
+     */
+    async completeFim(request: FimRequest, options?: CompletionOptions): Promise<string> {
+        if (!this.fim) {
+            throw new Error(`No fill-in-the-middle format configured for ${this.model}`);
+        }
+
+        const url = `${this.nativeUrl}/api/generate`;
+        const tag = `[Ollama]${requestTag(options?.requestId)}`;
+        const body = {
+            model: this.model,
+            prompt: renderFimPrompt(this.fim, request),
+            raw: true,
+            stream: false,
+            keep_alive: this.keepAlive,
+            options: {
+                num_predict: options?.maxTokens ?? 500,
+                temperature: options?.temperature ?? 0.7,
+                stop: fimStopSequences(this.fim, options?.stopSequences),
+                num_ctx: this.numCtx,
+            },
+        };
+        logger.debug(`${tag} Calling ${url} (${this.model}, fill-in-the-middle)`);
+        logger.traceBody(`${tag} Request`, body);
+
+        const response = await undiciFetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body),
+            dispatcher: this.transport.dispatcher,
+            signal: options?.signal,
+        });
+
+        if (!response.ok) {
+            throw await this.httpError(response);
+        }
+
+        const data = await response.json() as OllamaGenerateResponse;
+        logger.traceBody(`${tag} Response`, data);
+
+        if (data.error) {
+            throw new Error(`Ollama API error: ${data.error}`);
+        }
+
+        const usage = nativeUsage(data);
+        if (usage) {
+            options?.onUsage?.(usage);
+        }
+        return data.response ?? '';
+    }
+
+    /**
+     * Build the typed error for a failed response, pointing at `ollama pull` when the model is missing
+     */
+    private async httpError(response: Response): Promise<Error> {
+        const body = await response.text();
+        const message = response.status === 404 && /not found/i.test(body)
+            ? `Ollama model "${this.model}" is not pulled yet - run "ollama pull ${this.model}"`
+            : `Ollama API error: ${response.status} - ${body}`;
+
+        return createHttpError(message, {
+            provider: this.name,
+            model: this.model,
+            status: response.status,
+            body,
+            retryAfter: response.headers.get('retry-after'),
+        });
+    }
+
+    /**
+     * Fetch installed model names from /api/tags (null when the server is unreachable)
+     */
+    private async fetchInstalledModels(): Promise<string[] | null> {
         try {
-            // Use native Ollama API for model listing
-            const nativeUrl = this.baseUrl.replace('/v1', '');
-            const response = await undiciFetch(`${nativeUrl}/api/tags`, {
+            logger.debug(`[Ollama] Checking availability at: ${this.nativeUrl}/api/tags`);
+            const response = await undiciFetch(`${this.nativeUrl}/api/tags`, {
                 method: 'GET',
-                dispatcher: noProxyAgent,
+                dispatcher: this.transport.dispatcher,
             });
 
             if (!response.ok) {
-                return [];
+                return null;
             }
 
             const data = await response.json() as OllamaModelResponse;
             return data.models.map(m => m.name);
-        } catch {
-            return [];
+        } catch (error) {
+            logger.warn('[Ollama] Availability check failed:', error);
+            return null;
         }
     }
+
+    async checkHealth(): Promise<ProviderHealth> {
+        const models = await this.fetchInstalledModels();
+
+        if (!models) {
+            return { available: false, message: `Ollama is not reachable at ${this.nativeUrl}` };
+        }
+
+        // Ollama reports untagged models as "<name>:latest"
+        const pulled = models.some(name => name === this.model || name === `${this.model}:latest`);
+        if (!pulled) {
+            return {
+                available: false,
+                message: `Model "${this.model}" is not pulled yet - run "ollama pull ${this.model}"`,
+            };
+        }
+
+        return { available: true };
+    }
+
+    async isAvailable(): Promise<boolean> {
+        const health = await this.checkHealth();
+        logger.debug(`[Ollama] Available: ${health.available}`);
+        return health.available;
+    }
+
+    async listModels(): Promise<string[]> {
+        return (await this.fetchInstalledModels()) ?? [];
+    }
 }
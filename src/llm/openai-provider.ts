@@ -1,26 +1,68 @@
 /**
  * OpenAI-compatible LLM provider
  * Works with OpenAI API, LM Studio, LocalAI, and other compatible endpoints
- * Uses undici for direct HTTP requests (bypasses VS Code proxy)
+ * Uses undici through the shared transport (honors proxy and CA settings)
  */
 
-import { LLMProvider, CompletionOptions, ChatMessage, OpenAIProviderConfig } from './types';
-import { Agent, fetch as undiciFetch } from 'undici';
+import { LLMProvider, CompletionOptions, ChatMessage, OpenAIProviderConfig, TokenUsage, FimRequest, FimTemplate } from './types';
+import { Response, fetch as undiciFetch } from 'undici';
+import { EndpointTransport } from './transport';
+import { promptMessages } from './wrapped-provider';
+import { readServerSentEvents } from './sse';
+import { createHttpError } from './errors';
+import { completeWithReasoning, streamWithReasoning, RawCompletion, RawDelta } from './reasoning';
+import { fimStopSequences, renderFimPrompt } from './fim';
+import { logger, registerSecret, requestTag } from '../logging/logger';
+
+interface OpenAIUsage {
+    prompt_tokens: number;
+    completion_tokens: number;
+}
 
 interface OpenAIResponse {
     choices: Array<{
-        message?: { content: string };
+        message?: {
+            content: string | null;
+            reasoning_content?: string; // DeepSeek, vLLM and LM Studio reasoning field
+            reasoning?: string;
+        };
         text?: string;
     }>;
+    usage?: OpenAIUsage;
     error?: { message: string };
 }
 
-// Create a no-proxy agent for direct connections
-const noProxyAgent = new Agent({
-    connect: {
-        // This bypasses any proxy settings
-    }
-});
+interface OpenAIStreamChunk {
+    choices: Array<{
+        delta?: {
+            content?: string | null;
+            reasoning_content?: string | null;
+            reasoning?: string | null;
+        };
+        text?: string;
+    }>;
+    /** Sent in a final chunk without choices when include_usage is set */
+    usage?: OpenAIUsage | null;
+    error?: { message: string };
+}
+
+/**
+ * Convert the usage block of OpenAI-compatible APIs
+ */
+export function toTokenUsage(usage: OpenAIUsage | null | undefined): TokenUsage | undefined {
+    return usage ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens } : undefined;
+}
+
+/**
+ * Structured output request in the OpenAI format, also understood by Ollama and LM Studio
+ */
+export function jsonSchemaFormat(options?: CompletionOptions): object | undefined {
+    const format = options?.responseFormat;
+    return format && {
+        type: 'json_schema',
+        json_schema: { name: format.name, schema: format.schema, strict: true },
+    };
+}
 
 export class OpenAIProvider implements LLMProvider {
     readonly name = 'OpenAI Compatible';
@@ -28,28 +70,42 @@ export class OpenAIProvider implements LLMProvider {
     private baseUrl: string;
     private apiKey: string;
     private model: string;
+    private fim?: FimTemplate;
+    private transport: EndpointTransport;
 
     constructor(config: OpenAIProviderConfig) {
         this.baseUrl = config.baseUrl.replace(/\/$/, ''); // Remove trailing slash
         this.apiKey = config.apiKey;
         this.model = config.model;
+        this.fim = config.fim;
+        registerSecret(this.apiKey);
+        this.transport = new EndpointTransport(this.baseUrl, config.transport, config.connectTimeoutMs);
     }
 
     async complete(prompt: string, options?: CompletionOptions): Promise<string> {
-        const messages: ChatMessage[] = [];
-
-        if (options?.systemPrompt) {
-            messages.push({ role: 'system', content: options.systemPrompt });
-        }
-        messages.push({ role: 'user', content: prompt });
-
-        return this.chat(messages, options);
+        return this.chat(promptMessages(prompt, options), options);
     }
 
     async chat(messages: ChatMessage[], options?: CompletionOptions): Promise<string> {
+        return completeWithReasoning(opts => this.requestChat(messages, opts), options);
+    }
+
+    /**
+     * Send a single chat request, returning the raw answer and reasoning
+     */
+    private async requestChat(messages: ChatMessage[], options?: CompletionOptions): Promise<RawCompletion> {
         const url = `${this.baseUrl}/chat/completions`;
-        console.log(`[OpenAI] Calling: ${url}`);
-        console.log(`[OpenAI] Model: ${this.model}`);
+        const tag = `[OpenAI]${requestTag(options?.requestId)}`;
+        const body = {
+            model: this.model,
+            messages: messages.map(m => ({ role: m.role, content: m.content })),
+            max_tokens: options?.maxTokens ?? 500,
+            temperature: options?.temperature ?? 0.7,
+            stop: options?.stopSequences,
+            response_format: jsonSchemaFormat(options),
+        };
+        logger.debug(`${tag} Calling ${url} (${this.model})`);
+        logger.traceBody(`${tag} Request`, body);
 
         try {
             const response = await undiciFetch(url, {
@@ -58,39 +114,151 @@ export class OpenAIProvider implements LLMProvider {
                     'Content-Type': 'application/json',
                     'Authorization': `Bearer ${this.apiKey}`,
                 },
-                body: JSON.stringify({
-                    model: this.model,
-                    messages: messages.map(m => ({ role: m.role, content: m.content })),
-                    max_tokens: options?.maxTokens ?? 500,
-                    temperature: options?.temperature ?? 0.7,
-                    stop: options?.stopSequences,
-                }),
-                dispatcher: noProxyAgent,
+                body: JSON.stringify(body),
+                dispatcher: this.transport.dispatcher,
+                signal: options?.signal,
             });
 
             if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
+                throw await this.httpError(response);
             }
 
             const data = await response.json() as OpenAIResponse;
+            logger.traceBody(`${tag} Response`, data);
 
             if (data.error) {
                 throw new Error(`OpenAI API error: ${data.error.message}`);
             }
 
-            const content = data.choices[0]?.message?.content ?? data.choices[0]?.text ?? '';
-            console.log('[OpenAI] Success, response length:', content.length);
-            return content.trim();
+            const message = data.choices[0]?.message;
+            const content = message?.content ?? data.choices[0]?.text ?? '';
+            logger.debug(`${tag} Success, response length: ${content.length}`);
+            return {
+                content,
+                reasoning: message?.reasoning_content ?? message?.reasoning,
+                usage: toTokenUsage(data.usage),
+            };
         } catch (error: unknown) {
-            console.error('[OpenAI] Fetch error:', error);
+            logger.debug(`${tag} Fetch error:`, error);
             if (error instanceof Error && 'cause' in error) {
-                console.error('[OpenAI] Error cause:', (error as Error & { cause: unknown }).cause);
+                logger.debug(`${tag} Error cause:`, (error as Error & { cause: unknown }).cause);
             }
             throw error;
         }
     }
 
+    async *completeStream(prompt: string, options?: CompletionOptions): AsyncGenerator<string> {
+        yield* this.chatStream(promptMessages(prompt, options), options);
+    }
+
+    async *chatStream(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<string> {
+        yield* streamWithReasoning(opts => this.requestStream(messages, opts), options);
+    }
+
+    /**
+     * Send a single streaming chat request, yielding raw answer and reasoning deltas
+     */
+    private async *requestStream(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<RawDelta> {
+        const url = `${this.baseUrl}/chat/completions`;
+        const tag = `[OpenAI]${requestTag(options?.requestId)}`;
+        const body = {
+            model: this.model,
+            messages: messages.map(m => ({ role: m.role, content: m.content })),
+            max_tokens: options?.maxTokens ?? 500,
+            temperature: options?.temperature ?? 0.7,
+            stop: options?.stopSequences,
+            response_format: jsonSchemaFormat(options),
+            stream: true,
+            stream_options: { include_usage: true },
+        };
+        logger.debug(`${tag} Streaming ${url} (${this.model})`);
+        logger.traceBody(`${tag} Request`, body);
+
+        const response = await undiciFetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${this.apiKey}`,
+            },
+            body: JSON.stringify(body),
+            dispatcher: this.transport.dispatcher,
+            signal: options?.signal,
+        });
+
+        if (!response.ok || !response.body) {
+            throw await this.httpError(response);
+        }
+
+        for await (const data of readServerSentEvents(response.body)) {
+            const chunk = JSON.parse(data) as OpenAIStreamChunk;
+
+            if (chunk.error) {
+                throw new Error(`OpenAI API error: ${chunk.error.message}`);
+            }
+
+            const delta = chunk.choices[0]?.delta;
+            yield {
+                content: delta?.content ?? chunk.choices[0]?.text ?? undefined,
+                reasoning: delta?.reasoning_content ?? delta?.reasoning ?? undefined,
+                usage: toTokenUsage(chunk.usage),
+            };
+        }
+    }
+
+    get supportsFim(): boolean {
+        return this.fim !== undefined;
+    }
+
+    /**
+     * Fill in the middle through the legacy /completions endpoint, served by
+     * llama.cpp, vLLM and other servers hosting base and code models
+     */
+    async completeFim(request: FimRequest, options?: CompletionOptions): Promise<string> {
+        if (!this.fim) {
+            throw new Error(`No fill-in-the-middle format configured for ${this.model}`);
+        }
+
+        const url = `${this.baseUrl}/completions`;
+        const tag = `[OpenAI]${requestTag(options?.requestId)}`;
+        const body = {
+            model: this.model,
+            prompt: renderFimPrompt(this.fim, request),
+            max_tokens: options?.maxTokens ?? 500,
+            temperature: options?.temperature ?? 0.7,
+            stop: fimStopSequences(this.fim, options?.stopSequences),
+        };
+        logger.debug(`${tag} Calling ${url} (${this.model}, fill-in-the-middle)`);
+        logger.traceBody(`${tag} Request`, body);
+
+        const response = await undiciFetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${this.apiKey}`,
+            },
+            body: JSON.stringify(body),
+            dispatcher: this.transport.dispatcher,
+            signal: options?.signal,
+        });
+
+        if (!response.ok) {
+            throw await this.httpError(response);
+        }
+
+        const data = await response.json() as OpenAIResponse;
+        logger.traceBody(`${tag} Response`, data);
+
+        if (data.error) {
+            throw new Error(`OpenAI API error: ${data.error.message}`);
+        }
+
+        const usage = toTokenUsage(data.usage);
+        if (usage) {
+            options?.onUsage?.(usage);
+        }
+        return data.choices[0]?.text ?? '';
+    }
+
     async isAvailable(): Promise<boolean> {
         try {
             const response = await undiciFetch(`${this.baseUrl}/models`, {
@@ -98,7 +266,7 @@ export class OpenAIProvider implements LLMProvider {
                 headers: {
                     'Authorization': `Bearer ${this.apiKey}`,
                 },
-                dispatcher: noProxyAgent,
+                dispatcher: this.transport.dispatcher,
             });
             return response.ok;
         } catch {
@@ -113,7 +281,7 @@ export class OpenAIProvider implements LLMProvider {
                 headers: {
                     'Authorization': `Bearer ${this.apiKey}`,
                 },
-                dispatcher: noProxyAgent,
+                dispatcher: this.transport.dispatcher,
             });
 
             if (!response.ok) {
@@ -126,4 +294,18 @@ export class OpenAIProvider implements LLMProvider {
             return [];
         }
     }
+
+    /**
+     * Build the typed error for a failed response
+     */
+    private async httpError(response: Response): Promise<Error> {
+        const body = await response.text();
+        return createHttpError(`OpenAI API error: ${response.status} - ${body}`, {
+            provider: this.name,
+            model: this.model,
+            status: response.status,
+            body,
+            retryAfter: response.headers.get('retry-after'),
+        });
+    }
 }
@@ -0,0 +1,55 @@
+/**
+ * Model prices for usage cost estimates
+ */
+
+import { ModelPrice, ProviderType } from './types';
+
+/**
+ * List prices in USD per million tokens. Names match as prefixes, so dated
+ * snapshots ("gpt-4o-mini-2024-07-18") use the price of their family.
+ * Override or extend them with the thoughtCompletion.usage.prices setting.
+ */
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'o4-mini': { input: 1.1, output: 4.4 },
+    'claude-3-haiku': { input: 0.25, output: 1.25 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'claude-3-5-sonnet': { input: 3, output: 15 },
+    'claude-3-7-sonnet': { input: 3, output: 15 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-opus-4': { input: 15, output: 75 },
+};
+
+/**
+ * Price of a model: configured prices first, then the built-in table by the
+ * longest matching prefix. Local Ollama models are free unless priced.
+ * Returns undefined when the price is unknown.
+ */
+export function priceFor(
+    provider: ProviderType,
+    model: string,
+    prices: Record<string, ModelPrice> = {}
+): ModelPrice | undefined {
+    if (prices[model]) {
+        return prices[model];
+    }
+    if (provider === 'ollama') {
+        return { input: 0, output: 0 };
+    }
+
+    const family = Object.keys(DEFAULT_PRICES)
+        .filter(name => model.startsWith(name))
+        .sort((a, b) => b.length - a.length)[0];
+    return family ? DEFAULT_PRICES[family] : undefined;
+}
+
+/**
+ * Cost in USD of a request
+ */
+export function estimateCost(price: ModelPrice, inputTokens: number, outputTokens: number): number {
+    return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
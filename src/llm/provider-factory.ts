@@ -2,9 +2,66 @@
  * Factory for creating LLM providers based on configuration
  */
 
-import { LLMProvider, ProviderConfig, ExtensionSettings } from './types';
+import { LLMProvider, ProviderConfig, ServerProviderConfig, ExtensionSettings, ProviderEndpoint, ProviderType, ApiKeyLookup, LLMTask, FimTemplate } from './types';
+import { DEFAULT_FIM_TEMPLATES, findFimTemplate } from './fim';
 import { OpenAIProvider } from './openai-provider';
 import { OllamaProvider } from './ollama-provider';
+import { AnthropicProvider } from './anthropic-provider';
+import { ReplayProvider } from './replay-provider';
+import { ResilientProvider, ResiliencePolicy, DEFAULT_RESILIENCE_POLICY } from './resilient-provider';
+import { FallbackProvider } from './fallback-provider';
+import { CachingProvider } from './caching-provider';
+import { ResponseCache, ResponseCacheOptions } from './response-cache';
+import { MeteredProvider } from './metered-provider';
+import { UsageLedger } from './usage-ledger';
+import { TaskRouter } from './task-router';
+import { RequestQueue, QueuedProvider } from './request-queue';
+
+/**
+ * Shared services providers are built with
+ */
+export interface ProviderServices {
+    /** API keys from secret storage; environment variables and settings are used otherwise */
+    apiKeys?: ApiKeyLookup;
+    /** Response cache; requests are never cached when omitted */
+    cache?: ResponseCache;
+    /** Usage ledger; requests are not recorded when omitted */
+    ledger?: UsageLedger;
+    /** Shared request queue limiting concurrent requests; unlimited when omitted */
+    queue?: RequestQueue;
+}
+
+/**
+ * Tasks that can have their own provider chain
+ */
+const ROUTED_TASKS: LLMTask[] = ['detection', 'structure', 'content'];
+
+/**
+ * Environment variables checked for API keys
+ */
+const API_KEY_ENV_VARS: Partial<Record<ProviderType, string>> = {
+    openai: 'OPENAI_API_KEY',
+    anthropic: 'ANTHROPIC_API_KEY',
+};
+
+/**
+ * Resolve the API key for a provider. The active profile's own key comes
+ * first, stored or written into the profile; then the provider's key from
+ * secret storage, the environment and the (legacy) plaintext setting.
+ */
+function resolveApiKey(
+    provider: ProviderType,
+    configured: string,
+    settings: ExtensionSettings,
+    apiKeys?: ApiKeyLookup
+): string {
+    const envVar = API_KEY_ENV_VARS[provider];
+    const profile = settings.profiles.find(p => p.name === settings.activeProfile && p.provider === provider);
+    return (profile && (apiKeys?.get(provider, profile.name) || profile.apiKey))
+        || apiKeys?.get(provider)
+        || (envVar && process.env[envVar])
+        || configured;
+}
 
 /**
  * Creates an LLM provider based on the given configuration
@@ -15,27 +72,195 @@ export function createProvider(config: ProviderConfig): LLMProvider {
             return new OpenAIProvider(config);
         case 'ollama':
             return new OllamaProvider(config);
+        case 'anthropic':
+            return new AnthropicProvider(config);
+        case 'replay':
+            return new ReplayProvider(config, config.inner && createProvider(config.inner));
         default:
             throw new Error(`Unknown provider type: ${(config as ProviderConfig).type}`);
     }
 }
 
 /**
- * Creates an LLM provider from extension settings
+ * Builds the provider configuration selected in extension settings
  */
-export function createProviderFromSettings(settings: ExtensionSettings): LLMProvider {
+export function providerConfigFromSettings(settings: ExtensionSettings, apiKeys?: ApiKeyLookup): ServerProviderConfig {
+    const connectTimeoutMs = settings.connectTimeout;
+    const transport = settings.transport;
+
     if (settings.provider === 'openai') {
-        return createProvider({
+        return {
             type: 'openai',
             baseUrl: settings.openai.baseUrl,
-            apiKey: settings.openai.apiKey,
+            apiKey: resolveApiKey('openai', settings.openai.apiKey, settings, apiKeys),
             model: settings.openai.model,
-        });
+            fim: fimTemplateFromSettings(settings.openai.model, settings),
+            connectTimeoutMs,
+            transport,
+        };
+    } else if (settings.provider === 'anthropic') {
+        return {
+            type: 'anthropic',
+            baseUrl: settings.anthropic.baseUrl,
+            apiKey: resolveApiKey('anthropic', settings.anthropic.apiKey, settings, apiKeys),
+            model: settings.anthropic.model,
+            connectTimeoutMs,
+            transport,
+        };
     } else {
-        return createProvider({
+        return {
             type: 'ollama',
             baseUrl: settings.ollama.baseUrl,
             model: settings.ollama.model,
-        });
+            apiMode: settings.ollama.apiMode,
+            numCtx: settings.ollama.numCtx,
+            keepAlive: settings.ollama.keepAlive,
+            think: settings.ollama.think === 'auto' ? undefined : settings.ollama.think === 'on',
+            fim: fimTemplateFromSettings(settings.ollama.model, settings),
+            connectTimeoutMs,
+            transport,
+        };
     }
 }
+
+/**
+ * FIM format for the model when fill-in-the-middle is enabled; configured
+ * families are matched together with the built-in ones
+ */
+function fimTemplateFromSettings(model: string, settings: ExtensionSettings): FimTemplate | undefined {
+    return settings.fim.enabled
+        ? findFimTemplate(model, { ...DEFAULT_FIM_TEMPLATES, ...settings.fim.templates })
+        : undefined;
+}
+
+/**
+ * Builds the retry and timeout policy from extension settings
+ */
+export function resiliencePolicyFromSettings(settings: ExtensionSettings): ResiliencePolicy {
+    return {
+        ...DEFAULT_RESILIENCE_POLICY,
+        responseTimeoutMs: settings.requestTimeout,
+        connectTimeoutMs: settings.connectTimeout,
+        maxRetries: settings.maxRetries,
+    };
+}
+
+/**
+ * Builds the response cache limits from extension settings
+ */
+export function responseCacheOptionsFromSettings(settings: ExtensionSettings): ResponseCacheOptions {
+    return {
+        ttlMs: settings.cache.ttlHours * 60 * 60 * 1000,
+        maxEntries: settings.cache.maxEntries,
+    };
+}
+
+/**
+ * Builds the provider configuration for a fallback or routing endpoint.
+ * Fields the endpoint leaves out are taken from that provider's settings section.
+ */
+export function providerConfigFromEndpoint(
+    endpoint: ProviderEndpoint,
+    settings: ExtensionSettings,
+    apiKeys?: ApiKeyLookup
+): ServerProviderConfig {
+    const section = settings[endpoint.provider];
+    const config = providerConfigFromSettings({
+        ...settings,
+        provider: endpoint.provider,
+        // Endpoints use the provider's key, not the active profile's
+        activeProfile: '',
+        [endpoint.provider]: {
+            ...section,
+            model: endpoint.model,
+            baseUrl: endpoint.baseUrl ?? section.baseUrl,
+        },
+    }, apiKeys);
+
+    // A key written into the endpoint itself wins over stored ones
+    return endpoint.apiKey && config.type !== 'ollama'
+        ? { ...config, apiKey: endpoint.apiKey }
+        : config;
+}
+
+/**
+ * Creates a provider trying each config in order, each wrapped with timeouts,
+ * retries, usage metering when a ledger is given, a slot in the request queue
+ * when a queue is given and response caching when a cache is given.
+ * Cache hits are not metered and do not wait in the queue.
+ */
+function createChain(
+    configs: ServerProviderConfig[],
+    policy: ResiliencePolicy,
+    services: ProviderServices,
+    usage: ExtensionSettings['usage']
+): LLMProvider {
+    const providers = configs.map(config => {
+        let provider: LLMProvider = new ResilientProvider(createProvider(config), policy);
+        if (services.ledger) {
+            provider = new MeteredProvider(provider, services.ledger, config.type, config.model, usage.prices, usage);
+        }
+        if (services.queue) {
+            provider = new QueuedProvider(provider, services.queue);
+        }
+        return services.cache
+            ? new CachingProvider(provider, services.cache, `${config.type}|${config.baseUrl}|${config.model}`)
+            : provider;
+    });
+    return providers.length === 1 ? providers[0] : new FallbackProvider(providers);
+}
+
+/**
+ * Configs of the primary provider followed by the configured fallbacks
+ */
+function primaryChainConfigs(settings: ExtensionSettings, apiKeys?: ApiKeyLookup): ServerProviderConfig[] {
+    return [
+        providerConfigFromSettings(settings, apiKeys),
+        ...settings.fallbackProviders.map(endpoint => providerConfigFromEndpoint(endpoint, settings, apiKeys)),
+    ];
+}
+
+/**
+ * Settings with another model for the primary provider
+ */
+function withPrimaryModel(settings: ExtensionSettings, model: string): ExtensionSettings {
+    return { ...settings, [settings.provider]: { ...settings[settings.provider], model } };
+}
+
+/**
+ * Creates an LLM provider from extension settings: the primary provider
+ * with its fallbacks, wrapped with timeouts and retries
+ */
+export function createProviderFromSettings(settings: ExtensionSettings, services: ProviderServices = {}): LLMProvider {
+    return createChain(
+        primaryChainConfigs(settings, services.apiKeys),
+        resiliencePolicyFromSettings(settings),
+        services,
+        settings.usage
+    );
+}
+
+/**
+ * Creates the per-task router from extension settings.
+ * A routed task tries its own endpoints first, then the primary chain.
+ */
+export function createRouterFromSettings(settings: ExtensionSettings, services: ProviderServices = {}): TaskRouter {
+    const { apiKeys } = services;
+    const policy = resiliencePolicyFromSettings(settings);
+    const primaryConfigs = primaryChainConfigs(settings, apiKeys);
+    const routes: Partial<Record<LLMTask, LLMProvider>> = {};
+
+    for (const task of ROUTED_TASKS) {
+        const endpoints = settings.taskRouting[task];
+        if (endpoints && endpoints.length > 0) {
+            const configs = endpoints.map(endpoint => providerConfigFromEndpoint(endpoint, settings, apiKeys));
+            routes[task] = createChain([...configs, ...primaryConfigs], policy, services, settings.usage);
+        }
+    }
+
+    return new TaskRouter(
+        createChain(primaryConfigs, policy, services, settings.usage),
+        routes,
+        model => new TaskRouter(createProviderFromSettings(withPrimaryModel(settings, model), services))
+    );
+}
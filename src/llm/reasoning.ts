@@ -0,0 +1,247 @@
+/**
+ * Reasoning-model output handling shared by all providers
+ * Separates thinking from the answer and retries once when only thinking came back.
+ */
+
+import { CompletionOptions, TokenUsage } from './types';
+import { logger, requestTag } from '../logging/logger';
+
+const THINK_OPEN = '<think>';
+const THINK_CLOSE = '</think>';
+
+/**
+ * Smallest token budget used for the retry after an empty answer
+ */
+const MIN_RETRY_TOKENS = 2000;
+
+/**
+ * Provider response before reasoning handling
+ */
+export interface RawCompletion {
+    content: string;
+    /** Reasoning returned in a dedicated field (reasoning, reasoning_content, thinking) */
+    reasoning?: string;
+    /** Token counts reported by the server */
+    usage?: TokenUsage;
+}
+
+/**
+ * Streamed provider delta before reasoning handling
+ */
+export interface RawDelta {
+    content?: string;
+    reasoning?: string;
+    /** Token counts, usually sent with the last chunk */
+    usage?: TokenUsage;
+}
+
+/**
+ * Split inline <think>...</think> blocks from the answer.
+ * An unterminated block means the model ran out of tokens while thinking,
+ * and a lone closing tag means the opening tag was part of the prompt template.
+ */
+export function splitReasoning(text: string): RawCompletion {
+    const reasoning: string[] = [];
+    let content = text;
+
+    const closeIndex = content.indexOf(THINK_CLOSE);
+    const openIndex = content.indexOf(THINK_OPEN);
+    if (closeIndex !== -1 && (openIndex === -1 || closeIndex < openIndex)) {
+        reasoning.push(content.slice(0, closeIndex));
+        content = content.slice(closeIndex + THINK_CLOSE.length);
+    }
+
+    content = content.replace(/<think>([\s\S]*?)(?:<\/think>|$)/g, (_match, thought: string) => {
+        reasoning.push(thought);
+        return '';
+    });
+
+    return {
+        content,
+        reasoning: reasoning.map(r => r.trim()).filter(Boolean).join('\n\n') || undefined,
+    };
+}
+
+/**
+ * Options for the single retry after an answer that contained only reasoning,
+ * or undefined when the remaining budget leaves no room for one
+ */
+function retryOptions(options?: CompletionOptions): CompletionOptions | undefined {
+    const budget = options?.maxTokens ?? 500;
+    const maxTokens = Math.min(Math.max(budget * 2, MIN_RETRY_TOKENS), options?.maxRetryTokens ?? Infinity);
+    if (maxTokens < 1) {
+        logger.debug(`[Reasoning]${requestTag(options?.requestId)} Model returned only reasoning, no token budget left to retry`);
+        return undefined;
+    }
+    return {
+        ...options,
+        maxTokens: Math.floor(maxTokens),
+        disableThinking: true,
+    };
+}
+
+/**
+ * Run a non-streaming request with reasoning handling:
+ * strip think blocks, report reasoning via onReasoning and usage via onUsage,
+ * and retry once when the answer is empty.
+ */
+export async function completeWithReasoning(
+    request: (options?: CompletionOptions) => Promise<RawCompletion>,
+    options?: CompletionOptions
+): Promise<string> {
+    let attemptOptions = options;
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+        const raw = await request(attemptOptions);
+        if (raw.usage) {
+            options?.onUsage?.(raw.usage);
+        }
+        const inline = splitReasoning(raw.content);
+        const reasoning = [raw.reasoning?.trim(), inline.reasoning].filter(Boolean).join('\n\n');
+        const content = inline.content.trim();
+
+        if (reasoning) {
+            options?.onReasoning?.(reasoning);
+        }
+
+        if (content || !reasoning || attempt > 0) {
+            return content;
+        }
+
+        const retry = retryOptions(options);
+        if (!retry) {
+            return '';
+        }
+        attemptOptions = retry;
+        logger.debug(`[Reasoning]${requestTag(options?.requestId)} Model returned only reasoning, retrying with maxTokens=${attemptOptions.maxTokens} and thinking disabled`);
+    }
+
+    return '';
+}
+
+/**
+ * Incrementally removes <think>...</think> blocks from streamed text,
+ * coping with tags split across deltas.
+ */
+class ThinkTagFilter {
+    private buffer = '';
+    private inThink = false;
+    reasoning = '';
+
+    /**
+     * Feed a delta, returning the answer text that is safe to emit
+     */
+    push(text: string): string {
+        this.buffer += text;
+        let output = '';
+
+        for (;;) {
+            const tag = this.inThink ? THINK_CLOSE : THINK_OPEN;
+            const index = this.buffer.indexOf(tag);
+
+            if (index === -1) {
+                // Hold back a suffix that may be the start of a tag
+                const keep = partialTagLength(this.buffer, tag);
+                const ready = this.buffer.slice(0, this.buffer.length - keep);
+                this.buffer = this.buffer.slice(ready.length);
+                if (this.inThink) {
+                    this.reasoning += ready;
+                } else {
+                    output += ready;
+                }
+                return output;
+            }
+
+            if (this.inThink) {
+                this.reasoning += this.buffer.slice(0, index) + '\n\n';
+            } else {
+                output += this.buffer.slice(0, index);
+            }
+            this.buffer = this.buffer.slice(index + tag.length);
+            this.inThink = !this.inThink;
+        }
+    }
+
+    /**
+     * Flush what is left at the end of the stream
+     */
+    flush(): string {
+        const rest = this.buffer;
+        this.buffer = '';
+        if (this.inThink) {
+            this.reasoning += rest;
+            return '';
+        }
+        return rest;
+    }
+}
+
+/**
+ * Length of the longest suffix of text that is a proper prefix of tag
+ */
+function partialTagLength(text: string, tag: string): number {
+    for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+        if (text.endsWith(tag.slice(0, length))) {
+            return length;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Run a streaming request with reasoning handling:
+ * yield only answer text, report reasoning via onReasoning when the stream ends,
+ * report every chunk via onChunk, pass usage on to onUsage and retry once when
+ * the stream produced nothing but reasoning.
+ */
+export async function* streamWithReasoning(
+    request: (options?: CompletionOptions) => AsyncIterable<RawDelta>,
+    options?: CompletionOptions
+): AsyncGenerator<string> {
+    let attemptOptions = options;
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+        const filter = new ThinkTagFilter();
+        let fieldReasoning = '';
+        let emitted = false;
+
+        for await (const delta of request(attemptOptions)) {
+            options?.onChunk?.();
+            if (delta.usage) {
+                options?.onUsage?.(delta.usage);
+            }
+            if (delta.reasoning) {
+                fieldReasoning += delta.reasoning;
+            }
+            if (delta.content) {
+                const text = filter.push(delta.content);
+                if (text) {
+                    emitted = emitted || text.trim().length > 0;
+                    yield text;
+                }
+            }
+        }
+
+        const rest = filter.flush();
+        if (rest) {
+            emitted = emitted || rest.trim().length > 0;
+            yield rest;
+        }
+
+        const reasoning = [fieldReasoning.trim(), filter.reasoning.trim()].filter(Boolean).join('\n\n');
+        if (reasoning) {
+            options?.onReasoning?.(reasoning);
+        }
+
+        if (emitted || !reasoning || attempt > 0) {
+            return;
+        }
+
+        const retry = retryOptions(options);
+        if (!retry) {
+            return;
+        }
+        attemptOptions = retry;
+        logger.debug(`[Reasoning]${requestTag(options?.requestId)} Stream returned only reasoning, retrying with maxTokens=${attemptOptions.maxTokens} and thinking disabled`);
+    }
+}
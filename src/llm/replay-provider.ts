@@ -0,0 +1,259 @@
+/**
+ * Record/replay LLM provider
+ * Records request/response pairs to a JSON fixture file and answers later
+ * requests from it, matched by a hash of the normalized prompt. Lets tests
+ * and demos run without a live model.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMProvider, CompletionOptions, ChatMessage, ProviderHealth, ReplayProviderConfig, TokenUsage } from './types';
+import { LLMError, LLMReplayMissError } from './errors';
+import { promptMessages } from './wrapped-provider';
+import { logger, requestTag } from '../logging/logger';
+
+/**
+ * One recorded request and the answer it got
+ */
+interface Recording {
+    hash: string;
+    /** Normalized prompt, kept to make fixtures readable and diffable */
+    messages: ChatMessage[];
+    response: string;
+    /** Token counts the server reported, replayed to usage listeners */
+    usage?: TokenUsage;
+}
+
+interface FixtureFile {
+    version: 1;
+    recordings: Recording[];
+}
+
+/**
+ * Drop differences that do not change the prompt's meaning: line endings,
+ * trailing whitespace and surrounding blank lines
+ */
+function normalizeMessages(messages: ChatMessage[]): ChatMessage[] {
+    return messages.map(m => ({
+        role: m.role,
+        content: m.content
+            .replace(/\r\n?/g, '\n')
+            .split('\n')
+            .map(line => line.trimEnd())
+            .join('\n')
+            .trim(),
+    }));
+}
+
+/**
+ * Hash identifying a prompt in fixture files
+ */
+export function promptHash(messages: ChatMessage[]): string {
+    const normalized = normalizeMessages(messages).map(m => [m.role, m.content]);
+    return createHash('sha256').update(JSON.stringify(normalized)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Split a recorded answer into line-sized stream deltas
+ */
+function streamDeltas(response: string): string[] {
+    return response.split(/(?<=\n)/).filter(Boolean);
+}
+
+export class ReplayProvider implements LLMProvider {
+    readonly name: string;
+
+    private recordings: Promise<Map<string, Recording>> | undefined;
+    /** Saves run one after another so concurrent recordings are all kept */
+    private saving: Promise<void> = Promise.resolve();
+    /** Provider whose answers are recorded; set in record mode only */
+    private readonly recordFrom: LLMProvider | undefined;
+
+    constructor(
+        private readonly config: ReplayProviderConfig,
+        private readonly inner?: LLMProvider
+    ) {
+        if (config.mode === 'record' && !inner) {
+            throw new Error('Replay provider needs an inner provider to record from');
+        }
+        this.name = inner ? `Replay (${inner.name})` : 'Replay';
+        this.recordFrom = config.mode === 'record' ? inner : undefined;
+    }
+
+    async complete(prompt: string, options?: CompletionOptions): Promise<string> {
+        return this.chat(promptMessages(prompt, options), options);
+    }
+
+    async chat(messages: ChatMessage[], options?: CompletionOptions): Promise<string> {
+        const hash = promptHash(messages);
+        const recording = (await this.load()).get(hash);
+        if (recording) {
+            return this.replay(recording, options);
+        }
+
+        const inner = this.passThrough(hash, messages, options);
+        if (!inner) {
+            return '';
+        }
+        if (this.config.mode !== 'record') {
+            return inner.chat(messages, options);
+        }
+
+        let usage: TokenUsage | undefined;
+        const response = await inner.chat(messages, this.capturing(options, u => { usage = u; }));
+        await this.save({ hash, messages: normalizeMessages(messages), response, usage });
+        return response;
+    }
+
+    async *completeStream(prompt: string, options?: CompletionOptions): AsyncGenerator<string> {
+        yield* this.chatStream(promptMessages(prompt, options), options);
+    }
+
+    async *chatStream(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<string> {
+        const hash = promptHash(messages);
+        const recording = (await this.load()).get(hash);
+        if (recording) {
+            const response = this.replay(recording, options);
+            for (const delta of streamDeltas(response)) {
+                if (options?.signal?.aborted) {
+                    return;
+                }
+                yield delta;
+            }
+            return;
+        }
+
+        const inner = this.passThrough(hash, messages, options);
+        if (!inner) {
+            return;
+        }
+        if (this.config.mode !== 'record') {
+            yield* inner.chatStream(messages, options);
+            return;
+        }
+
+        // Only complete answers are recorded
+        let usage: TokenUsage | undefined;
+        let response = '';
+        for await (const delta of inner.chatStream(messages, this.capturing(options, u => { usage = u; }))) {
+            response += delta;
+            yield delta;
+        }
+        await this.save({ hash, messages: normalizeMessages(messages), response, usage });
+    }
+
+    async isAvailable(): Promise<boolean> {
+        return this.recordFrom ? this.recordFrom.isAvailable() : true;
+    }
+
+    async listModels(): Promise<string[]> {
+        return this.inner?.listModels ? this.inner.listModels() : [];
+    }
+
+    async checkHealth(): Promise<ProviderHealth> {
+        const recordFrom = this.recordFrom;
+        if (recordFrom) {
+            return recordFrom.checkHealth
+                ? recordFrom.checkHealth()
+                : { available: await recordFrom.isAvailable() };
+        }
+        return { available: true, message: `Replaying ${path.basename(this.config.fixturesPath)}` };
+    }
+
+    private replay(recording: Recording, options?: CompletionOptions): string {
+        logger.debug(`[Replay]${requestTag(options?.requestId)} Replaying ${recording.hash}`);
+        if (recording.usage) {
+            options?.onUsage?.(recording.usage);
+        }
+        return recording.response;
+    }
+
+    /**
+     * Provider for a request without a recording; undefined answers it with nothing.
+     * Throws in strict replay mode.
+     */
+    private passThrough(hash: string, messages: ChatMessage[], options?: CompletionOptions): LLMProvider | undefined {
+        if (this.config.mode === 'replay' && this.config.strict) {
+            const prompt = messages[messages.length - 1]?.content ?? '';
+            throw new LLMReplayMissError(
+                `No recording for prompt ${hash} in ${this.config.fixturesPath}: ${JSON.stringify(prompt.slice(0, 200))}`,
+                this.name,
+                hash
+            );
+        }
+        logger.debug(`[Replay]${requestTag(options?.requestId)} No recording for ${hash}`);
+        return this.inner;
+    }
+
+    /**
+     * Options that capture the reported usage while still passing it to the caller
+     */
+    private capturing(options: CompletionOptions | undefined, capture: (usage: TokenUsage) => void): CompletionOptions {
+        return {
+            ...options,
+            onUsage: usage => {
+                capture(usage);
+                options?.onUsage?.(usage);
+            },
+        };
+    }
+
+    private load(): Promise<Map<string, Recording>> {
+        this.recordings ??= this.readFixtures().then(
+            recordings => new Map(recordings.map(r => [r.hash, r])),
+            error => {
+                // Read the file again on the next request, e.g. once it is fixed
+                this.recordings = undefined;
+                throw error;
+            }
+        );
+        return this.recordings;
+    }
+
+    private async readFixtures(): Promise<Recording[]> {
+        let text: string;
+        try {
+            text = await fs.promises.readFile(this.config.fixturesPath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+            return [];
+        }
+
+        try {
+            const data = JSON.parse(text) as FixtureFile;
+            return data.version === 1 ? data.recordings : [];
+        } catch (error) {
+            // Recording writes the file anew
+            if (this.config.mode === 'record') {
+                logger.warn(`[Replay] Fixture file ${this.config.fixturesPath} is not valid JSON, recording into a new one`);
+                return [];
+            }
+            throw new LLMError(`Fixture file ${this.config.fixturesPath} is not valid JSON: ${(error as Error).message}`, this.name);
+        }
+    }
+
+    /**
+     * Add a recording, merging with the file so other providers' recordings are kept
+     */
+    private save(recording: Recording): Promise<void> {
+        const recordings = this.load();
+        // A failed save must not stop later ones
+        this.saving = this.saving.catch(() => undefined).then(async () => {
+            (await recordings).set(recording.hash, recording);
+
+            const merged = new Map((await this.readFixtures()).map(r => [r.hash, r]));
+            merged.set(recording.hash, recording);
+
+            const data: FixtureFile = { version: 1, recordings: [...merged.values()] };
+            const tmpPath = `${this.config.fixturesPath}.tmp`;
+            await fs.promises.mkdir(path.dirname(this.config.fixturesPath), { recursive: true });
+            await fs.promises.writeFile(tmpPath, JSON.stringify(data, null, 2) + '\n', 'utf8');
+            await fs.promises.rename(tmpPath, this.config.fixturesPath);
+            logger.debug(`[Replay] Recorded ${recording.hash} to ${this.config.fixturesPath}`);
+        });
+        return this.saving;
+    }
+}
@@ -0,0 +1,273 @@
+/**
+ * Shared request queue for LLM providers
+ * Limits how many requests run at once across all callers. Waiting requests
+ * start in priority order, and automatic ones are dropped once superseded.
+ */
+
+import { LLMProvider, CompletionOptions, ChatMessage, FimRequest, RequestPriority } from './types';
+import { WrappedProvider } from './wrapped-provider';
+import { logger, requestTag } from '../logging/logger';
+
+/**
+ * Start order of waiting requests, highest first
+ */
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+    interactive: 1,
+    background: 0,
+};
+
+/**
+ * Request waiting for a free slot
+ */
+interface Waiter {
+    priority: RequestPriority;
+    supersedeKey?: string;
+    start: () => void;
+    drop: (error: Error) => void;
+}
+
+/**
+ * Queue counts shown to the user
+ */
+export interface QueueState {
+    /** Requests currently sent to a model */
+    running: number;
+    /** Requests waiting for a free slot */
+    waiting: number;
+}
+
+/**
+ * Error for requests dropped from the queue; named like a fetch abort, so
+ * callers treat it the same as a cancelled request
+ */
+function abortError(message: string): Error {
+    return Object.assign(new Error(message), { name: 'AbortError' });
+}
+
+export class RequestQueue {
+    private running = 0;
+    private waiters: Waiter[] = [];
+    private listeners = new Set<(state: QueueState) => void>();
+
+    constructor(private maxConcurrency: number = 1) { }
+
+    /**
+     * Change the limit; more waiting requests start right away when it is raised
+     */
+    setMaxConcurrency(maxConcurrency: number): void {
+        this.maxConcurrency = Math.max(1, maxConcurrency);
+        this.startWaiting();
+    }
+
+    get state(): QueueState {
+        return { running: this.running, waiting: this.waiters.length };
+    }
+
+    /**
+     * Get notified whenever requests start, finish or are dropped
+     */
+    onDidChange(listener: (state: QueueState) => void): { dispose(): void } {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    }
+
+    /**
+     * Wait for a free slot and return the function that releases it.
+     * Rejects with an AbortError when the signal fires or a newer request
+     * with the same supersede key arrives while this one is waiting.
+     */
+    acquire(options?: CompletionOptions): Promise<() => void> {
+        const priority = options?.priority ?? 'background';
+        const signal = options?.signal;
+
+        if (signal?.aborted) {
+            return Promise.reject(abortError('Request cancelled while queued'));
+        }
+
+        if (options?.supersedeKey !== undefined) {
+            this.dropSuperseded(options.supersedeKey, options.requestId);
+        }
+
+        if (this.running < this.maxConcurrency && this.waiters.length === 0) {
+            this.running++;
+            this.notify();
+            return Promise.resolve(this.releaser());
+        }
+
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                this.remove(waiter);
+                waiter.drop(abortError('Request cancelled while queued'));
+            };
+            const waiter: Waiter = {
+                priority,
+                supersedeKey: options?.supersedeKey,
+                start: () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(this.releaser());
+                },
+                drop: error => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(error);
+                },
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            // After the last waiter of the same or higher priority, so equal priorities stay in order
+            const index = this.waiters.findIndex(w => PRIORITY_RANK[w.priority] < PRIORITY_RANK[priority]);
+            this.waiters.splice(index === -1 ? this.waiters.length : index, 0, waiter);
+            logger.debug(`[RequestQueue]${requestTag(options?.requestId)} Waiting (${priority}, ${this.running} running, ${this.waiters.length} waiting)`);
+            this.notify();
+        });
+    }
+
+    /**
+     * Run a request in a slot
+     */
+    async run<T>(request: () => Promise<T>, options?: CompletionOptions): Promise<T> {
+        const release = await this.acquire(options);
+        try {
+            return await request();
+        } finally {
+            release();
+        }
+    }
+
+    /**
+     * Run a streaming request, holding the slot until the stream ends
+     */
+    async *runStream(request: () => AsyncIterable<string>, options?: CompletionOptions): AsyncGenerator<string> {
+        const release = await this.acquire(options);
+        try {
+            yield* request();
+        } finally {
+            release();
+        }
+    }
+
+    /**
+     * Drop all waiting requests
+     */
+    dispose(): void {
+        const waiters = this.waiters;
+        this.waiters = [];
+        waiters.forEach(w => w.drop(abortError('Request queue disposed')));
+        this.listeners.clear();
+    }
+
+    private releaser(): () => void {
+        let released = false;
+        return () => {
+            if (released) {
+                return;
+            }
+            released = true;
+            this.running--;
+            this.startWaiting();
+            this.notify();
+        };
+    }
+
+    private startWaiting(): void {
+        while (this.running < this.maxConcurrency && this.waiters.length > 0) {
+            this.running++;
+            this.waiters.shift()!.start();
+        }
+    }
+
+    private dropSuperseded(key: string, requestId?: string): void {
+        const superseded = this.waiters.filter(w => w.supersedeKey === key);
+        if (superseded.length === 0) {
+            return;
+        }
+        this.waiters = this.waiters.filter(w => w.supersedeKey !== key);
+        logger.debug(`[RequestQueue]${requestTag(requestId)} Dropping ${superseded.length} superseded request(s)`);
+        superseded.forEach(w => w.drop(abortError('Superseded by a newer request')));
+        this.notify();
+    }
+
+    private remove(waiter: Waiter): void {
+        this.waiters = this.waiters.filter(w => w !== waiter);
+        this.notify();
+    }
+
+    private notify(): void {
+        const state = this.state;
+        this.listeners.forEach(listener => listener(state));
+    }
+}
+
+/**
+ * Wraps a provider so its requests take a slot in the shared queue
+ */
+export class QueuedProvider extends WrappedProvider {
+    constructor(
+        inner: LLMProvider,
+        private readonly queue: RequestQueue
+    ) {
+        super(inner);
+    }
+
+    async complete(prompt: string, options?: CompletionOptions): Promise<string> {
+        return this.queue.run(() => this.inner.complete(prompt, options), options);
+    }
+
+    async chat(messages: ChatMessage[], options?: CompletionOptions): Promise<string> {
+        return this.queue.run(() => this.inner.chat(messages, options), options);
+    }
+
+    async *completeStream(prompt: string, options?: CompletionOptions): AsyncGenerator<string> {
+        yield* this.queue.runStream(() => this.inner.completeStream(prompt, options), options);
+    }
+
+    async *chatStream(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<string> {
+        yield* this.queue.runStream(() => this.inner.chatStream(messages, options), options);
+    }
+
+    async completeFim(request: FimRequest, options?: CompletionOptions): Promise<string> {
+        return this.queue.run(() => this.inner.completeFim!(request, options), options);
+    }
+}
+
+/**
+ * Provider whose requests default to the given priority
+ */
+class PrioritizedProvider extends WrappedProvider {
+    constructor(
+        inner: LLMProvider,
+        private readonly priority: RequestPriority
+    ) {
+        super(inner);
+    }
+
+    complete(prompt: string, options?: CompletionOptions): Promise<string> {
+        return this.inner.complete(prompt, this.prioritized(options));
+    }
+
+    chat(messages: ChatMessage[], options?: CompletionOptions): Promise<string> {
+        return this.inner.chat(messages, this.prioritized(options));
+    }
+
+    completeStream(prompt: string, options?: CompletionOptions): AsyncIterable<string> {
+        return this.inner.completeStream(prompt, this.prioritized(options));
+    }
+
+    chatStream(messages: ChatMessage[], options?: CompletionOptions): AsyncIterable<string> {
+        return this.inner.chatStream(messages, this.prioritized(options));
+    }
+
+    completeFim(request: FimRequest, options?: CompletionOptions): Promise<string> {
+        return this.inner.completeFim!(request, this.prioritized(options));
+    }
+
+    private prioritized(options?: CompletionOptions): CompletionOptions {
+        return { priority: this.priority, ...options };
+    }
+}
+
+/**
+ * Provider sending its requests with the given priority unless they set one
+ */
+export function withPriority(provider: LLMProvider, priority: RequestPriority): LLMProvider {
+    return new PrioritizedProvider(provider, priority);
+}
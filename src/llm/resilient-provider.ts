@@ -0,0 +1,218 @@
+/**
+ * Resilience layer shared by all LLM providers
+ * Adds response timeouts, bounded retries with exponential backoff and jitter,
+ * Retry-After support and typed network errors around any LLMProvider.
+ */
+
+import { LLMProvider, CompletionOptions, ChatMessage, FimRequest } from './types';
+import { WrappedProvider } from './wrapped-provider';
+import { LLMError, LLMRateLimitError, LLMTimeoutError, toLLMError } from './errors';
+import { logger, requestTag } from '../logging/logger';
+
+/**
+ * Retry and timeout policy
+ */
+export interface ResiliencePolicy {
+    /** Maximum time to wait for a full response, or between streamed chunks (ms) */
+    responseTimeoutMs: number;
+    /** Connect timeout configured on the wrapped provider, used for error reporting (ms) */
+    connectTimeoutMs?: number;
+    /** Retries after the first attempt for retryable failures */
+    maxRetries: number;
+    /** Backoff before the first retry (ms) */
+    baseDelayMs: number;
+    /** Upper bound for a single backoff, including Retry-After (ms) */
+    maxDelayMs: number;
+}
+
+/**
+ * Default policy values
+ */
+export const DEFAULT_RESILIENCE_POLICY: ResiliencePolicy = {
+    responseTimeoutMs: 60000,
+    maxRetries: 2,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+};
+
+/**
+ * Wait for the given time unless the signal aborts first
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Per-attempt abort signal combining the caller's signal with a restartable timeout
+ */
+class AttemptTimeout {
+    readonly controller = new AbortController();
+    timedOut = false;
+    private timer: ReturnType<typeof setTimeout> | undefined;
+    private readonly onCallerAbort = () => this.controller.abort(this.callerSignal?.reason);
+
+    constructor(private readonly timeoutMs: number, private readonly callerSignal?: AbortSignal) {
+        if (callerSignal?.aborted) {
+            this.controller.abort(callerSignal.reason);
+        } else {
+            callerSignal?.addEventListener('abort', this.onCallerAbort, { once: true });
+        }
+        this.restart();
+    }
+
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    /**
+     * Start the timeout over, e.g. after a streamed chunk arrived
+     */
+    restart(): void {
+        clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.timedOut = true;
+            this.controller.abort();
+        }, this.timeoutMs);
+    }
+
+    dispose(): void {
+        clearTimeout(this.timer);
+        this.callerSignal?.removeEventListener('abort', this.onCallerAbort);
+    }
+}
+
+/**
+ * Wraps a provider with timeouts and retries
+ */
+export class ResilientProvider extends WrappedProvider {
+    constructor(
+        inner: LLMProvider,
+        private readonly policy: ResiliencePolicy = DEFAULT_RESILIENCE_POLICY
+    ) {
+        super(inner);
+    }
+
+    async complete(prompt: string, options?: CompletionOptions): Promise<string> {
+        return this.withRetries(opts => this.inner.complete(prompt, opts), options);
+    }
+
+    async chat(messages: ChatMessage[], options?: CompletionOptions): Promise<string> {
+        return this.withRetries(opts => this.inner.chat(messages, opts), options);
+    }
+
+    async *completeStream(prompt: string, options?: CompletionOptions): AsyncGenerator<string> {
+        yield* this.streamWithRetries(opts => this.inner.completeStream(prompt, opts), options);
+    }
+
+    async *chatStream(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<string> {
+        yield* this.streamWithRetries(opts => this.inner.chatStream(messages, opts), options);
+    }
+
+    async completeFim(request: FimRequest, options?: CompletionOptions): Promise<string> {
+        return this.withRetries(opts => this.inner.completeFim!(request, opts), options);
+    }
+
+    /**
+     * Run a request, retrying retryable failures with backoff
+     */
+    private async withRetries(
+        request: (options: CompletionOptions) => Promise<string>,
+        options?: CompletionOptions
+    ): Promise<string> {
+        for (let attempt = 0; ; attempt++) {
+            const timeout = new AttemptTimeout(this.policy.responseTimeoutMs, options?.signal);
+            try {
+                return await request({ ...options, signal: timeout.signal });
+            } catch (error) {
+                const failure = this.classify(error, timeout);
+                await this.backoffOrThrow(failure, attempt, options);
+            } finally {
+                timeout.dispose();
+            }
+        }
+    }
+
+    /**
+     * Run a streaming request. Every chunk, reasoning included, restarts the
+     * timeout. Retries only happen before the first answer chunk, since text
+     * already handed to the caller cannot be taken back.
+     */
+    private async *streamWithRetries(
+        request: (options: CompletionOptions) => AsyncIterable<string>,
+        options?: CompletionOptions
+    ): AsyncGenerator<string> {
+        for (let attempt = 0; ; attempt++) {
+            const timeout = new AttemptTimeout(this.policy.responseTimeoutMs, options?.signal);
+            let started = false;
+            try {
+                const onChunk = () => {
+                    timeout.restart();
+                    options?.onChunk?.();
+                };
+                for await (const delta of request({ ...options, signal: timeout.signal, onChunk })) {
+                    started = true;
+                    timeout.restart();
+                    yield delta;
+                }
+                return;
+            } catch (error) {
+                const failure = this.classify(error, timeout);
+                if (started) {
+                    throw failure;
+                }
+                await this.backoffOrThrow(failure, attempt, options);
+            } finally {
+                timeout.dispose();
+            }
+        }
+    }
+
+    /**
+     * Turn a raw failure into a typed error
+     */
+    private classify(error: unknown, timeout: AttemptTimeout): unknown {
+        if (timeout.timedOut) {
+            return new LLMTimeoutError(this.name, 'response', this.policy.responseTimeoutMs);
+        }
+        return toLLMError(error, this.name, this.policy.connectTimeoutMs);
+    }
+
+    /**
+     * Wait before the next attempt, or rethrow when the failure is final
+     */
+    private async backoffOrThrow(failure: unknown, attempt: number, options?: CompletionOptions): Promise<void> {
+        const signal = options?.signal;
+        if (signal?.aborted || !(failure instanceof LLMError) || !failure.retryable || attempt >= this.policy.maxRetries) {
+            throw failure;
+        }
+
+        const exponential = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** attempt);
+        // Full jitter in the upper half keeps concurrent clients from retrying in lockstep
+        let delay = exponential / 2 + Math.random() * exponential / 2;
+
+        if (failure instanceof LLMRateLimitError && failure.retryAfterMs !== undefined) {
+            // A server asking for a longer pause than we are willing to wait is final
+            if (failure.retryAfterMs > this.policy.maxDelayMs) {
+                throw failure;
+            }
+            delay = Math.max(delay, failure.retryAfterMs);
+        }
+
+        logger.info(`[${this.name}]${requestTag(options?.requestId)} ${failure.message} - retrying in ${Math.round(delay)} ms (attempt ${attempt + 2} of ${this.policy.maxRetries + 1})`);
+        await sleep(delay, signal);
+    }
+}
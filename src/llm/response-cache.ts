@@ -0,0 +1,135 @@
+/**
+ * Persistent response cache
+ * In-memory LRU of model answers keyed by a content hash, backed by a JSON file.
+ */
+
+import { JsonFileStore } from './json-file-store';
+
+/**
+ * Cache limits
+ */
+export interface ResponseCacheOptions {
+    /** How long an answer stays valid (ms) */
+    ttlMs: number;
+    /** Maximum number of answers kept */
+    maxEntries: number;
+}
+
+interface CacheEntry {
+    value: string;
+    createdAt: number;
+}
+
+interface CacheFile {
+    version: 1;
+    entries: Array<[string, CacheEntry]>;
+}
+
+export class ResponseCache {
+    /** Map iteration order is the LRU order: oldest first */
+    private entries = new Map<string, CacheEntry>();
+    private readonly file: JsonFileStore<CacheFile>;
+
+    constructor(
+        private options: ResponseCacheOptions,
+        /** Backing file; the cache stays in memory only when omitted */
+        filePath?: string
+    ) {
+        this.file = new JsonFileStore<CacheFile>(filePath, 'ResponseCache', () => ({ version: 1, entries: [...this.entries] }));
+    }
+
+    /**
+     * Create a cache and load the entries saved in its file
+     */
+    static async open(options: ResponseCacheOptions, filePath?: string): Promise<ResponseCache> {
+        const cache = new ResponseCache(options, filePath);
+        await cache.load();
+        return cache;
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Change limits, evicting what no longer fits
+     */
+    configure(options: ResponseCacheOptions): void {
+        this.options = options;
+        if (this.evict()) {
+            this.file.scheduleSave();
+        }
+    }
+
+    get(key: string): string | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        if (this.isExpired(entry)) {
+            this.entries.delete(key);
+            this.file.scheduleSave();
+            return undefined;
+        }
+
+        // Move to the most recently used end
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    set(key: string, value: string): void {
+        this.entries.delete(key);
+        this.entries.set(key, { value, createdAt: Date.now() });
+        this.evict();
+        this.file.scheduleSave();
+    }
+
+    /**
+     * Remove every entry, in memory and on disk
+     */
+    async clear(): Promise<void> {
+        this.entries.clear();
+        await this.file.save();
+    }
+
+    /**
+     * Write pending changes now
+     */
+    async flush(): Promise<void> {
+        await this.file.flush();
+    }
+
+    private isExpired(entry: CacheEntry): boolean {
+        return Date.now() - entry.createdAt > this.options.ttlMs;
+    }
+
+    /**
+     * Drop expired entries and the least recently used ones over the limit
+     */
+    private evict(): boolean {
+        let changed = false;
+        for (const [key, entry] of this.entries) {
+            if (this.isExpired(entry)) {
+                this.entries.delete(key);
+                changed = true;
+            }
+        }
+        for (const key of this.entries.keys()) {
+            if (this.entries.size <= this.options.maxEntries) {
+                break;
+            }
+            this.entries.delete(key);
+            changed = true;
+        }
+        return changed;
+    }
+
+    private async load(): Promise<void> {
+        const data = await this.file.read();
+        if (data?.version === 1) {
+            this.entries = new Map(data.entries);
+            this.evict();
+        }
+    }
+}
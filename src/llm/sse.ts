@@ -0,0 +1,55 @@
+/**
+ * Server-Sent Events parsing for streaming chat completions
+ */
+
+/**
+ * Read `data:` payloads from an SSE response body.
+ * Stops at the OpenAI-style `[DONE]` sentinel or when the stream ends.
+ */
+export async function* readServerSentEvents(
+    body: AsyncIterable<Uint8Array>
+): AsyncGenerator<string> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let dataLines: string[] = [];
+
+    for await (const chunk of body) {
+        buffer += decoder.decode(chunk, { stream: true });
+
+        let newlineIndex: number;
+        while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+            const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+            buffer = buffer.slice(newlineIndex + 1);
+
+            // Blank line terminates an event
+            if (line === '') {
+                if (dataLines.length > 0) {
+                    const data = dataLines.join('\n');
+                    dataLines = [];
+                    if (data === '[DONE]') {
+                        return;
+                    }
+                    yield data;
+                }
+                continue;
+            }
+
+            // Comments and non-data fields are ignored
+            if (line.startsWith('data:')) {
+                dataLines.push(line.slice(5).replace(/^ /, ''));
+            }
+        }
+    }
+
+    // Flush an event that was not followed by a blank line
+    const trailing = buffer.replace(/\r$/, '');
+    if (trailing.startsWith('data:')) {
+        dataLines.push(trailing.slice(5).replace(/^ /, ''));
+    }
+    if (dataLines.length > 0) {
+        const data = dataLines.join('\n');
+        if (data !== '[DONE]') {
+            yield data;
+        }
+    }
+}
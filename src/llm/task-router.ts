@@ -0,0 +1,46 @@
+/**
+ * Task-based model routing
+ * Picks the provider chain used for each kind of LLM work.
+ */
+
+import { LLMProvider, LLMTask, RequestPriority } from './types';
+import { withPriority } from './request-queue';
+
+export class TaskRouter {
+    private readonly modelRouters = new Map<string, TaskRouter>();
+
+    constructor(
+        /** Primary provider chain, used for tasks without a route */
+        readonly primary: LLMProvider,
+        private readonly routes: Partial<Record<LLMTask, LLMProvider>> = {},
+        /** Builds a router whose primary provider uses another model */
+        private readonly createForModel?: (model: string) => TaskRouter
+    ) { }
+
+    /**
+     * Router for a document that pins its own model: the primary provider
+     * with that model, then the fallbacks, without task routes.
+     * Without a model this router is returned.
+     */
+    forModel(model: string | undefined): TaskRouter {
+        if (!model || !this.createForModel) {
+            return this;
+        }
+
+        let router = this.modelRouters.get(model);
+        if (!router) {
+            router = this.createForModel(model);
+            this.modelRouters.set(model, router);
+        }
+        return router;
+    }
+
+    /**
+     * Provider to use for the given task; with a priority, its requests are
+     * queued with that priority unless they set their own
+     */
+    forTask(task: LLMTask, priority?: RequestPriority): LLMProvider {
+        const provider = this.routes[task] ?? this.primary;
+        return priority ? withPriority(provider, priority) : provider;
+    }
+}
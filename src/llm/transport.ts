@@ -0,0 +1,223 @@
+/**
+ * HTTP transport shared by all providers
+ * Picks a direct undici Agent or a ProxyAgent per endpoint, honoring proxy
+ * settings, NO_PROXY and extra certificate authorities.
+ */
+
+import * as fs from 'fs';
+import * as tls from 'tls';
+import { Agent, Dispatcher, ProxyAgent } from 'undici';
+import { TransportOptions } from './types';
+import { LLMConfigError } from './errors';
+import { logger } from '../logging/logger';
+
+/**
+ * Hosts that are always reached directly
+ */
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '::1', '[::1]', '0.0.0.0']);
+
+/**
+ * Dispatcher with the CA bundles it was created with
+ */
+interface SharedDispatcher {
+    dispatcher: Dispatcher;
+    /** Modification times of the CA bundles when they were read */
+    caVersion: string;
+}
+
+/**
+ * Dispatchers are shared by every provider with the same network settings
+ */
+const dispatchers = new Map<string, SharedDispatcher>();
+
+/**
+ * Read the first non-empty environment variable of the given names
+ */
+function env(...names: string[]): string | undefined {
+    for (const name of names) {
+        const value = process.env[name];
+        if (value) {
+            return value;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Check whether a host matches a NO_PROXY entry ("*", "example.com", ".example.com", "host:port")
+ */
+function matchesNoProxy(hostname: string, port: string, entry: string): boolean {
+    const pattern = entry.trim().toLowerCase();
+    if (!pattern) {
+        return false;
+    }
+    if (pattern === '*') {
+        return true;
+    }
+
+    const [patternHost, patternPort] = pattern.split(/:(?=\d+$)/);
+    if (patternPort && patternPort !== port) {
+        return false;
+    }
+
+    const domain = patternHost.replace(/^\*?\./, '');
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Proxy URL to use for the given endpoint, or undefined for a direct connection
+ */
+export function resolveProxy(endpoint: string, options: TransportOptions = {}): string | undefined {
+    const url = new URL(endpoint);
+    const hostname = url.hostname.toLowerCase();
+    const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+    if (LOCAL_HOSTS.has(hostname) || hostname.startsWith('127.')) {
+        return undefined;
+    }
+
+    const noProxy = [
+        ...(options.noProxy ?? []),
+        ...(env('NO_PROXY', 'no_proxy') ?? '').split(','),
+    ];
+    if (noProxy.some(entry => matchesNoProxy(hostname, port, entry))) {
+        return undefined;
+    }
+
+    const proxy = options.proxy || (url.protocol === 'https:'
+        ? env('HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy')
+        : env('HTTP_PROXY', 'http_proxy'));
+
+    // Proxies are often configured as plain "host:port"
+    return proxy && !/^[a-z][a-z0-9+.-]*:\/\//i.test(proxy) ? `http://${proxy}` : proxy;
+}
+
+/**
+ * Default trust store plus the configured extra CA bundles
+ */
+function loadCertificateAuthorities(files: string[]): string[] | undefined {
+    if (files.length === 0) {
+        return undefined;
+    }
+
+    const extra = files.map(file => {
+        try {
+            return fs.readFileSync(file, 'utf8');
+        } catch (error) {
+            logger.error(`[Transport] Cannot read CA bundle ${file}:`, error);
+            return '';
+        }
+    }).filter(Boolean);
+
+    // Passing `ca` replaces Node's default store, so keep the built-in roots
+    return [...tls.rootCertificates, ...extra];
+}
+
+/**
+ * Modification times of the CA bundles, so an edited bundle is read again
+ */
+function certificateVersion(files: string[]): string {
+    return JSON.stringify(files.map(file => {
+        try {
+            return fs.statSync(file).mtimeMs;
+        } catch {
+            return null;
+        }
+    }));
+}
+
+/**
+ * Close a dispatcher once its in-flight requests finish
+ */
+function closeDispatcher(dispatcher: Dispatcher): Promise<void> {
+    return dispatcher.close().catch(error => {
+        logger.debug('[Transport] Closing a connection pool failed:', error);
+    });
+}
+
+/**
+ * Parse a proxy URL; a malformed one is reported as a configuration error
+ * without echoing the value, which may hold credentials
+ */
+function parseProxyUrl(proxy: string): URL {
+    let url: URL | undefined;
+    try {
+        url = new URL(proxy);
+    } catch {
+        url = undefined;
+    }
+
+    if (!url?.hostname) {
+        throw new LLMConfigError(
+            'Invalid proxy URL. Set http.proxy or the HTTPS_PROXY/HTTP_PROXY environment variable to a URL such as http://proxy.example.com:8080',
+            'Transport',
+            'http.proxy'
+        );
+    }
+    return url;
+}
+
+/**
+ * Get the dispatcher for an endpoint: a ProxyAgent when a proxy applies, otherwise a direct Agent.
+ * Throws LLMConfigError when the proxy URL is malformed.
+ */
+export function getDispatcher(endpoint: string, options: TransportOptions = {}, connectTimeoutMs?: number): Dispatcher {
+    const proxy = resolveProxy(endpoint, options);
+    const strictSSL = options.strictSSL ?? true;
+    const caFiles = options.caCertificates ?? [];
+    const key = JSON.stringify([proxy ?? null, strictSSL, caFiles, connectTimeoutMs ?? null]);
+
+    const caVersion = certificateVersion(caFiles);
+    const cached = dispatchers.get(key);
+    if (cached?.caVersion === caVersion) {
+        return cached.dispatcher;
+    }
+
+    const proxyUrl = proxy ? parseProxyUrl(proxy) : undefined;
+    logger.debug(`[Transport] ${proxyUrl ? `Using proxy ${proxyUrl.host}` : 'Direct connection'} for ${new URL(endpoint).host}`);
+
+    const tlsOptions = {
+        timeout: connectTimeoutMs,
+        rejectUnauthorized: strictSSL,
+        ca: loadCertificateAuthorities(caFiles),
+    };
+
+    const dispatcher = proxy
+        ? new ProxyAgent({ uri: proxy, requestTls: tlsOptions, proxyTls: tlsOptions })
+        : new Agent({ connect: tlsOptions });
+
+    if (cached) {
+        void closeDispatcher(cached.dispatcher);
+    }
+    dispatchers.set(key, { dispatcher, caVersion });
+    return dispatcher;
+}
+
+/**
+ * Network settings of one provider endpoint
+ */
+export class EndpointTransport {
+    constructor(
+        private readonly endpoint: string,
+        private readonly options: TransportOptions = {},
+        private readonly connectTimeoutMs?: number
+    ) { }
+
+    /**
+     * Direct or proxied connection, depending on the endpoint and proxy settings.
+     * Looked up per request, so a malformed proxy fails the request instead of activation.
+     */
+    get dispatcher(): Dispatcher {
+        return getDispatcher(this.endpoint, this.options, this.connectTimeoutMs);
+    }
+}
+
+/**
+ * Close every shared dispatcher, e.g. after the proxy or certificate settings
+ * changed. Later requests get new ones.
+ */
+export async function closeDispatchers(): Promise<void> {
+    const closing = [...dispatchers.values()].map(entry => closeDispatcher(entry.dispatcher));
+    dispatchers.clear();
+    await Promise.all(closing);
+}
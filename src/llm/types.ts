@@ -14,6 +14,91 @@ export interface CompletionOptions {
     stopSequences?: string[];
     /** System message for the conversation */
     systemPrompt?: string;
+    /** Aborts the in-flight HTTP request when signalled */
+    signal?: AbortSignal;
+    /** Receives the model's reasoning/thinking output, kept out of the answer */
+    onReasoning?: (reasoning: string) => void;
+    /** Called for every chunk a stream receives, reasoning included */
+    onChunk?: () => void;
+    /** Ask the model to skip thinking where the provider supports it */
+    disableThinking?: boolean;
+    /**
+     * Most tokens the retry after a reasoning-only answer may generate:
+     * what the context window and the spending caps leave. Unlimited when unset.
+     */
+    maxRetryTokens?: number;
+    /**
+     * Response cache use: 'use' (default) reads and stores, 'skip' bypasses the cache,
+     * 'refresh' asks the model for a fresh variant and stores it
+     */
+    cache?: CacheMode;
+    /** Receives the token counts the server reports, once per request sent */
+    onUsage?: (usage: TokenUsage) => void;
+    /** Kind of work the request is for, recorded in the usage ledger */
+    task?: LLMTask;
+    /** Correlation ID tagging the log lines of this request */
+    requestId?: string;
+    /** JSON schema the answer must follow, sent to providers that support structured output */
+    responseFormat?: ResponseFormat;
+    /** Start order in the shared request queue; defaults to 'background' */
+    priority?: RequestPriority;
+    /** Waiting requests with the same key are dropped when this one is queued */
+    supersedeKey?: string;
+}
+
+/**
+ * Queue priority: user commands and explicit triggers run before automatic requests
+ */
+export type RequestPriority = 'interactive' | 'background';
+
+/**
+ * Structured output request: the answer is a JSON document matching the schema
+ */
+export interface ResponseFormat {
+    /** Short identifier of the schema, e.g. "document_type" */
+    name: string;
+    schema: Record<string, unknown>;
+}
+
+/**
+ * Text around the cursor for a fill-in-the-middle completion
+ */
+export interface FimRequest {
+    /** Text before the cursor */
+    prefix: string;
+    /** Text after the cursor */
+    suffix: string;
+}
+
+/**
+ * Fill-in-the-middle prompt format of a model family
+ */
+export interface FimTemplate {
+    /** Raw prompt with {prefix} and {suffix} placeholders between the family's special tokens */
+    template: string;
+    /** Tokens that end the fill, sent in addition to the request's stop sequences */
+    stop?: string[];
+}
+
+/**
+ * How a request uses the response cache
+ */
+export type CacheMode = 'use' | 'skip' | 'refresh';
+
+/**
+ * Token counts of one request
+ */
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+    input: number;
+    output: number;
 }
 
 /**
@@ -41,6 +126,28 @@ export interface LLMProvider {
      */
     chat(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
 
+    /**
+     * Stream a completion for the given prompt, yielding text deltas as they arrive
+     */
+    completeStream(prompt: string, options?: CompletionOptions): AsyncIterable<string>;
+
+    /**
+     * Stream a chat completion, yielding text deltas as they arrive
+     */
+    chatStream(messages: ChatMessage[], options?: CompletionOptions): AsyncIterable<string>;
+
+    /**
+     * Whether completeFim can be used: the endpoint has a raw completions API
+     * and the model's fill-in-the-middle format is known
+     */
+    readonly supportsFim?: boolean;
+
+    /**
+     * Generate the text between a prefix and a suffix through the raw completions
+     * endpoint (if supported). Only call when supportsFim is true.
+     */
+    completeFim?(request: FimRequest, options?: CompletionOptions): Promise<string>;
+
     /**
      * Check if the provider is available and configured
      */
@@ -50,31 +157,175 @@ export interface LLMProvider {
      * List available models (if supported)
      */
     listModels?(): Promise<string[]>;
+
+    /**
+     * Check availability and explain what is wrong when unavailable (if supported)
+     */
+    checkHealth?(): Promise<ProviderHealth>;
+}
+
+/**
+ * Result of a provider health check
+ */
+export interface ProviderHealth {
+    /** Whether completions can be requested */
+    available: boolean;
+    /** Human-readable reason when not available */
+    message?: string;
+}
+
+/**
+ * Network settings for reaching provider endpoints
+ */
+export interface TransportOptions {
+    /** Proxy URL; empty falls back to the HTTPS_PROXY/HTTP_PROXY environment variables */
+    proxy?: string;
+    /** Verify TLS certificates of the proxy and the endpoint */
+    strictSSL?: boolean;
+    /** Hosts reached without the proxy, in addition to NO_PROXY */
+    noProxy?: string[];
+    /** PEM files with extra trusted certificate authorities */
+    caCertificates?: string[];
+}
+
+/**
+ * Settings shared by all provider configurations
+ */
+export interface BaseProviderConfig {
+    /** Maximum time to establish a TCP/TLS connection (ms) */
+    connectTimeoutMs?: number;
+    /** Proxy and TLS settings */
+    transport?: TransportOptions;
 }
 
 /**
  * Configuration for OpenAI-compatible providers
  */
-export interface OpenAIProviderConfig {
+export interface OpenAIProviderConfig extends BaseProviderConfig {
     type: 'openai';
     baseUrl: string;
     apiKey: string;
     model: string;
+    /** Fill-in-the-middle format of the model; unset disables /completions FIM requests */
+    fim?: FimTemplate;
 }
 
 /**
  * Configuration for Ollama provider
  */
-export interface OllamaProviderConfig {
+export interface OllamaProviderConfig extends BaseProviderConfig {
     type: 'ollama';
     baseUrl: string;
     model: string;
+    /** 'openai' uses the /v1 compatibility layer, 'native' uses /api/chat */
+    apiMode?: OllamaApiMode;
+    /** Context window size in tokens (native mode only) */
+    numCtx?: number;
+    /** How long the model stays loaded after a request, e.g. "30m" (native mode only) */
+    keepAlive?: string;
+    /** Enable or disable thinking for reasoning models; unset leaves the model default (native mode only) */
+    think?: boolean;
+    /** Fill-in-the-middle format of the model; unset disables raw /api/generate FIM requests */
+    fim?: FimTemplate;
 }
 
+/**
+ * Ollama API flavour
+ */
+export type OllamaApiMode = 'openai' | 'native';
+
+/**
+ * Thinking control setting for Ollama reasoning models
+ */
+export type OllamaThinkMode = 'auto' | 'on' | 'off';
+
+/**
+ * Configuration for Anthropic provider
+ */
+export interface AnthropicProviderConfig extends BaseProviderConfig {
+    type: 'anthropic';
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+}
+
+/**
+ * Configuration for the record/replay provider used by tests and demos
+ */
+export interface ReplayProviderConfig extends BaseProviderConfig {
+    type: 'replay';
+    /** JSON fixture file holding the recorded request/response pairs */
+    fixturesPath: string;
+    /** 'record' sends unrecorded requests to the inner provider and saves the answers, 'replay' only reads */
+    mode: ReplayMode;
+    /** Fail on requests without a recording instead of passing them on (replay mode only) */
+    strict?: boolean;
+    /** Provider answering requests that have no recording; required for record mode */
+    inner?: ProviderConfig;
+}
+
+/**
+ * How the replay provider treats its fixture file
+ */
+export type ReplayMode = 'record' | 'replay';
+
+/**
+ * Configurations of providers that talk to a model server
+ */
+export type ServerProviderConfig = OpenAIProviderConfig | OllamaProviderConfig | AnthropicProviderConfig;
+
 /**
  * Union type for all provider configurations
  */
-export type ProviderConfig = OpenAIProviderConfig | OllamaProviderConfig;
+export type ProviderConfig = ServerProviderConfig | ReplayProviderConfig;
+
+/**
+ * Provider backends that can be configured in settings
+ */
+export type ProviderType = ServerProviderConfig['type'];
+
+/**
+ * One entry of a fallback chain or task route.
+ * Unset fields are taken from the provider's own settings section.
+ */
+export interface ProviderEndpoint {
+    provider: ProviderType;
+    model: string;
+    baseUrl?: string;
+    apiKey?: string;
+}
+
+/**
+ * Named provider setup that can be switched to from the status bar.
+ * Unset fields keep the values from the regular settings.
+ */
+export interface ProviderProfile {
+    name: string;
+    provider: ProviderType;
+    model: string;
+    baseUrl?: string;
+    apiKey?: string;
+    maxTokens?: number;
+    temperature?: number;
+}
+
+/**
+ * Source of API keys kept outside of settings (e.g. secret storage)
+ */
+export interface ApiKeyLookup {
+    /** Key stored for the profile, or for the provider when no profile is given; undefined when none is stored */
+    get(provider: ProviderType, profileName?: string): string | undefined;
+}
+
+/**
+ * Kinds of LLM work that can be routed to different models
+ */
+export type LLMTask = 'detection' | 'structure' | 'content';
+
+/**
+ * Verbosity of the extension log, from quietest to most detailed
+ */
+export type LogLevel = 'off' | 'error' | 'warn' | 'info' | 'debug' | 'trace';
 
 /**
  * Document type definition for thought completion
@@ -92,7 +343,7 @@ export interface DocumentType {
  * Extension settings structure
  */
 export interface ExtensionSettings {
-    provider: 'openai' | 'ollama';
+    provider: ProviderType;
     openai: {
         baseUrl: string;
         apiKey: string;
@@ -101,11 +352,64 @@ export interface ExtensionSettings {
     ollama: {
         baseUrl: string;
         model: string;
+        apiMode: OllamaApiMode;
+        numCtx: number;
+        keepAlive: string;
+        think: OllamaThinkMode;
+    };
+    anthropic: {
+        baseUrl: string;
+        apiKey: string;
+        model: string;
     };
     autoComplete: boolean;
     triggerMode: 'auto' | 'manual';
     completionDelay: number;
     maxTokens: number;
+    temperature: number;
+    /** Context window (tokens) assumed for models without a specific entry */
+    contextWindow: number;
+    /** Context window (tokens) per model name */
+    modelContextWindows: Record<string, number>;
+    connectTimeout: number;
+    requestTimeout: number;
+    maxRetries: number;
+    /** Requests sent to models at the same time; further ones wait in the queue */
+    maxConcurrentRequests: number;
+    /** Proxy and TLS settings, including VS Code's http.* settings */
+    transport: TransportOptions;
+    cache: {
+        enabled: boolean;
+        ttlHours: number;
+        maxEntries: number;
+    };
+    usage: {
+        /** Record requests in the usage ledger */
+        enabled: boolean;
+        /** Prices per model name, overriding the built-in table */
+        prices: Record<string, ModelPrice>;
+        /** Spending (USD) after which automatic completions pause for the day; 0 = no cap */
+        dailyCap: number;
+        /** Spending (USD) after which automatic completions pause for the month; 0 = no cap */
+        monthlyCap: number;
+    };
+    fim: {
+        /** Fill content inline through the completions endpoint when the model's format is known */
+        enabled: boolean;
+        /** FIM formats per model family (part of the model name), merged over the built-in ones */
+        templates: Record<string, FimTemplate>;
+    };
+    log: {
+        /** Replace document text in trace-level request bodies with its length */
+        redactDocumentText: boolean;
+    };
+    /** Providers tried in order after the primary one is unavailable */
+    fallbackProviders: ProviderEndpoint[];
+    /** Per-task provider chains; tasks without a route use the primary chain */
+    taskRouting: Partial<Record<LLMTask, ProviderEndpoint[]>>;
+    profiles: ProviderProfile[];
+    /** Name of the profile applied over the provider settings, empty for none */
+    activeProfile: string;
     activeDocumentType: string;
     documentTypes: DocumentType[];
 }
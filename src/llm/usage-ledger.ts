@@ -0,0 +1,231 @@
+/**
+ * Usage ledger
+ * Local record of every LLM call with token counts, latency and estimated cost,
+ * backed by a JSON file.
+ */
+
+import { LLMTask, ProviderType } from './types';
+import { JsonFileStore } from './json-file-store';
+
+/**
+ * One recorded LLM call
+ */
+export interface UsageEntry {
+    /** When the call finished (ms) */
+    timestamp: number;
+    task?: LLMTask;
+    provider: ProviderType;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    /** Token counts were estimated because the server reported none */
+    estimated: boolean;
+    latencyMs: number;
+    /** Estimated cost in USD; undefined when the model has no known price */
+    cost?: number;
+}
+
+/**
+ * Spending limits in USD; 0 = no limit
+ */
+export interface SpendingCaps {
+    dailyCap: number;
+    monthlyCap: number;
+}
+
+/**
+ * Totals over a group of entries
+ */
+export interface UsageTotals {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+    latencyMs: number;
+    /** Some entries have no known price, so the cost is a lower bound */
+    unpriced: boolean;
+    /** Some token counts were estimated */
+    estimated: boolean;
+}
+
+interface LedgerFile {
+    version: 1;
+    entries: UsageEntry[];
+}
+
+/**
+ * Entries older than this are dropped (ms)
+ */
+const RETENTION_MS = 100 * 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the local day containing the time
+ */
+export function startOfDay(time: number): number {
+    const date = new Date(time);
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+/**
+ * Start of the local month containing the time
+ */
+export function startOfMonth(time: number): number {
+    const date = new Date(time);
+    return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+/**
+ * Sum up a group of entries
+ */
+export function totalUsage(entries: UsageEntry[]): UsageTotals {
+    const totals: UsageTotals = {
+        requests: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cost: 0,
+        latencyMs: 0,
+        unpriced: false,
+        estimated: false,
+    };
+
+    for (const entry of entries) {
+        totals.requests++;
+        totals.inputTokens += entry.inputTokens;
+        totals.outputTokens += entry.outputTokens;
+        totals.cost += entry.cost ?? 0;
+        totals.latencyMs += entry.latencyMs;
+        totals.unpriced = totals.unpriced || entry.cost === undefined;
+        totals.estimated = totals.estimated || entry.estimated;
+    }
+
+    return totals;
+}
+
+/**
+ * Group entries by a key, keeping the order in which keys first appear
+ */
+export function groupUsage(entries: UsageEntry[], keyOf: (entry: UsageEntry) => string): Map<string, UsageTotals> {
+    const groups = new Map<string, UsageEntry[]>();
+    for (const entry of entries) {
+        const key = keyOf(entry);
+        const group = groups.get(key);
+        if (group) {
+            group.push(entry);
+        } else {
+            groups.set(key, [entry]);
+        }
+    }
+    return new Map([...groups].map(([key, group]) => [key, totalUsage(group)]));
+}
+
+export class UsageLedger {
+    /** Oldest first */
+    private entries: UsageEntry[] = [];
+    private listeners = new Set<(entry: UsageEntry) => void>();
+    private readonly file: JsonFileStore<LedgerFile>;
+
+    constructor(
+        /** Backing file; the ledger stays in memory only when omitted */
+        filePath?: string
+    ) {
+        this.file = new JsonFileStore<LedgerFile>(filePath, 'UsageLedger', () => ({ version: 1, entries: this.entries }));
+    }
+
+    /**
+     * Create a ledger and load the entries saved in its file
+     */
+    static async open(filePath?: string): Promise<UsageLedger> {
+        const ledger = new UsageLedger(filePath);
+        await ledger.load();
+        return ledger;
+    }
+
+    get size(): number {
+        return this.entries.length;
+    }
+
+    record(entry: UsageEntry): void {
+        this.entries.push(entry);
+        this.prune();
+        this.file.scheduleSave();
+        this.listeners.forEach(listener => listener(entry));
+    }
+
+    /**
+     * Get notified of every recorded call
+     */
+    onDidRecord(listener: (entry: UsageEntry) => void): { dispose(): void } {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    }
+
+    /**
+     * Entries recorded at or after the given time, oldest first
+     */
+    since(time: number): UsageEntry[] {
+        return this.entries.filter(entry => entry.timestamp >= time);
+    }
+
+    /**
+     * The cap that has been reached, if any
+     */
+    capReached(caps: SpendingCaps, now = Date.now()): 'daily' | 'monthly' | undefined {
+        if (caps.dailyCap > 0 && totalUsage(this.since(startOfDay(now))).cost >= caps.dailyCap) {
+            return 'daily';
+        }
+        if (caps.monthlyCap > 0 && totalUsage(this.since(startOfMonth(now))).cost >= caps.monthlyCap) {
+            return 'monthly';
+        }
+        return undefined;
+    }
+
+    /**
+     * Spending left before the nearest cap, or undefined when no cap is set
+     */
+    remaining(caps: SpendingCaps, now = Date.now()): number | undefined {
+        const left: number[] = [];
+        if (caps.dailyCap > 0) {
+            left.push(caps.dailyCap - totalUsage(this.since(startOfDay(now))).cost);
+        }
+        if (caps.monthlyCap > 0) {
+            left.push(caps.monthlyCap - totalUsage(this.since(startOfMonth(now))).cost);
+        }
+        return left.length > 0 ? Math.max(0, Math.min(...left)) : undefined;
+    }
+
+    /**
+     * Remove every entry, in memory and on disk
+     */
+    async clear(): Promise<void> {
+        this.entries = [];
+        await this.file.save();
+    }
+
+    /**
+     * Write pending changes now
+     */
+    async flush(): Promise<void> {
+        await this.file.flush();
+    }
+
+    /**
+     * Drop entries past the retention period
+     */
+    private prune(): boolean {
+        const cutoff = Date.now() - RETENTION_MS;
+        const index = this.entries.findIndex(entry => entry.timestamp >= cutoff);
+        const expired = index === -1 ? this.entries.length : index;
+        this.entries.splice(0, expired);
+        return expired > 0;
+    }
+
+    private async load(): Promise<void> {
+        const data = await this.file.read();
+        if (data?.version === 1) {
+            this.entries = data.entries.sort((a, b) => a.timestamp - b.timestamp);
+            if (this.prune()) {
+                this.file.scheduleSave();
+            }
+        }
+    }
+}
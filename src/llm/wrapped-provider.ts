@@ -0,0 +1,54 @@
+/**
+ * Base for providers that wrap another one
+ * Cross-cutting layers (retries, queueing, caching, metering) override the
+ * request methods and pass everything else through to the wrapped provider.
+ */
+
+import { LLMProvider, CompletionOptions, ChatMessage, FimRequest, ProviderHealth } from './types';
+
+/**
+ * Normalize a prompt call into the messages a provider would send
+ */
+export function promptMessages(prompt: string, options?: CompletionOptions): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+    if (options?.systemPrompt) {
+        messages.push({ role: 'system', content: options.systemPrompt });
+    }
+    messages.push({ role: 'user', content: prompt });
+    return messages;
+}
+
+/**
+ * Provider layered over another one, passing name, FIM support and health through
+ */
+export abstract class WrappedProvider implements LLMProvider {
+    constructor(protected readonly inner: LLMProvider) { }
+
+    get name(): string {
+        return this.inner.name;
+    }
+
+    get supportsFim(): boolean {
+        return this.inner.supportsFim ?? false;
+    }
+
+    abstract complete(prompt: string, options?: CompletionOptions): Promise<string>;
+    abstract chat(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+    abstract completeStream(prompt: string, options?: CompletionOptions): AsyncIterable<string>;
+    abstract chatStream(messages: ChatMessage[], options?: CompletionOptions): AsyncIterable<string>;
+    abstract completeFim(request: FimRequest, options?: CompletionOptions): Promise<string>;
+
+    isAvailable(): Promise<boolean> {
+        return this.inner.isAvailable();
+    }
+
+    async listModels(): Promise<string[]> {
+        return this.inner.listModels ? this.inner.listModels() : [];
+    }
+
+    async checkHealth(): Promise<ProviderHealth> {
+        return this.inner.checkHealth
+            ? this.inner.checkHealth()
+            : { available: await this.inner.isAvailable() };
+    }
+}
@@ -0,0 +1,16 @@
+/**
+ * Logging module exports
+ */
+
+export {
+    Logger,
+    LogSink,
+    LoggerOptions,
+    logger,
+    registerSecret,
+    redactSecrets,
+    redactDocumentText,
+    requestTag,
+} from './logger';
+
+export { RequestLog, newRequestId } from './request-log';
@@ -0,0 +1,210 @@
+/**
+ * Extension logger
+ * Leveled logging to the ThoughtCompletion output channel, with secrets redacted.
+ * Writes to the console until an output channel is attached.
+ */
+
+import { LogLevel } from '../llm/types';
+
+/**
+ * Destination of log messages; a VS Code LogOutputChannel fits this shape
+ */
+export interface LogSink {
+    trace(message: string, ...args: unknown[]): void;
+    debug(message: string, ...args: unknown[]): void;
+    info(message: string, ...args: unknown[]): void;
+    warn(message: string, ...args: unknown[]): void;
+    error(message: string | Error, ...args: unknown[]): void;
+}
+
+export interface LoggerOptions {
+    /** Most detailed messages written; follows the output channel's level in the extension */
+    level: LogLevel;
+    /** Replace document text in logged bodies with its length */
+    redactDocumentText: boolean;
+}
+
+const SEVERITY: Record<LogLevel, number> = {
+    off: 0,
+    error: 1,
+    warn: 2,
+    info: 3,
+    debug: 4,
+    trace: 5,
+};
+
+const consoleSink: LogSink = {
+    trace: (message, ...args) => console.log(message, ...args),
+    debug: (message, ...args) => console.log(message, ...args),
+    info: (message, ...args) => console.log(message, ...args),
+    warn: (message, ...args) => console.warn(message, ...args),
+    error: (message, ...args) => console.error(message, ...args),
+};
+
+/**
+ * Key formats of the supported providers and auth headers that may be echoed back
+ */
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+    [/\bsk-[A-Za-z0-9_-]{8,}/g, 'sk-***'],
+    [/\b(Bearer\s+)[A-Za-z0-9._~+/=-]+/gi, '$1***'],
+    [/("(?:api[_-]?key|x-api-key|authorization)"\s*:\s*")[^"]*/gi, '$1***'],
+];
+
+/**
+ * Body fields that carry document text or text derived from it
+ */
+const DOCUMENT_FIELDS = new Set([
+    'content',
+    'system',
+    'prompt',
+    'text',
+    'response', // Ollama /api/generate answers
+    'thinking',
+    'reasoning',
+    'reasoning_content',
+]);
+
+/**
+ * Keys known to be in use, redacted wherever they appear
+ */
+const knownSecrets = new Set<string>();
+
+/**
+ * Register an API key so it never reaches the log, whatever its format
+ */
+export function registerSecret(secret: string | undefined): void {
+    // Very short values would redact ordinary words
+    if (secret && secret.length >= 8) {
+        knownSecrets.add(secret);
+    }
+}
+
+/**
+ * Mask API keys and auth headers in text
+ */
+export function redactSecrets(text: string): string {
+    let result = text;
+    for (const secret of knownSecrets) {
+        result = result.split(secret).join('***');
+    }
+    for (const [pattern, replacement] of SECRET_PATTERNS) {
+        result = result.replace(pattern, replacement);
+    }
+    return result;
+}
+
+/**
+ * Replace the document text in a request or response body with its length
+ */
+export function redactDocumentText(value: unknown, key?: string): unknown {
+    if (typeof value === 'string') {
+        return key !== undefined && DOCUMENT_FIELDS.has(key) ? `[${value.length} chars]` : value;
+    }
+    if (Array.isArray(value)) {
+        // Array items inherit the field name, e.g. a list of prompts
+        return value.map(item => redactDocumentText(item, key));
+    }
+    if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(
+            Object.entries(value).map(([k, v]) => [k, redactDocumentText(v, k)])
+        );
+    }
+    return value;
+}
+
+function redactArg(arg: unknown): unknown {
+    if (typeof arg === 'string') {
+        return redactSecrets(arg);
+    }
+    if (arg instanceof Error) {
+        const redacted = new Error(redactSecrets(arg.message));
+        redacted.name = arg.name;
+        redacted.stack = arg.stack && redactSecrets(arg.stack);
+        return redacted;
+    }
+    return arg;
+}
+
+export class Logger {
+    private sink: LogSink = consoleSink;
+    private options: LoggerOptions = { level: 'info', redactDocumentText: false };
+
+    /**
+     * Send messages to the given sink instead of the console
+     */
+    attach(sink: LogSink): void {
+        this.sink = sink;
+    }
+
+    /**
+     * Go back to logging to the console
+     */
+    detach(): void {
+        this.sink = consoleSink;
+    }
+
+    /**
+     * Change the given options and keep the rest
+     */
+    configure(options: Partial<LoggerOptions>): void {
+        this.options = { ...this.options, ...options };
+    }
+
+    /**
+     * Whether messages of the level are written, to skip building expensive ones
+     */
+    isEnabled(level: Exclude<LogLevel, 'off'>): boolean {
+        return SEVERITY[level] <= SEVERITY[this.options.level];
+    }
+
+    trace(message: string, ...args: unknown[]): void {
+        this.write('trace', message, args);
+    }
+
+    debug(message: string, ...args: unknown[]): void {
+        this.write('debug', message, args);
+    }
+
+    info(message: string, ...args: unknown[]): void {
+        this.write('info', message, args);
+    }
+
+    warn(message: string, ...args: unknown[]): void {
+        this.write('warn', message, args);
+    }
+
+    error(message: string, ...args: unknown[]): void {
+        this.write('error', message, args);
+    }
+
+    /**
+     * Log a request or response body at trace level.
+     * Secrets are always masked; document text is masked when configured.
+     */
+    traceBody(label: string, body: unknown): void {
+        if (!this.isEnabled('trace')) {
+            return;
+        }
+        const value = this.options.redactDocumentText ? redactDocumentText(body) : body;
+        this.write('trace', `${label}: ${JSON.stringify(value)}`, []);
+    }
+
+    private write(level: Exclude<LogLevel, 'off'>, message: string, args: unknown[]): void {
+        if (!this.isEnabled(level)) {
+            return;
+        }
+        this.sink[level](redactSecrets(message), ...args.map(redactArg));
+    }
+}
+
+/**
+ * Logger shared by all modules of the extension
+ */
+export const logger = new Logger();
+
+/**
+ * Log prefix identifying a request, empty for requests without a correlation ID
+ */
+export function requestTag(requestId: string | undefined): string {
+    return requestId ? ` [${requestId}]` : '';
+}
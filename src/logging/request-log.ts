@@ -0,0 +1,81 @@
+/**
+ * Per-request log summary
+ * Gives each completion request a correlation ID and logs it once when it ends,
+ * with mode, document type, token counts, latency and outcome.
+ */
+
+import { randomBytes } from 'crypto';
+import { CompletionOptions, TokenUsage } from '../llm/types';
+import { logger } from './logger';
+
+/**
+ * Short random ID to match the log lines of one request
+ */
+export function newRequestId(): string {
+    return randomBytes(4).toString('hex');
+}
+
+export class RequestLog {
+    readonly id = newRequestId();
+    private readonly started = Date.now();
+    private readonly usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    private reported = false;
+    private finished = false;
+
+    constructor(
+        /** What the request is for, e.g. 'structure' or 'detection' */
+        private readonly mode: string,
+        /** Document type the prompt was built for */
+        private readonly documentType?: string
+    ) { }
+
+    /**
+     * Tag the request options with the correlation ID and collect the reported usage
+     */
+    track(options: CompletionOptions = {}): CompletionOptions {
+        return {
+            ...options,
+            requestId: this.id,
+            onUsage: usage => {
+                this.reported = true;
+                this.usage.inputTokens += usage.inputTokens;
+                this.usage.outputTokens += usage.outputTokens;
+                options.onUsage?.(usage);
+            },
+        };
+    }
+
+    /**
+     * Log a request that returned an answer
+     */
+    succeed(answer: string, detail?: string): void {
+        const outcome = answer ? `ok, ${answer.length} chars` : 'empty';
+        this.finish(detail ? `${outcome}, ${detail}` : outcome, 'info');
+    }
+
+    /**
+     * Log a request that failed, or was cancelled through the signal or dropped from the queue
+     */
+    fail(error: unknown, signal?: AbortSignal): void {
+        if (signal?.aborted || (error instanceof Error && error.name === 'AbortError')) {
+            this.finish('cancelled', 'info');
+        } else {
+            this.finish(`failed: ${error instanceof Error ? error.message : String(error)}`, 'warn');
+        }
+    }
+
+    private finish(outcome: string, level: 'info' | 'warn'): void {
+        if (this.finished) {
+            return;
+        }
+        this.finished = true;
+
+        const tokens = this.reported
+            ? `${this.usage.inputTokens}/${this.usage.outputTokens}`
+            : 'n/a';
+        const type = this.documentType ? ` type=${this.documentType}` : '';
+        logger[level](
+            `[${this.id}] ${this.mode}${type} tokens=${tokens} latency=${Date.now() - this.started}ms ${outcome}`
+        );
+    }
+}
@@ -3,7 +3,9 @@
  */
 
 import { DocumentContext, CursorPosition } from '../analysis/document-context';
-import { DocumentType } from '../llm/types';
+import { OutlineNode, flattenOutline, renderStructureNode, scaffoldSibling } from '../analysis/outline';
+import { SectionSummary } from '../analysis/sections';
+import { DocumentType, FimRequest } from '../llm/types';
 import { STRUCTURE_SYSTEM_PROMPT, CONTENT_SYSTEM_PROMPT } from './templates';
 
 /**
@@ -15,35 +17,258 @@ export interface BuiltPrompt {
 }
 
 /**
- * Build a prompt for structure continuation
+ * Variable parts of a prompt, in budget priority order
  */
-function buildStructurePrompt(context: DocumentContext): BuiltPrompt {
-    const typeContext = context.documentType
-        ? `\nDocument type: ${context.documentType.name}\n${context.documentType.workingPrompt}`
+interface PromptParts {
+    /** Document type framework and current section */
+    framework: string;
+    /** Document outline around the cursor, one element per line */
+    outline: string;
+    /** Summaries of the sibling sections, one per line */
+    siblings: string;
+    /** Start of the section after the current one */
+    nextSection: string;
+    textBeforeCursor: string;
+    textAfterCursor: string;
+}
+
+/**
+ * Most outline lines sent without a token budget
+ */
+const MAX_OUTLINE_LINES = 40;
+
+/**
+ * Most sibling section summaries sent without a token budget
+ */
+const MAX_SIBLING_SECTIONS = 10;
+
+/**
+ * Line marking the cursor in the outline
+ */
+const CURSOR_MARKER = '<-- CURSOR';
+
+/**
+ * Ancestors of an outline element, from the top level down
+ */
+function outlineAncestors(entry: OutlineNode): OutlineNode[] {
+    const ancestors: OutlineNode[] = [];
+    for (let parent = entry.parent; parent; parent = parent.parent) {
+        ancestors.unshift(parent);
+    }
+    return ancestors;
+}
+
+/**
+ * Outline lines around the cursor that fit: the marker and the cursor's
+ * heading path first, then the nearest other lines, preferring earlier ones.
+ * A line is only sent together with its ancestors.
+ */
+function selectOutline(context: DocumentContext, fits: (lines: string[]) => boolean): string {
+    const nodes = flattenOutline(context.outline);
+    const preceding = new Set(context.precedingStructure);
+    const cursorIndex = nodes.filter(n => preceding.has(n.node)).length;
+    const entries: (OutlineNode | null)[] = [...nodes.slice(0, cursorIndex), null, ...nodes.slice(cursorIndex)];
+    const render = (entry: OutlineNode | null) => entry ? renderStructureNode(entry.node) : CURSOR_MARKER;
+
+    const kept = new Set<OutlineNode | null>();
+    const keep = (group: (OutlineNode | null)[]): boolean => {
+        const missing = group.filter(entry => !kept.has(entry));
+        if (!fits(missing.map(render))) {
+            return false;
+        }
+        missing.forEach(entry => kept.add(entry));
+        return true;
+    };
+
+    keep([null]);
+    for (const entry of context.outlinePath) {
+        if (!keep([entry])) break;
+    }
+
+    const pinned = new Set<OutlineNode | null>([null, ...context.outlinePath]);
+    const byDistance = entries
+        .map((entry, index) => ({ entry, distance: index < cursorIndex ? cursorIndex - index - 0.5 : index - cursorIndex }))
+        .filter(({ entry }) => !pinned.has(entry))
+        .sort((a, b) => a.distance - b.distance);
+    for (const { entry } of byDistance) {
+        if (!keep([...outlineAncestors(entry!), entry])) break;
+    }
+
+    return entries.filter(entry => kept.has(entry)).map(render).join('\n');
+}
+
+/**
+ * Render a sibling section as one line, e.g. "## Risks — Suppliers may be late."
+ */
+function renderSectionSummary(section: SectionSummary): string {
+    return section.summary ? `${section.heading} — ${section.summary}` : section.heading;
+}
+
+/**
+ * Sibling section summaries that fit, nearest to the cursor first and
+ * preferring earlier ones
+ */
+function selectSiblings(context: DocumentContext, fits: (lines: string[]) => boolean): string {
+    const sections = context.siblingSections;
+    const lastPreceding = context.precedingStructure[context.precedingStructure.length - 1];
+    const cursorIndex = lastPreceding ? sections.filter(s => s.line <= lastPreceding.line).length : 0;
+
+    const kept = new Set<SectionSummary>();
+    const byDistance = sections
+        .map((section, index) => ({ section, distance: index < cursorIndex ? cursorIndex - index - 0.5 : index - cursorIndex }))
+        .sort((a, b) => a.distance - b.distance);
+    for (const { section } of byDistance) {
+        if (!fits([renderSectionSummary(section)])) break;
+        kept.add(section);
+    }
+
+    return sections.filter(section => kept.has(section)).map(renderSectionSummary).join('\n');
+}
+
+/**
+ * Headers containing the cursor, e.g. "\nCurrent section: Deal > Options"
+ */
+function renderHeadingPath(context: DocumentContext): string {
+    return context.headingPath.length > 0
+        ? `\nCurrent section: ${context.headingPath.join(' > ')}`
         : '';
+}
 
-    const sectionContext = context.currentSection
-        ? `\nCurrent section: ${context.currentSection}`
+/**
+ * Language and directives the document sets for the cursor's section
+ */
+function renderDirectives(context: DocumentContext): string {
+    const language = context.documentSettings.language
+        ? `\nWrite in this language: ${context.documentSettings.language}`
         : '';
+    const directives = context.directives.length > 0
+        ? `\nAuthor's directives for this section:\n${context.directives.map(d => `- ${d}`).join('\n')}`
+        : '';
+    return language + directives;
+}
 
-    const structureSummary = context.precedingStructure
-        .slice(-10) // Last 10 structure elements
-        .map(n => {
-            const prefix = n.type === 'header' ? '#'.repeat(n.level) + ' ' :
-                n.type === 'bullet' ? '  '.repeat(n.level - 1) + '- ' :
-                    n.type === 'numbered' ? '  '.repeat(n.level - 1) + '1. ' : '';
-            return prefix + n.content;
-        })
-        .join('\n');
+/**
+ * Prompt block for a part, or nothing when the part is empty
+ */
+function renderBlock(title: string, text: string): string {
+    return text ? `\n\n${title}:\n${text}` : '';
+}
 
-    const userPrompt = `CONTEXT & FRAMEWORK:
-${typeContext}${sectionContext}
+/**
+ * Where the cursor sits in the outline, e.g. "Deal > Options > Option B"
+ */
+function renderLocation(context: DocumentContext): string {
+    return context.outlinePath.map(n => n.node.content).join(' > ');
+}
 
-RECENT STRUCTURE:
-${structureSummary}
+/**
+ * Tell the model what the next sibling should look like
+ */
+function renderSiblingShape(context: DocumentContext): string {
+    const pattern = context.siblingPattern;
+    if (!pattern) {
+        return '';
+    }
+    const last = renderStructureNode(pattern.siblings[pattern.siblings.length - 1].node);
+    return `\n\nNEXT SIBLING SHAPE:\nThe next sibling of "${last}" should follow this shape:\n${scaffoldSibling(pattern)}`;
+}
+
+/**
+ * Line filter keeping at most the given number of lines
+ */
+function fitsCount(max: number): (lines: string[]) => boolean {
+    let count = 0;
+    return lines => {
+        if (count + lines.length > max) {
+            return false;
+        }
+        count += lines.length;
+        return true;
+    };
+}
+
+/**
+ * Collect the prompt parts, fitted to the context's budget when it has one
+ */
+function promptParts(
+    context: DocumentContext,
+    systemPrompt: string,
+    render: (parts: PromptParts) => string,
+    uses: { outline: boolean; textAfterCursor: boolean }
+): PromptParts {
+    const framework = context.documentType
+        ? `\nDocument type: ${context.documentType.name}\n${context.documentType.workingPrompt}`
+        : '';
+    const budget = context.budget;
+
+    if (!budget) {
+        return {
+            framework,
+            outline: uses.outline ? selectOutline(context, fitsCount(MAX_OUTLINE_LINES)) : '',
+            siblings: selectSiblings(context, fitsCount(MAX_SIBLING_SECTIONS)),
+            nextSection: context.nextSectionStart,
+            textBeforeCursor: context.textBeforeCursor,
+            textAfterCursor: context.textAfterCursor,
+        };
+    }
+
+    // The instructions, the heading path, the directives and the current line are always sent in full
+    const empty: PromptParts = {
+        framework: '', outline: '', siblings: '', nextSection: '', textBeforeCursor: '', textAfterCursor: '',
+    };
+    // Counted line by line, the way the outline and the summaries are fitted
+    const lineTokens = (text: string) => text ? text.split('\n').reduce((sum, line) => sum + budget.count(line) + 1, 0) : 0;
+    const fullOutline = uses.outline ? selectOutline(context, () => true) : '';
+    const siblingTokens = lineTokens(selectSiblings(context, () => true));
+    const textAfterCursor = uses.textAfterCursor ? context.textAfterCursor : '';
+
+    const allocation = budget.allocate([systemPrompt, render(empty)], {
+        framework: budget.count(framework),
+        outline: lineTokens(fullOutline),
+        sections: siblingTokens + budget.count(context.nextSectionStart),
+        before: budget.count(context.textBeforeCursor),
+        after: budget.count(textAfterCursor),
+    });
+
+    const fitsWithin = (tokens: number) => (lines: string[]) => {
+        const cost = lines.reduce((sum, line) => sum + budget.count(line) + 1, 0);
+        if (cost > tokens) {
+            return false;
+        }
+        tokens -= cost;
+        return true;
+    };
+
+    // The next section gets at least half of the sections' share when the siblings need it
+    const nextSection = budget.fitStart(
+        context.nextSectionStart,
+        Math.max(allocation.sections - siblingTokens, Math.floor(allocation.sections / 2))
+    );
+
+    return {
+        framework: budget.fitStart(framework, allocation.framework),
+        outline: uses.outline ? selectOutline(context, fitsWithin(allocation.outline)) : '',
+        siblings: selectSiblings(context, fitsWithin(allocation.sections - budget.count(nextSection))),
+        nextSection,
+        textBeforeCursor: budget.fitMiddle(context.textBeforeCursor, allocation.before),
+        textAfterCursor: budget.fitStart(textAfterCursor, allocation.after),
+    };
+}
+
+/**
+ * Render the user prompt for structure continuation
+ */
+function renderStructurePrompt(parts: PromptParts, guidance: string, location: string, siblingShape: string): string {
+    return `CONTEXT & FRAMEWORK:
+${parts.framework}${guidance}
+
+DOCUMENT OUTLINE (cursor marked with ${CURSOR_MARKER}):
+${parts.outline}
+
+CURSOR LOCATION: ${location || 'top level'}${siblingShape}${renderBlock('SIBLING SECTIONS', parts.siblings)}${renderBlock('NEXT SECTION', parts.nextSection)}
 
 CONTENT BEFORE CURSOR (DO NOT REPEAT):
-${context.textBeforeCursor}
+${parts.textBeforeCursor}
 
 INSTRUCTIONS:
 1. Analyze the logic flow above.
@@ -53,36 +278,42 @@ INSTRUCTIONS:
 5. If the argument is weak, suggest a header like "### Critical Gaps" or "### Evidence Required".
 
 Generate ONLY the new structure.`;
+}
+
+/**
+ * Build a prompt for structure continuation
+ */
+function buildStructurePrompt(context: DocumentContext): BuiltPrompt {
+    const guidance = renderHeadingPath(context) + renderDirectives(context);
+    const location = renderLocation(context);
+    const siblingShape = renderSiblingShape(context);
+    const render = (parts: PromptParts) => renderStructurePrompt(parts, guidance, location, siblingShape);
+    const parts = promptParts(context, STRUCTURE_SYSTEM_PROMPT, render, {
+        outline: true,
+        textAfterCursor: false,
+    });
 
     return {
         systemPrompt: STRUCTURE_SYSTEM_PROMPT,
-        userPrompt,
+        userPrompt: render(parts),
     };
 }
 
 /**
- * Build a prompt for content filling
+ * Render the user prompt for content filling
  */
-function buildContentPrompt(context: DocumentContext): BuiltPrompt {
-    const typeContext = context.documentType
-        ? `\nDocument type: ${context.documentType.name}\n${context.documentType.workingPrompt}`
-        : '';
-
-    const sectionContext = context.currentSection
-        ? `\nCurrent section: ${context.currentSection}`
-        : '';
-
-    const userPrompt = `CONTEXT & FRAMEWORK:
-${typeContext}${sectionContext}
+function renderContentPrompt(parts: PromptParts, guidance: string, currentLine: string): string {
+    return `CONTEXT & FRAMEWORK:
+${parts.framework}${guidance}${renderBlock('SIBLING SECTIONS', parts.siblings)}
 
 CONTENT BEFORE CURSOR (DO NOT REPEAT):
-${context.textBeforeCursor}
+${parts.textBeforeCursor}
 
 CURRENT LINE:
-${context.currentLine}
+${currentLine}
 
 CONTENT AFTER CURSOR:
-${context.textAfterCursor}
+${parts.textAfterCursor}${renderBlock('NEXT SECTION', parts.nextSection)}
 
 INSTRUCTIONS:
 1. You are coaching the user to write this section.
@@ -92,10 +323,51 @@ INSTRUCTIONS:
 5. DO NOT repeat existing text.
 
 Generate ONLY the new text/scaffolding.`;
+}
+
+/**
+ * Build a prompt for content filling
+ */
+function buildContentPrompt(context: DocumentContext): BuiltPrompt {
+    const guidance = renderHeadingPath(context) + renderDirectives(context);
+    const render = (parts: PromptParts) => renderContentPrompt(parts, guidance, context.currentLine);
+    const parts = promptParts(context, CONTENT_SYSTEM_PROMPT, render, {
+        outline: false,
+        textAfterCursor: true,
+    });
 
     return {
         systemPrompt: CONTENT_SYSTEM_PROMPT,
-        userPrompt,
+        userPrompt: render(parts),
+    };
+}
+
+/**
+ * Build a fill-in-the-middle request for content filling: the document text
+ * around the cursor without instructions, for base and code models
+ */
+export function buildFimPrompt(context: DocumentContext): FimRequest {
+    // textAfterCursor starts at the next line; the suffix also needs the rest of the current one
+    const lineBeforeCursor = context.textBeforeCursor.slice(context.textBeforeCursor.lastIndexOf('\n') + 1);
+    const restOfLine = context.currentLine.slice(lineBeforeCursor.length);
+    const textAfterCursor = context.textAfterCursor ? `${restOfLine}\n${context.textAfterCursor}` : restOfLine;
+
+    const budget = context.budget;
+    if (!budget) {
+        return { prefix: context.textBeforeCursor, suffix: textAfterCursor };
+    }
+
+    const allocation = budget.allocate([], {
+        framework: 0,
+        outline: 0,
+        sections: 0,
+        before: budget.count(context.textBeforeCursor),
+        after: budget.count(textAfterCursor),
+    });
+
+    return {
+        prefix: budget.fitEnd(context.textBeforeCursor, allocation.before),
+        suffix: budget.fitStart(textAfterCursor, allocation.after),
     };
 }
 
@@ -11,12 +11,17 @@ export {
 } from './templates';
 
 export {
+    DocumentTypeDetection,
+    DETECTION_MIN_CONFIDENCE,
     detectDocumentType,
+    requestDocumentType,
     resolveDocumentType,
+    parseDetectionAnswer,
 } from './type-detector';
 
 export {
     BuiltPrompt,
     buildPrompt,
     buildPromptForMode,
+    buildFimPrompt,
 } from './builder';
@@ -2,18 +2,86 @@
  * LLM-based document type detection
  */
 
-import { LLMProvider, DocumentType } from '../llm/types';
+import { LLMProvider, DocumentType, CompletionOptions, ResponseFormat } from '../llm/types';
+import { LLMHttpError } from '../llm/errors';
+import { ContextBudget, DEFAULT_CONTEXT_TOKENS } from '../analysis/context-budget';
+import { readDocumentSettingsFromText } from '../analysis/directives';
 import { getAllDocumentTypes } from './templates';
+import { RequestLog } from '../logging/request-log';
+import { logger } from '../logging/logger';
+
+/**
+ * Tokens reserved for the detection answer: a small JSON object with a one-line reason
+ */
+const DETECTION_MAX_TOKENS = 150;
+
+/**
+ * Upper limit for the document excerpt (tokens); the start of a document is
+ * usually enough to tell its type
+ */
+const DETECTION_EXCERPT_TOKENS = 500;
+
+/**
+ * Detections the model is less sure of than this fall back to general
+ */
+export const DETECTION_MIN_CONFIDENCE = 0.6;
+
+/**
+ * HTTP statuses of servers rejecting the structured output request
+ */
+const UNSUPPORTED_FORMAT_STATUSES = new Set([400, 422]);
+
+/**
+ * Outcome of asking the model for the document type
+ */
+export interface DocumentTypeDetection {
+    /** Detected type; null for general and for answers below the confidence threshold */
+    type: DocumentType | null;
+    /** Type the model named, even when it was not confident enough to use */
+    candidate: string;
+    /** Model's confidence from 0 to 1; undefined when the answer had none */
+    confidence?: number;
+    /** One-line rationale given by the model */
+    reason?: string;
+}
+
+/**
+ * Fields of the detection answer
+ */
+interface DetectionAnswer {
+    type: string;
+    confidence?: number;
+    reason?: string;
+}
+
+/**
+ * JSON schema of the detection answer, restricted to the known type names
+ */
+function detectionFormat(types: DocumentType[]): ResponseFormat {
+    return {
+        name: 'document_type',
+        schema: {
+            type: 'object',
+            properties: {
+                type: { type: 'string', enum: [...types.map(t => t.name), 'general'] },
+                confidence: { type: 'number', minimum: 0, maximum: 1 },
+                reason: { type: 'string' },
+            },
+            required: ['type', 'confidence', 'reason'],
+            additionalProperties: false,
+        },
+    };
+}
 
 /**
  * Build prompt for document type detection
  */
-function buildDetectionPrompt(documentText: string, types: DocumentType[]): string {
+function buildDetectionPrompt(documentText: string, types: DocumentType[], budget: ContextBudget): string {
     const typeDescriptions = types
         .map((t, i) => `${i + 1}. ${t.name}: ${t.detectionPrompt}`)
         .join('\n');
 
-    return `Analyze the following document and determine which type it most closely matches.
+    const render = (excerpt: string) => `Analyze the following document and determine which type it most closely matches.
 
 Available document types:
 ${typeDescriptions}
@@ -21,68 +89,215 @@ ${types.length + 1}. general: Does not match any specific type above
 
 Document excerpt:
 ---
-${documentText.slice(0, 2000)}
+${excerpt}
 ---
 
-Respond with ONLY the type name (e.g., "negotiation" or "general"). No explanation.`;
+Respond with ONLY a JSON object, no other text:
+{"type": "<type name or general>", "confidence": <number from 0 to 1>, "reason": "<one short sentence>"}`;
+
+    const detectionBudget = budget.withOutput(DETECTION_MAX_TOKENS);
+    const excerptTokens = Math.min(
+        DETECTION_EXCERPT_TOKENS,
+        Math.max(0, detectionBudget.inputTokens - detectionBudget.count(render('')))
+    );
+    return render(detectionBudget.fitStart(documentText, excerptTokens));
 }
 
 /**
- * Detect document type using LLM
+ * First balanced {...} block in the text, skipping braces inside strings
  */
-export async function detectDocumentType(
+function extractJsonObject(text: string): string | undefined {
+    const start = text.indexOf('{');
+    if (start === -1) {
+        return undefined;
+    }
+
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (char === '\\') {
+                i++;
+            } else if (char === '"') {
+                inString = false;
+            }
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{') {
+            depth++;
+        } else if (char === '}' && --depth === 0) {
+            return text.slice(start, i + 1);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Confidence as a 0-1 number; accepts percentages like 85 or "85%"
+ */
+function normalizeConfidence(value: unknown): number | undefined {
+    const number = typeof value === 'string' ? parseFloat(value) : value;
+    if (typeof number !== 'number' || Number.isNaN(number)) {
+        return undefined;
+    }
+    const fraction = number > 1 ? number / 100 : number;
+    return Math.min(1, Math.max(0, fraction));
+}
+
+/**
+ * Type names compared without case, quotes or the difference between spaces and dashes
+ */
+function normalizeTypeName(name: string): string {
+    return name.trim().toLowerCase().replace(/['"`.]/g, '').replace(/[\s_]+/g, '-');
+}
+
+/**
+ * Read the detection answer, tolerating code fences, text around the JSON and
+ * models that answer with a bare or embedded type name instead
+ */
+export function parseDetectionAnswer(response: string, types: DocumentType[]): DetectionAnswer {
+    const json = extractJsonObject(response);
+    if (json) {
+        try {
+            const parsed = JSON.parse(json) as Record<string, unknown>;
+            if (typeof parsed.type === 'string') {
+                return {
+                    type: normalizeTypeName(parsed.type),
+                    confidence: normalizeConfidence(parsed.confidence),
+                    reason: typeof parsed.reason === 'string' ? parsed.reason.trim() : undefined,
+                };
+            }
+        } catch {
+            // Not valid JSON - look for a type name instead
+        }
+    }
+
+    // Longest names first, so "meeting-notes" wins over a shorter name it contains
+    const text = response.toLowerCase();
+    const names = [...types.map(t => normalizeTypeName(t.name)), 'general'].sort((a, b) => b.length - a.length);
+    const named = names.find(name => typeNamePattern(name).test(text));
+    return { type: named ?? 'general' };
+}
+
+/**
+ * Whole-word match of a type name, written with dashes, spaces or underscores
+ */
+function typeNamePattern(name: string): RegExp {
+    const words = name.split(/[-\s_]+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`(^|[^a-z0-9-])${words.join('[-\\s_]')}($|[^a-z0-9-])`);
+}
+
+/**
+ * Ask the LLM to classify the document.
+ * Unlike detectDocumentType, request failures are thrown to the caller.
+ */
+export async function requestDocumentType(
     documentText: string,
     customTypes: DocumentType[],
-    llm: LLMProvider
-): Promise<DocumentType | null> {
+    llm: LLMProvider,
+    signal?: AbortSignal,
+    budget: ContextBudget = new ContextBudget(DEFAULT_CONTEXT_TOKENS, DETECTION_MAX_TOKENS)
+): Promise<DocumentTypeDetection> {
     const allTypes = getAllDocumentTypes(customTypes);
 
     if (allTypes.length === 0) {
-        return null;
+        return { type: null, candidate: 'general' };
     }
 
-    const prompt = buildDetectionPrompt(documentText, allTypes);
+    const prompt = buildDetectionPrompt(documentText, allTypes, budget);
+    const options: CompletionOptions = {
+        maxTokens: DETECTION_MAX_TOKENS,
+        temperature: 0.1, // Low temperature for consistent detection
+        task: 'detection',
+        responseFormat: detectionFormat(allTypes),
+        maxRetryTokens: budget.outputRoom(prompt),
+        signal,
+    };
 
+    const request = new RequestLog('detection');
+    let response: string;
     try {
-        const response = await llm.complete(prompt, {
-            maxTokens: 50,
-            temperature: 0.1, // Low temperature for consistent detection
-        });
-
-        const typeName = response.trim().toLowerCase().replace(/['"]/g, '');
-
-        // Handle "general" response
-        if (typeName === 'general') {
-            return null;
+        try {
+            response = await llm.complete(prompt, request.track(options));
+        } catch (error) {
+            // Servers without structured output support reject the schema; the prompt asks for JSON anyway
+            if (!(error instanceof LLMHttpError) || !UNSUPPORTED_FORMAT_STATUSES.has(error.status) || signal?.aborted) {
+                throw error;
+            }
+            logger.debug(`[TypeDetector] [${request.id}] Structured output rejected, retrying without a schema`);
+            response = await llm.complete(prompt, request.track({ ...options, responseFormat: undefined }));
         }
+    } catch (error) {
+        request.fail(error, signal);
+        throw error;
+    }
 
-        // Find matching type
-        const matchedType = allTypes.find(
-            t => t.name.toLowerCase() === typeName
-        );
+    const answer = parseDetectionAnswer(response, allTypes);
+    const matchedType = answer.type === 'general'
+        ? undefined
+        : allTypes.find(t => normalizeTypeName(t.name) === answer.type);
+    // Answers without a confidence are taken at their word
+    const confident = answer.confidence === undefined || answer.confidence >= DETECTION_MIN_CONFIDENCE;
+    const type = matchedType && confident ? matchedType : null;
 
-        return matchedType ?? null;
+    const confidence = answer.confidence === undefined ? '' : ` (${answer.confidence.toFixed(2)})`;
+    request.succeed(response, `detected ${type?.name ?? 'general'}, model said ${answer.type}${confidence}`);
+    return {
+        type,
+        candidate: matchedType?.name ?? 'general',
+        confidence: answer.confidence,
+        reason: answer.reason,
+    };
+}
+
+/**
+ * Detect document type using LLM
+ */
+export async function detectDocumentType(
+    documentText: string,
+    customTypes: DocumentType[],
+    llm: LLMProvider,
+    signal?: AbortSignal,
+    budget?: ContextBudget
+): Promise<DocumentType | null> {
+    try {
+        return (await requestDocumentType(documentText, customTypes, llm, signal, budget)).type;
     } catch (error) {
-        console.error('Document type detection failed:', error);
+        // Cancellation must reach the caller instead of falling back to general
+        if (signal?.aborted) {
+            throw error;
+        }
+        logger.debug('[TypeDetector] Detection failed, using general:', error);
         return null;
     }
 }
 
 /**
- * Get document type - either from explicit selection or auto-detect
+ * Get document type - pinned in the document's frontmatter, explicitly
+ * selected, or auto-detected
  */
 export async function resolveDocumentType(
     documentText: string,
     activeTypeName: string,
     customTypes: DocumentType[],
-    llm: LLMProvider
+    llm: LLMProvider,
+    signal?: AbortSignal,
+    budget?: ContextBudget
 ): Promise<DocumentType | null> {
+    // The document's own setting wins over the selected type
+    const typeName = readDocumentSettingsFromText(documentText).type ?? activeTypeName;
+
     // If 'auto', detect from content
-    if (activeTypeName === 'auto') {
-        return detectDocumentType(documentText, customTypes, llm);
+    if (typeName === 'auto') {
+        return detectDocumentType(documentText, customTypes, llm, signal, budget);
     }
 
     // Otherwise, find the specified type
     const allTypes = getAllDocumentTypes(customTypes);
-    return allTypes.find(t => t.name === activeTypeName) ?? null;
+    const type = allTypes.find(t => t.name === typeName) ?? null;
+    if (!type) {
+        logger.debug(`[TypeDetector] Unknown document type "${typeName}", using general`);
+    }
+    return type;
 }
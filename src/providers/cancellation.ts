@@ -0,0 +1,40 @@
+/**
+ * Bridges VS Code cancellation tokens to fetch abort signals
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * Abort signal tied to a cancellation token
+ */
+export interface TokenAbortSignal extends vscode.Disposable {
+    signal: AbortSignal;
+}
+
+/**
+ * Create an AbortSignal that fires when the given token is cancelled.
+ * Dispose it once the request is done to release the token listener.
+ */
+export function abortSignalFromToken(token: vscode.CancellationToken): TokenAbortSignal {
+    const controller = new AbortController();
+
+    if (token.isCancellationRequested) {
+        controller.abort();
+        return { signal: controller.signal, dispose: () => undefined };
+    }
+
+    const listener = token.onCancellationRequested(() => controller.abort());
+    return {
+        signal: controller.signal,
+        dispose: () => listener.dispose(),
+    };
+}
+
+/**
+ * Check whether an error was caused by an aborted request
+ */
+export function isAbortError(error: unknown): boolean {
+    return typeof error === 'object'
+        && error !== null
+        && (error as { name?: unknown }).name === 'AbortError';
+}
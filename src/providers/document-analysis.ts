@@ -0,0 +1,83 @@
+/**
+ * Parsed documents kept up to date from editor change events
+ * Completions and commands analyze the cached model instead of parsing the
+ * whole document on every request.
+ */
+
+import * as vscode from 'vscode';
+import { DocumentType } from '../llm/types';
+import { DocumentContext, analyzeParsedDocument } from '../analysis/document-context';
+import { ContextBudget } from '../analysis/context-budget';
+import { DocumentModel } from '../analysis/document-model';
+
+/**
+ * Model of one document and the version it reflects
+ */
+interface TrackedDocument {
+    version: number;
+    model: DocumentModel;
+}
+
+export class DocumentAnalysisService implements vscode.Disposable {
+    private readonly documents = new Map<string, TrackedDocument>();
+    private readonly subscriptions: vscode.Disposable[];
+
+    constructor() {
+        this.subscriptions = [
+            vscode.workspace.onDidChangeTextDocument(event => this.update(event)),
+            vscode.workspace.onDidCloseTextDocument(document => this.documents.delete(document.uri.toString())),
+        ];
+    }
+
+    /**
+     * Parsed model of a document; documents are tracked from their first use
+     */
+    get(document: vscode.TextDocument): DocumentModel {
+        const uri = document.uri.toString();
+        const tracked = this.documents.get(uri);
+        if (tracked && tracked.version === document.version) {
+            return tracked.model;
+        }
+
+        // First use, or a change event was missed
+        const model = new DocumentModel(document.getText());
+        this.documents.set(uri, { version: document.version, model });
+        return model;
+    }
+
+    /**
+     * Analyze the document at a position from its parsed model
+     */
+    analyze(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        documentType: DocumentType | null,
+        budget?: ContextBudget
+    ): DocumentContext {
+        return analyzeParsedDocument(this.get(document), position.line, position.character, documentType, budget);
+    }
+
+    dispose(): void {
+        this.subscriptions.forEach(s => s.dispose());
+        this.documents.clear();
+    }
+
+    private update(event: vscode.TextDocumentChangeEvent): void {
+        const uri = event.document.uri.toString();
+        const tracked = this.documents.get(uri);
+        // Untracked documents, events without edits and changes already applied
+        if (!tracked || event.contentChanges.length === 0 || event.document.version <= tracked.version) {
+            return;
+        }
+        if (event.document.version !== tracked.version + 1) {
+            // A change was missed; the next use parses the document again
+            this.documents.delete(uri);
+            return;
+        }
+
+        for (const change of event.contentChanges) {
+            tracked.model.applyChange(change);
+        }
+        tracked.version = event.document.version;
+    }
+}
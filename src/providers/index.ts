@@ -3,3 +3,7 @@
  */
 
 export { ThoughtCompletionProvider } from './inline-completion';
+export { RequestScheduler } from './request-scheduler';
+export { TokenAbortSignal, abortSignalFromToken, isAbortError } from './cancellation';
+export { DocumentTypeCache, TypeCacheEntry, hasDrifted } from './type-cache';
+export { DocumentAnalysisService } from './document-analysis';
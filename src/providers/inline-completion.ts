@@ -3,10 +3,24 @@
  */
 
 import * as vscode from 'vscode';
-import { LLMProvider, DocumentType } from '../llm/types';
-import { analyzeDocument } from '../analysis/document-context';
-import { buildPrompt } from '../prompts/builder';
-import { resolveDocumentType } from '../prompts/type-detector';
+import { CompletionOptions, DocumentType, LLMProvider, RequestPriority } from '../llm/types';
+import { LLMHttpError, isUnavailable } from '../llm/errors';
+import { TaskRouter } from '../llm/task-router';
+import { DocumentContext } from '../analysis/document-context';
+import { ContextBudget } from '../analysis/context-budget';
+import { readDocumentSettings } from '../analysis/directives';
+import { buildFimPrompt, buildPrompt } from '../prompts/builder';
+import { abortSignalFromToken, isAbortError } from './cancellation';
+import { RequestScheduler } from './request-scheduler';
+import { DocumentTypeCache } from './type-cache';
+import { DocumentAnalysisService } from './document-analysis';
+import { logger } from '../logging/logger';
+import { RequestLog } from '../logging/request-log';
+
+/**
+ * Statuses of servers without a raw completions endpoint or FIM support for the model
+ */
+const FIM_REJECTED_STATUSES = new Set([400, 404, 405, 422, 501]);
 
 /**
  * Trigger mode for completions
@@ -17,51 +31,63 @@ export type TriggerMode = 'auto' | 'manual';
  * Provides inline completions for thought organization
  */
 export class ThoughtCompletionProvider implements vscode.InlineCompletionItemProvider {
-    private llm: LLMProvider;
+    private router: TaskRouter;
     private customTypes: DocumentType[];
     private activeTypeName: string;
     private enabled: boolean;
     private triggerMode: TriggerMode;
     private maxTokens: number;
-    private cachedType: DocumentType | null = null;
-    private cachedDocVersion: number = -1;
+    private temperature: number;
+    private budget: ContextBudget | undefined;
+    private scheduler: RequestScheduler;
 
     constructor(
-        llm: LLMProvider,
+        private readonly typeCache: DocumentTypeCache,
+        private readonly analysis: DocumentAnalysisService,
+        router: TaskRouter,
         customTypes: DocumentType[],
         activeTypeName: string,
         enabled: boolean,
         triggerMode: TriggerMode = 'auto',
-        maxTokens: number = 1000
+        maxTokens: number = 1000,
+        completionDelay: number = 2500,
+        temperature: number = 0.7,
+        budget?: ContextBudget
     ) {
-        this.llm = llm;
+        this.router = router;
         this.customTypes = customTypes;
         this.activeTypeName = activeTypeName;
         this.enabled = enabled;
         this.triggerMode = triggerMode;
         this.maxTokens = maxTokens;
+        this.temperature = temperature;
+        this.budget = budget;
+        this.scheduler = new RequestScheduler(completionDelay);
     }
 
     /**
      * Update provider configuration
      */
     updateConfig(
-        llm: LLMProvider,
+        router: TaskRouter,
         customTypes: DocumentType[],
         activeTypeName: string,
         enabled: boolean,
         triggerMode: TriggerMode = 'auto',
-        maxTokens: number = 1000
+        maxTokens: number = 1000,
+        completionDelay: number = 2500,
+        temperature: number = 0.7,
+        budget?: ContextBudget
     ): void {
-        this.llm = llm;
+        this.router = router;
         this.customTypes = customTypes;
         this.activeTypeName = activeTypeName;
         this.enabled = enabled;
         this.triggerMode = triggerMode;
         this.maxTokens = maxTokens;
-        // Reset cache when config changes
-        this.cachedType = null;
-        this.cachedDocVersion = -1;
+        this.temperature = temperature;
+        this.budget = budget;
+        this.scheduler.setDelay(completionDelay);
     }
 
     async provideInlineCompletionItems(
@@ -70,18 +96,15 @@ export class ThoughtCompletionProvider implements vscode.InlineCompletionItemPro
         context: vscode.InlineCompletionContext,
         token: vscode.CancellationToken
     ): Promise<vscode.InlineCompletionList | null> {
-        console.log('[ThoughtCompletion] provideInlineCompletionItems called');
-        console.log(`[ThoughtCompletion] enabled: ${this.enabled}, triggerMode: ${this.triggerMode}, triggerKind: ${context.triggerKind}`);
+        logger.trace(`[ThoughtCompletion] Inline completion requested (enabled: ${this.enabled}, triggerMode: ${this.triggerMode}, triggerKind: ${context.triggerKind})`);
 
         if (!this.enabled) {
-            console.log('[ThoughtCompletion] Disabled, returning null');
             return null;
         }
 
         // In manual mode, only respond to explicit invocations (Ctrl+Space)
         if (this.triggerMode === 'manual') {
             if (context.triggerKind === vscode.InlineCompletionTriggerKind.Automatic) {
-                console.log('[ThoughtCompletion] Manual mode - ignoring automatic trigger');
                 return null;
             }
         }
@@ -91,56 +114,25 @@ export class ThoughtCompletionProvider implements vscode.InlineCompletionItemPro
             const line = document.lineAt(position.line);
             // Don't trigger mid-word
             if (position.character < line.text.length && !/\s/.test(line.text[position.character])) {
-                console.log('[ThoughtCompletion] Mid-word, skipping');
                 return null;
             }
         }
 
-        console.log('[ThoughtCompletion] Processing completion request...');
+        const abort = abortSignalFromToken(token);
 
         try {
-            const text = document.getText();
-
-            // Resolve document type (with caching)
-            let docType = this.cachedType;
-            if (document.version !== this.cachedDocVersion) {
-                docType = await resolveDocumentType(
-                    text,
-                    this.activeTypeName,
-                    this.customTypes,
-                    this.llm
-                );
-                this.cachedType = docType;
-                this.cachedDocVersion = document.version;
-            }
-
-            if (token.isCancellationRequested) {
-                return null;
-            }
-
-            // Analyze document context
-            const docContext = analyzeDocument(
-                text,
-                position.line,
-                position.character,
-                docType
+            // Explicit invocations skip the debounce delay and the queue of automatic requests, but are still coalesced
+            const invoked = context.triggerKind === vscode.InlineCompletionTriggerKind.Invoke;
+            const delayMs = invoked ? 0 : undefined;
+            const priority: RequestPriority = invoked ? 'interactive' : 'background';
+
+            const completion = await this.scheduler.schedule(
+                document,
+                token,
+                () => this.generateCompletion(document, position, abort.signal, priority),
+                delayMs
             );
 
-            // Build prompt
-            const { systemPrompt, userPrompt } = buildPrompt(docContext);
-            console.log('[ThoughtCompletion] Built prompt, calling LLM...');
-            console.log('[ThoughtCompletion] Cursor position:', docContext.cursorPosition);
-            console.log('[ThoughtCompletion] Max tokens:', this.maxTokens);
-
-            // Get completion from LLM
-            const completion = await this.llm.complete(userPrompt, {
-                systemPrompt,
-                maxTokens: this.maxTokens,
-                temperature: 0.7,
-            });
-
-            console.log('[ThoughtCompletion] LLM response:', completion?.slice(0, 100));
-
             if (token.isCancellationRequested || !completion) {
                 return null;
             }
@@ -153,8 +145,99 @@ export class ThoughtCompletionProvider implements vscode.InlineCompletionItemPro
 
             return new vscode.InlineCompletionList([item]);
         } catch (error) {
-            console.error('[ThoughtCompletion] Error:', error);
+            // Failed requests are already logged with their outcome
+            if (!isAbortError(error)) {
+                logger.debug('[ThoughtCompletion] Completion failed:', error);
+            }
             return null;
+        } finally {
+            abort.dispose();
+        }
+    }
+
+    /**
+     * Resolve the document type, build the prompt and request a completion
+     */
+    private async generateCompletion(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        signal: AbortSignal,
+        priority: RequestPriority
+    ): Promise<string> {
+        const model = this.analysis.get(document);
+        // A model pinned in the document's frontmatter replaces the configured one
+        const router = this.router.forModel(readDocumentSettings(model.structure).model);
+
+        // Resolve document type (cached per document until the content drifts)
+        const docType = await this.typeCache.resolve(
+            { uri: document.uri.toString(), version: document.version, model },
+            this.activeTypeName,
+            this.customTypes,
+            router.forTask('detection', priority),
+            signal,
+            this.budget
+        );
+
+        // Analyze document context from the parsed model kept up to date with edits
+        const docContext = this.analysis.analyze(document, position, docType, this.budget);
+
+        const llm = router.forTask(docContext.cursorPosition);
+        const request = new RequestLog(docContext.cursorPosition, docType?.name ?? 'general');
+        const options: CompletionOptions = {
+            maxTokens: this.maxTokens,
+            temperature: docContext.documentSettings.temperature ?? this.temperature,
+            task: docContext.cursorPosition,
+            signal,
+            priority,
+            // A newer completion for the same document replaces one still waiting in the queue
+            supersedeKey: `inline:${document.uri.toString()}`,
+        };
+
+        try {
+            // Base and code models fill content from the surrounding text alone
+            if (docContext.cursorPosition === 'content' && llm.supportsFim) {
+                const completion = await this.fillInMiddle(llm, docContext, request, options);
+                if (completion !== undefined) {
+                    request.succeed(completion, 'fill-in-the-middle');
+                    return completion;
+                }
+            }
+
+            // Get completion from the model routed for this position
+            const { systemPrompt, userPrompt } = buildPrompt(docContext);
+            const completion = await llm.complete(userPrompt, request.track({
+                ...options,
+                systemPrompt,
+                maxRetryTokens: this.budget?.outputRoom(systemPrompt, userPrompt),
+                onReasoning: reasoning => logger.trace(`[ThoughtCompletion] [${request.id}] Model reasoning: ${reasoning}`),
+            }));
+            request.succeed(completion);
+            return completion;
+        } catch (error) {
+            request.fail(error, signal);
+            throw error;
+        }
+    }
+
+    /**
+     * Request a fill-in-the-middle completion; undefined when the server
+     * rejects it or cannot be reached, so the caller can fall back to chat
+     */
+    private async fillInMiddle(
+        llm: LLMProvider,
+        docContext: DocumentContext,
+        request: RequestLog,
+        options: CompletionOptions
+    ): Promise<string | undefined> {
+        try {
+            return await llm.completeFim!(buildFimPrompt(docContext), request.track(options));
+        } catch (error) {
+            const rejected = error instanceof LLMHttpError && FIM_REJECTED_STATUSES.has(error.status);
+            if (options.signal?.aborted || !(rejected || isUnavailable(error))) {
+                throw error;
+            }
+            logger.debug(`[ThoughtCompletion] [${request.id}] Fill-in-the-middle failed (${(error as Error).message}), using chat`);
+            return undefined;
         }
     }
 }
@@ -0,0 +1,144 @@
+/**
+ * Debounced, coalescing scheduler for inline completion requests
+ * Waits for typing to settle, keeps one request in flight per document
+ * and drops results computed for an outdated document version.
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * Trigger waiting for the debounce delay to elapse
+ */
+interface PendingTrigger {
+    timer: ReturnType<typeof setTimeout>;
+    resolve: (fired: boolean) => void;
+    cancellation: vscode.Disposable;
+}
+
+/**
+ * Per-document scheduling state
+ */
+interface DocumentSchedule {
+    /** Incremented on every trigger; only the latest one may run */
+    generation: number;
+    pending: PendingTrigger | null;
+    inFlight: Promise<unknown> | null;
+}
+
+export class RequestScheduler {
+    private delayMs: number;
+    private schedules = new Map<string, DocumentSchedule>();
+
+    constructor(delayMs: number) {
+        this.delayMs = delayMs;
+    }
+
+    /**
+     * Update the debounce delay used for subsequent triggers
+     */
+    setDelay(delayMs: number): void {
+        this.delayMs = delayMs;
+    }
+
+    /**
+     * Schedule a request for a document.
+     * Resolves to null when the trigger is superseded by a newer one, cancelled,
+     * or when the document changed while the request was running.
+     */
+    async schedule<T>(
+        document: vscode.TextDocument,
+        token: vscode.CancellationToken,
+        run: () => Promise<T>,
+        delayMs: number = this.delayMs
+    ): Promise<T | null> {
+        const key = document.uri.toString();
+        const version = document.version;
+        const schedule = this.getSchedule(key);
+        const generation = ++schedule.generation;
+
+        // Coalesce: a newer trigger replaces the one still waiting
+        this.settlePending(schedule, false);
+
+        const fired = await this.debounce(schedule, token, delayMs);
+        if (!fired) {
+            return null;
+        }
+
+        // Keep at most one request in flight per document
+        while (schedule.inFlight) {
+            await schedule.inFlight.catch(() => undefined);
+        }
+
+        if (generation !== schedule.generation || token.isCancellationRequested) {
+            return null;
+        }
+
+        const request = run();
+        schedule.inFlight = request;
+
+        try {
+            const result = await request;
+            // Drop results computed for an outdated document version
+            return document.version === version ? result : null;
+        } finally {
+            schedule.inFlight = null;
+            if (!schedule.pending && generation === schedule.generation) {
+                this.schedules.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Cancel all waiting triggers
+     */
+    dispose(): void {
+        for (const schedule of this.schedules.values()) {
+            this.settlePending(schedule, false);
+        }
+        this.schedules.clear();
+    }
+
+    private getSchedule(key: string): DocumentSchedule {
+        let schedule = this.schedules.get(key);
+        if (!schedule) {
+            schedule = { generation: 0, pending: null, inFlight: null };
+            this.schedules.set(key, schedule);
+        }
+        return schedule;
+    }
+
+    private debounce(
+        schedule: DocumentSchedule,
+        token: vscode.CancellationToken,
+        delayMs: number
+    ): Promise<boolean> {
+        if (token.isCancellationRequested) {
+            return Promise.resolve(false);
+        }
+
+        return new Promise<boolean>(resolve => {
+            const pending: PendingTrigger = {
+                timer: setTimeout(() => this.settlePending(schedule, true), delayMs),
+                resolve,
+                cancellation: token.onCancellationRequested(() => {
+                    if (schedule.pending === pending) {
+                        this.settlePending(schedule, false);
+                    }
+                }),
+            };
+            schedule.pending = pending;
+        });
+    }
+
+    private settlePending(schedule: DocumentSchedule, fired: boolean): void {
+        const pending = schedule.pending;
+        if (!pending) {
+            return;
+        }
+
+        schedule.pending = null;
+        clearTimeout(pending.timer);
+        pending.cancellation.dispose();
+        pending.resolve(fired);
+    }
+}
@@ -0,0 +1,268 @@
+/**
+ * Per-document cache of detected document types
+ * Persisted in workspace state and re-detected only when the content drifts.
+ */
+
+import * as vscode from 'vscode';
+import { LLMProvider, DocumentType } from '../llm/types';
+import { ParsedDocument } from '../analysis/document-context';
+import { ContextBudget } from '../analysis/context-budget';
+import { DocumentModel } from '../analysis/document-model';
+import { readDocumentSettings } from '../analysis/directives';
+import { findDocumentType, getAllDocumentTypes } from '../prompts/templates';
+import { DocumentTypeDetection, requestDocumentType } from '../prompts/type-detector';
+import { logger } from '../logging/logger';
+
+/**
+ * Workspace state key holding cached entries
+ */
+const STORAGE_KEY = 'thoughtCompletion.detectedTypes';
+
+/**
+ * Maximum number of documents remembered
+ */
+const MAX_ENTRIES = 200;
+
+/**
+ * Headers up to this level count as top-level for drift detection
+ */
+const TOP_LEVEL_HEADER_DEPTH = 2;
+
+/**
+ * Share of changed lines (of all distinct lines) that counts as a large diff
+ */
+const DRIFT_RATIO = 0.3;
+
+/**
+ * Minimum number of changed lines before a diff counts as large,
+ * so typing within a single line never triggers re-detection
+ */
+const MIN_CHANGED_LINES = 3;
+
+/**
+ * Content fingerprint taken at detection time
+ */
+interface ContentSnapshot {
+    /** Top-level header texts */
+    headers: string[];
+    /** Hashes of distinct non-empty lines */
+    lineHashes: number[];
+}
+
+/**
+ * Document a type is resolved for
+ */
+export interface TypedDocument {
+    uri: string;
+    /** Editor version; the drift check is skipped while it stays the same */
+    version: number;
+    /** Parsed model kept up to date with edits */
+    model: DocumentModel;
+}
+
+/**
+ * Cached detection result for one document
+ */
+export interface TypeCacheEntry extends ContentSnapshot {
+    /** Detected type name (null = general) */
+    typeName: string | null;
+    /** Names of the types available at detection time */
+    typesKey: string;
+    /** Detection timestamp (ms) */
+    detectedAt: number;
+}
+
+/**
+ * FNV-1a hash of a line
+ */
+function hashLine(line: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < line.length; i++) {
+        hash ^= line.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Take a content snapshot for drift comparison
+ */
+function takeSnapshot(document: ParsedDocument): ContentSnapshot {
+    const headers = document.structure
+        .filter(n => n.type === 'header' && n.level <= TOP_LEVEL_HEADER_DEPTH)
+        .map(n => n.content.trim());
+
+    const lineHashes = new Set<number>();
+    for (const line of document.lines) {
+        const trimmed = line.trim();
+        if (trimmed) {
+            lineHashes.add(hashLine(trimmed));
+        }
+    }
+
+    return { headers, lineHashes: [...lineHashes] };
+}
+
+/**
+ * Check whether content changed enough since detection to warrant re-detection
+ */
+export function hasDrifted(previous: ContentSnapshot, current: ContentSnapshot): boolean {
+    // A new top-level header usually means the document changed direction
+    const knownHeaders = new Set(previous.headers);
+    if (current.headers.some(h => !knownHeaders.has(h))) {
+        return true;
+    }
+
+    const before = new Set(previous.lineHashes);
+    const after = new Set(current.lineHashes);
+
+    let common = 0;
+    for (const hash of after) {
+        if (before.has(hash)) common++;
+    }
+
+    const union = before.size + after.size - common;
+    const changed = union - common;
+    return changed >= MIN_CHANGED_LINES && changed / Math.max(union, 1) > DRIFT_RATIO;
+}
+
+/**
+ * Key identifying the set of available types
+ */
+function typesKeyOf(types: DocumentType[]): string {
+    return types.map(t => t.name).join('|');
+}
+
+/**
+ * Caches detected document types per document URI
+ */
+export class DocumentTypeCache implements vscode.Disposable {
+    private entries: Record<string, TypeCacheEntry>;
+    /** Model and version each entry was last found current for; not persisted, as versions restart per session */
+    private readonly checked = new Map<string, { model: DocumentModel; version: number }>();
+    private readonly changeEmitter = new vscode.EventEmitter<string>();
+
+    /** Fires with the document URI whenever its cached type changes */
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private readonly storage: vscode.Memento) {
+        this.entries = { ...storage.get<Record<string, TypeCacheEntry>>(STORAGE_KEY, {}) };
+    }
+
+    /**
+     * Get the cached entry for a document
+     */
+    get(uri: string): TypeCacheEntry | undefined {
+        return this.entries[uri];
+    }
+
+    /**
+     * Resolve the document type, using the cached detection while the content has not drifted.
+     * Types pinned in the frontmatter or explicitly selected bypass the cache.
+     */
+    async resolve(
+        document: TypedDocument,
+        activeTypeName: string,
+        customTypes: DocumentType[],
+        llm: LLMProvider,
+        signal?: AbortSignal,
+        budget?: ContextBudget
+    ): Promise<DocumentType | null> {
+        const typeName = readDocumentSettings(document.model.structure).type ?? activeTypeName;
+        if (typeName !== 'auto') {
+            const type = findDocumentType(typeName, customTypes);
+            if (!type) {
+                logger.debug(`[TypeCache] Unknown document type "${typeName}", using general`);
+            }
+            return type;
+        }
+
+        const allTypes = getAllDocumentTypes(customTypes);
+        const entry = this.entries[document.uri];
+
+        if (entry && entry.typesKey === typesKeyOf(allTypes) && this.isCurrent(document, entry)) {
+            return allTypes.find(t => t.name === entry.typeName) ?? null;
+        }
+
+        try {
+            return (await this.detect(document, customTypes, llm, signal, budget)).type;
+        } catch (error) {
+            if (signal?.aborted) {
+                throw error;
+            }
+            // Failed detections fall back to general without being cached
+            logger.debug('[TypeCache] Detection failed, using general:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Run detection now and store the result.
+     * Request failures are thrown to the caller.
+     */
+    async detect(
+        document: TypedDocument,
+        customTypes: DocumentType[],
+        llm: LLMProvider,
+        signal?: AbortSignal,
+        budget?: ContextBudget
+    ): Promise<DocumentTypeDetection> {
+        const { uri, model, version } = document;
+        // Taken before the request, since the model follows edits made meanwhile
+        const snapshot = takeSnapshot(model);
+        const detection = await requestDocumentType(model.text, customTypes, llm, signal, budget);
+
+        const previous = this.entries[uri];
+        this.checked.set(uri, { model, version });
+        this.entries[uri] = {
+            ...snapshot,
+            typeName: detection.type?.name ?? null,
+            typesKey: typesKeyOf(getAllDocumentTypes(customTypes)),
+            detectedAt: Date.now(),
+        };
+        this.evictOldest();
+        await this.storage.update(STORAGE_KEY, this.entries);
+
+        if (previous?.typeName !== this.entries[uri].typeName) {
+            this.changeEmitter.fire(uri);
+        }
+
+        return detection;
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
+    /**
+     * Whether an entry still describes the document: already found current at
+     * this version, or the content has not drifted since detection
+     */
+    private isCurrent(document: TypedDocument, entry: TypeCacheEntry): boolean {
+        const checked = this.checked.get(document.uri);
+        if (checked?.model === document.model && checked.version === document.version) {
+            return true;
+        }
+        if (hasDrifted(entry, takeSnapshot(document.model))) {
+            return false;
+        }
+        this.checked.set(document.uri, { model: document.model, version: document.version });
+        return true;
+    }
+
+    private evictOldest(): void {
+        const uris = Object.keys(this.entries);
+        if (uris.length <= MAX_ENTRIES) {
+            return;
+        }
+
+        uris
+            .sort((a, b) => this.entries[a].detectedAt - this.entries[b].detectedAt)
+            .slice(0, uris.length - MAX_ENTRIES)
+            .forEach(uri => {
+                delete this.entries[uri];
+                this.checked.delete(uri);
+            });
+    }
+}
+